@@ -0,0 +1,194 @@
+// ============================================
+// THREADMINER - LLM API Route
+// https://github.com/Sigmabrogz/REDDITMINER
+// GET  /api/llm → LLMStatusResponse
+// POST /api/llm → LLMCompletionResponse
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDefaultProvider, getProvider, getProviderStatuses, LLMError } from '@/lib/llm';
+import {
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMMessage,
+  LLMProviderId,
+  LLMStatusResponse,
+} from '@/lib/schemas';
+
+const ROLES: LLMMessage['role'][] = ['system', 'user', 'assistant'];
+const MAX_MESSAGES = 20;
+const MAX_PROMPT_CHARS = 400000;
+const MAX_TOKENS_LIMIT = 16000;
+
+const DEFAULT_TEMPERATURE = 0.2;
+const DEFAULT_MAX_TOKENS = 2500;
+
+// ============================================
+// Access Control
+// The route spends the server's provider keys, so it only serves this
+// app's own pages, or callers holding LLM_API_SECRET
+// ============================================
+
+function isAuthorized(req: NextRequest): boolean {
+  const secret = process.env.LLM_API_SECRET;
+  if (secret && req.headers.get('authorization') === `Bearer ${secret}`) return true;
+
+  // Browsers always send Origin on a POST; scripts without it need the secret
+  const origin = req.headers.get('origin');
+  if (!origin) return false;
+  try {
+    // Behind a proxy the public host is in x-forwarded-host
+    const host = req.headers.get('x-forwarded-host') || req.headers.get('host') || req.nextUrl.host;
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// Comma-separated LLM_ALLOWED_MODELS; unset allows any model
+function allowedModels(): string[] | null {
+  const models = (process.env.LLM_ALLOWED_MODELS || '').split(',').map(m => m.trim()).filter(Boolean);
+  return models.length > 0 ? models : null;
+}
+
+// ============================================
+// Request Parsing
+// ============================================
+
+function parseMessages(value: unknown): LLMMessage[] | string {
+  if (!Array.isArray(value) || value.length === 0) {
+    return 'Missing "messages" array.';
+  }
+  if (value.length > MAX_MESSAGES) {
+    return `Too many messages (max ${MAX_MESSAGES}).`;
+  }
+
+  let totalChars = 0;
+  for (const message of value) {
+    if (
+      typeof message !== 'object' || message === null ||
+      !ROLES.includes(message.role) || typeof message.content !== 'string'
+    ) {
+      return 'Each message needs a "role" (system, user, assistant) and string "content".';
+    }
+    totalChars += message.content.length;
+  }
+
+  if (totalChars > MAX_PROMPT_CHARS) {
+    return `Prompt too large (max ${MAX_PROMPT_CHARS} characters).`;
+  }
+
+  return value.map((m: LLMMessage) => ({ role: m.role, content: m.content }));
+}
+
+function parseRequest(input: Record<string, unknown>): (LLMCompletionRequest & { messages: LLMMessage[] }) | string {
+  const messages = parseMessages(input.messages);
+  if (typeof messages === 'string') return messages;
+
+  const temperature = input.temperature === undefined ? DEFAULT_TEMPERATURE : Number(input.temperature);
+  if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+    return '"temperature" must be between 0 and 2.';
+  }
+
+  const maxTokens = input.maxTokens === undefined ? DEFAULT_MAX_TOKENS : Number(input.maxTokens);
+  if (!Number.isInteger(maxTokens) || maxTokens <= 0 || maxTokens > MAX_TOKENS_LIMIT) {
+    return `"maxTokens" must be an integer between 1 and ${MAX_TOKENS_LIMIT}.`;
+  }
+
+  if (input.model !== undefined && typeof input.model !== 'string') {
+    return '"model" must be a string.';
+  }
+  const model = (input.model as string | undefined)?.trim() || '';
+  const allowed = allowedModels();
+  if (model && allowed && !allowed.includes(model)) {
+    return `Model "${model}" is not allowed on this server. Use one of: ${allowed.join(', ')}.`;
+  }
+
+  return {
+    messages,
+    provider: input.provider as LLMProviderId | undefined,
+    model,
+    temperature,
+    maxTokens,
+    json: input.json === true,
+  };
+}
+
+// ============================================
+// Handlers
+// ============================================
+
+export async function GET() {
+  return NextResponse.json<LLMStatusResponse>({
+    providers: getProviderStatuses(),
+    defaultProvider: getDefaultProvider()?.id ?? null,
+  });
+}
+
+export async function POST(req: NextRequest) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json<LLMCompletionResponse>(
+      { success: false, error: 'Cross-origin requests need an "Authorization: Bearer <LLM_API_SECRET>" header.' },
+      { status: 403 }
+    );
+  }
+
+  let body: unknown;
+
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json<LLMCompletionResponse>(
+      { success: false, error: 'Request body must be JSON.' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json<LLMCompletionResponse>(
+      { success: false, error: 'Request body must be an LLMCompletionRequest object.' },
+      { status: 400 }
+    );
+  }
+
+  const request = parseRequest(body as Record<string, unknown>);
+  if (typeof request === 'string') {
+    return NextResponse.json<LLMCompletionResponse>({ success: false, error: request }, { status: 400 });
+  }
+
+  const provider = request.provider ? getProvider(request.provider) : getDefaultProvider();
+  if (!provider) {
+    return NextResponse.json<LLMCompletionResponse>(
+      {
+        success: false,
+        error: request.provider ? `Unknown provider "${request.provider}".` : 'No LLM provider is configured on the server.',
+      },
+      { status: request.provider ? 400 : 503 }
+    );
+  }
+  if (!provider.isConfigured()) {
+    return NextResponse.json<LLMCompletionResponse>(
+      { success: false, error: `${provider.label} is not configured on the server.` },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { content, model } = await provider.complete(
+      request.messages,
+      {
+        model: request.model || '',
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      },
+      { json: request.json }
+    );
+    return NextResponse.json<LLMCompletionResponse>({ success: true, content, model });
+  } catch (error) {
+    const status = error instanceof LLMError ? error.statusCode : 500;
+    return NextResponse.json<LLMCompletionResponse>(
+      { success: false, error: error instanceof Error ? error.message : 'LLM request failed.' },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+// ============================================
+// THREADMINER - URL Resolve Route
+// https://github.com/Sigmabrogz/REDDITMINER
+// GET /api/resolve?url= → ResolveUrlResponse
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidRedditUrl, resolveRedditUrl, RedditAPIError } from '@/lib/reddit';
+import { redditScheduler } from '@/lib/scheduler';
+import { ResolveUrlResponse } from '@/lib/schemas';
+
+const STATUS_BY_ERROR: Record<NonNullable<ResolveUrlResponse['errorType']>, number> = {
+  invalid_request: 400,
+  not_found: 404,
+  forbidden: 403,
+  rate_limit: 429,
+  server_error: 502,
+  network: 502,
+  parse: 400,
+};
+
+export async function GET(req: NextRequest) {
+  const url = req.nextUrl.searchParams.get('url');
+
+  if (!url || !isValidRedditUrl(url)) {
+    return NextResponse.json<ResolveUrlResponse>(
+      { success: false, error: 'Missing or invalid Reddit "url" parameter.', errorType: 'invalid_request' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json<ResolveUrlResponse>({ success: true, url: await resolveRedditUrl(url) });
+  } catch (error) {
+    const errorType = error instanceof RedditAPIError ? error.errorType : 'network';
+    const status = STATUS_BY_ERROR[errorType];
+    return NextResponse.json<ResolveUrlResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Could not resolve this link.',
+        errorType,
+      },
+      {
+        status,
+        headers: status === 429 ? { 'Retry-After': String(redditScheduler.waitSeconds() || 60) } : undefined,
+      }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+// ============================================
+// THREADMINER - Thread API Route
+// https://github.com/Sigmabrogz/REDDITMINER
+// GET/POST /api/thread → FetchThreadResponse
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchThread } from '@/lib/reddit';
+import { parseCommentQuery } from '@/lib/query';
+import { redditScheduler } from '@/lib/scheduler';
+import { DepthLevel, ExpandMoreOptions, FetchThreadRequest, FetchThreadResponse } from '@/lib/schemas';
+
+const DEPTHS: DepthLevel[] = ['top', 'level2', 'full'];
+const SORTS: NonNullable<FetchThreadRequest['sort']>[] = ['best', 'top', 'new', 'controversial', 'old', 'qa'];
+
+// Server-side ceilings, so one API call can't flood Reddit with morechildren requests
+const EXPAND_LIMITS: Required<ExpandMoreOptions> = {
+  maxRequests: 50,
+  concurrency: 4,
+  batchSize: 100,
+};
+
+const STATUS_BY_ERROR: Record<NonNullable<FetchThreadResponse['errorType']>, number> = {
+  invalid_request: 400,
+  not_found: 404,
+  forbidden: 403,
+  rate_limit: 429,
+  server_error: 502,
+  network: 502,
+  parse: 502,
+};
+
+// ============================================
+// Request Parsing
+// ============================================
+
+// undefined when not supplied, NaN when supplied but not a finite number
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : NaN;
+}
+
+function toBoolean(value: unknown): boolean {
+  return value === true || value === 'true' || value === '1';
+}
+
+function parseExpandOptions(input: unknown): ExpandMoreOptions | string | undefined {
+  if (input === undefined || input === null) return undefined;
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return '"expandOptions" must be an object.';
+  }
+  
+  const options: ExpandMoreOptions = {};
+  for (const key of Object.keys(EXPAND_LIMITS) as (keyof ExpandMoreOptions)[]) {
+    const value = (input as Record<string, unknown>)[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 1) {
+      return `"expandOptions.${key}" must be a positive number.`;
+    }
+    options[key] = Math.min(Math.floor(value), EXPAND_LIMITS[key]);
+  }
+  return options;
+}
+
+function parseRequest(input: Record<string, unknown>): FetchThreadRequest | string {
+  if (typeof input.url !== 'string' || input.url.length === 0) {
+    return 'Missing "url" parameter.';
+  }
+  
+  const depth = (input.depth ?? 'level2') as DepthLevel;
+  if (!DEPTHS.includes(depth)) {
+    return `Invalid "depth". Use one of: ${DEPTHS.join(', ')}.`;
+  }
+  
+  const sort = input.sort as FetchThreadRequest['sort'];
+  if (sort !== undefined && !SORTS.includes(sort)) {
+    return `Invalid "sort". Use one of: ${SORTS.join(', ')}.`;
+  }
+  
+  const maxComments = toNumber(input.maxComments);
+  const minScore = toNumber(input.minScore);
+  if (maxComments !== undefined && !(maxComments > 0)) {
+    return '"maxComments" must be a positive number.';
+  }
+  if (Number.isNaN(minScore)) {
+    return '"minScore" must be a number.';
+  }
+  
+  if (input.query !== undefined && typeof input.query !== 'string') {
+    return '"query" must be a string.';
+  }
+  const expandOptions = parseExpandOptions(input.expandOptions);
+  if (typeof expandOptions === 'string') {
+    return expandOptions;
+  }
+  
+  const query = input.query ? parseCommentQuery(input.query) : null;
+  if (query && query.errors.length > 0) {
+    return `Invalid "query": ${query.errors[0]}.`;
+  }
+  
+  return {
+    url: input.url,
+    depth,
+    sort,
+    maxComments,
+    minScore,
+    expandMore: toBoolean(input.expandMore),
+    expandOptions,
+    query: query?.source,
+  };
+}
+
+// ============================================
+// Handlers
+// ============================================
+
+async function handle(input: Record<string, unknown>): Promise<NextResponse<FetchThreadResponse>> {
+  const request = parseRequest(input);
+  
+  if (typeof request === 'string') {
+    return NextResponse.json(
+      { success: false, error: request, errorType: 'invalid_request' },
+      { status: 400 }
+    );
+  }
+  
+  const result = await fetchThread(request);
+  
+  if (result.success) {
+    return NextResponse.json(result);
+  }
+  
+  const status = result.errorType ? STATUS_BY_ERROR[result.errorType] : 500;
+  return NextResponse.json(result, {
+    status,
+    headers: status === 429 ? { 'Retry-After': String(redditScheduler.waitSeconds() || 60) } : undefined,
+  });
+}
+
+export async function GET(req: NextRequest) {
+  return handle(Object.fromEntries(req.nextUrl.searchParams));
+}
+
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json<FetchThreadResponse>(
+      { success: false, error: 'Request body must be JSON.', errorType: 'invalid_request' },
+      { status: 400 }
+    );
+  }
+  
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json<FetchThreadResponse>(
+      { success: false, error: 'Request body must be a FetchThreadRequest object.', errorType: 'invalid_request' },
+      { status: 400 }
+    );
+  }
+  
+  return handle(body as Record<string, unknown>);
+}
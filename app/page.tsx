@@ -1,79 +1,112 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useMinerStore } from '@/lib/store';
 import { 
   createCacheKey, 
   getCachedThread, 
   setCachedThread, 
-  addToHistory 
+  addToHistory,
+  saveSnapshot,
+  durationParts,
 } from '@/lib/utils';
 import { URLInput } from '@/components/url-input';
 import { FormatSelector } from '@/components/format-selector';
 import { DepthSelector } from '@/components/depth-selector';
 import { AdvancedOptions } from '@/components/advanced-options';
 import { MineButton } from '@/components/mine-button';
+import { ImportJSON } from '@/components/import-json';
 import { ProgressBar } from '@/components/progress-bar';
+import { RequestQueueStatus } from '@/components/request-queue-status';
 import { ThreadHeader } from '@/components/thread-header';
 import { StatsTile, StatsIcons } from '@/components/stats-tile';
 import { JSONViewer } from '@/components/json-viewer';
 import { MarkdownPreview } from '@/components/markdown-preview';
 import { InsightsPanel } from '@/components/insights-panel';
+import { AnalyticsPanel } from '@/components/analytics-panel';
 import { ExportDropdown } from '@/components/export-dropdown';
 import { HistorySidebar } from '@/components/history-sidebar';
+import { WatchlistSidebar, WatchButton } from '@/components/watchlist-sidebar';
+import { SearchMonitor } from '@/components/search-monitor';
+import { ListingOverview } from '@/components/listing-overview';
+import { ProfileOverview } from '@/components/profile-overview';
+import { SnapshotDiff } from '@/components/snapshot-diff';
+import { CommentFilter } from '@/components/comment-filter';
+import { ThreadSearchBar } from '@/components/thread-search-bar';
 import { PickaxeIcon, BoltIcon, AlertIcon, StarIcon, GitHubIcon, XIcon, ArrowLeftIcon } from '@/components/icons';
 import confetti from 'canvas-confetti';
-import { normalizeThread, buildJsonUrl } from '@/lib/reddit';
+import {
+  normalizeThread,
+  expandMoreComments,
+  fetchThreadClientSide,
+  fetchThreadViaServer,
+  isBlockedRequestError,
+  isListingUrl,
+  isUserUrl,
+  isShareUrl,
+  canonicalizeRedditUrl,
+  resolveRedditUrl,
+  getCommentFocus,
+  importThreadJson,
+  buildCommentTree,
+} from '@/lib/reddit';
+import { mineListing, describeListing } from '@/lib/listing';
+import { mineProfile } from '@/lib/profile';
+import { applyCommentQuery, filterRawThread } from '@/lib/query';
+import { searchThread, applyThreadSearch } from '@/lib/search';
 import { RedditRawResponse, NormalizedData } from '@/lib/schemas';
 
-// ============================================
-// Direct browser fetch - Reddit allows CORS from browsers
-// ============================================
-async function fetchThreadClientSide(
-  url: string,
-  options: { sort: string; limit: number }
-): Promise<[RedditRawResponse, RedditRawResponse]> {
-  const jsonUrl = buildJsonUrl(url, options);
-  
-  const response = await fetch(jsonUrl, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Referer': 'https://www.reddit.com/',
-    },
-    credentials: 'omit',
-  });
-  
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error('Thread not found. It may have been deleted, or the URL is incorrect.');
-    }
-    if (response.status === 403) {
-      throw new Error('Access denied. This subreddit may be private, quarantined, or banned.');
-    }
-    if (response.status === 429) {
-      throw new Error('Reddit rate limit hit. Please wait 60 seconds and try again.');
-    }
-    throw new Error(`Reddit returned an error (${response.status}). Try again later.`);
-  }
-  
-  const data = await response.json();
-  
-  if (!Array.isArray(data) || data.length < 2) {
-    throw new Error('Invalid response from Reddit. This might not be a valid thread URL.');
-  }
-  
-  return data as [RedditRawResponse, RedditRawResponse];
-}
-
 export default function Home() {
   const store = useMinerStore();
   const [showResults, setShowResults] = useState(false);
   const [fromCache, setFromCache] = useState(false);
   const [mounted, setMounted] = useState(false);
 
+  // The comment filter narrows every view and export except INTEL,
+  // which always analyzes the whole mined thread. Home re-renders on any
+  // store change, so only re-filter when the thread or query does
+  const { normalizedData, rawData, commentQuery } = store;
+  const viewData = useMemo(
+    () => normalizedData && applyCommentQuery(normalizedData, commentQuery),
+    [normalizedData, commentQuery]
+  );
+  const viewRaw = useMemo(
+    () => rawData && viewData && viewData !== normalizedData
+      ? filterRawThread(rawData, new Set(viewData.comments.map(c => c.id)))
+      : rawData,
+    [rawData, viewData, normalizedData]
+  );
+
+  // Engagement tiles describe the whole mined thread, not the filtered view
+  const metrics = store.normalizedData?.meta.metrics;
+  const opResponseRate = metrics?.opResponseRate ?? null;
+  const asDuration = (seconds: number | null | undefined) => (typeof seconds === 'number' ? durationParts(seconds) : null);
+  const halfLifeHours = metrics?.activityHalfLifeHours;
+  const halfLife = asDuration(typeof halfLifeHours === 'number' ? halfLifeHours * 3600 : null);
+  const firstComment = asDuration(metrics?.firstCommentSeconds);
+  const opResponse = asDuration(metrics?.medianOpResponseSeconds);
+
+  // Find-in-thread highlights within the filtered view; while the bar is
+  // shown, exports keep only the comments it hits. Charts have nothing to
+  // highlight, so CHARTS exports what it draws
+  const { threadSearch } = store;
+  const showSearch = store.format !== 'insights' && store.format !== 'analytics';
+  const searchResult = useMemo(
+    () => (viewData ? searchThread(viewData, threadSearch) : null),
+    [viewData, threadSearch]
+  );
+  const exportData = useMemo(
+    () => viewData && searchResult && showSearch ? applyThreadSearch(viewData, threadSearch, searchResult) : viewData,
+    [viewData, searchResult, threadSearch, showSearch]
+  );
+  const exportRaw = useMemo(
+    () => rawData && exportData && exportData !== viewData
+      ? filterRawThread(rawData, new Set(exportData.comments.map(c => c.id)))
+      : viewRaw,
+    [rawData, exportData, viewData, viewRaw]
+  );
+
   // Track client-side mount to avoid hydration issues
   useEffect(() => {
     setMounted(true);
@@ -84,17 +117,115 @@ export default function Home() {
     if (!mounted) return;
     
     if (store.url && !store.isLoading) {
-      const cacheKey = createCacheKey(store.url, store.depth, store.sort);
+      const cacheKey = createCacheKey(canonicalizeRedditUrl(store.url) || store.url, store.depth, store.sort, store.expandMore);
       const cached = getCachedThread(cacheKey);
       setFromCache(!!cached);
     } else {
       setFromCache(false);
     }
-  }, [store.url, store.depth, store.sort, store.isLoading, mounted]);
+  }, [store.url, store.depth, store.sort, store.expandMore, store.isLoading, mounted]);
+
+  const handleMineListing = async () => {
+    setFromCache(false);
+    store.setLoading(true, 'fetching');
+
+    try {
+      const listing = await mineListing(store.url, {
+        maxThreads: store.listingSize,
+        depth: store.depth,
+        sort: store.sort,
+        maxComments: store.maxComments,
+        minScore: store.minScore,
+        expandMore: store.expandMore,
+        onProgress: store.setListingProgress,
+      });
+
+      store.setLoading(true, 'normalizing');
+
+      addToHistory({
+        url: store.url,
+        title: describeListing(listing.source),
+        subreddit: listing.source.subreddit || 'all',
+        commentCount: listing.stats.totalComments,
+      });
+
+      store.setListing(listing);
+      setShowResults(true);
+
+      confetti({
+        particleCount: 100,
+        spread: 70,
+        origin: { y: 0.6 },
+        colors: ['#FF6B35', '#F7C94B', '#4ECDC4'],
+      });
+    } catch (error) {
+      store.setLoading(false, 'idle');
+      store.setError(error instanceof Error ? error.message : 'Something went wrong');
+    }
+  };
+
+  const handleMineProfile = async () => {
+    setFromCache(false);
+    store.setLoading(true, 'fetching');
+
+    try {
+      const profile = await mineProfile(store.url, {
+        maxItems: store.maxComments,
+        onProgress: store.setProfileProgress,
+      });
+
+      addToHistory({
+        url: store.url,
+        title: `u/${profile.user.name}`,
+        subreddit: profile.stats.subreddits[0]?.name || 'profile',
+        commentCount: profile.stats.totalComments,
+      });
+
+      store.setProfile(profile);
+      setShowResults(true);
+
+      confetti({
+        particleCount: 100,
+        spread: 70,
+        origin: { y: 0.6 },
+        colors: ['#FF6B35', '#F7C94B', '#4ECDC4'],
+      });
+    } catch (error) {
+      store.setLoading(false, 'idle');
+      store.setError(error instanceof Error ? error.message : 'Something went wrong');
+    }
+  };
+
+  const handleOpenListingThread = (thread: NormalizedData) => {
+    store.setResults(null, thread);
+  };
+
+  const handleBackToListing = () => {
+    store.setResults(null, null);
+  };
 
   const handleMine = async () => {
+    if (isListingUrl(store.url)) {
+      return handleMineListing();
+    }
+    if (isUserUrl(store.url)) {
+      return handleMineProfile();
+    }
+
+    // Share links need a server round trip before we know the thread
+    let threadUrl: string;
+    try {
+      if (isShareUrl(store.url)) store.setLoading(true, 'fetching');
+      threadUrl = await resolveRedditUrl(store.url);
+    } catch (error) {
+      store.setError(error instanceof Error ? error.message : 'Could not resolve this link');
+      return;
+    }
+
+    const focus = getCommentFocus(threadUrl);
+
     // Check cache first
-    const cacheKey = createCacheKey(store.url, store.depth, store.sort);
+    const cacheKey = createCacheKey(threadUrl, store.depth, store.sort, store.expandMore);
     const cached = getCachedThread(cacheKey);
     
     if (cached) {
@@ -118,10 +249,42 @@ export default function Home() {
     store.setLoading(true, 'fetching');
 
     try {
-      const raw = await fetchThreadClientSide(store.url, {
-        sort: store.sort,
-        limit: Math.min(store.maxComments * 2, 500),
-      });
+      let raw: [RedditRawResponse, RedditRawResponse];
+      let viaServer = false;
+
+      try {
+        raw = await fetchThreadClientSide(threadUrl, {
+          sort: store.sort,
+          limit: Math.min(store.maxComments * 2, 500),
+        });
+      } catch (error) {
+        // Browser blocked the request (CORS, privacy extension) - let the server fetch it
+        if (!isBlockedRequestError(error)) throw error;
+
+        if (store.expandMore) store.setLoading(true, 'expanding');
+        const result = await fetchThreadViaServer({
+          url: threadUrl,
+          depth: store.depth,
+          sort: store.sort,
+          maxComments: store.maxComments,
+          minScore: store.minScore,
+          expandMore: store.expandMore,
+        });
+        raw = result.raw;
+        viaServer = true;
+      }
+
+      // Resolve "load more comments" stubs before normalizing
+      if (store.expandMore && !viaServer) {
+        store.setLoading(true, 'expanding');
+        const expanded = await expandMoreComments(raw, {
+          // Focused depth counts from the linked comment, so let normalize apply it
+          depth: focus ? 'full' : store.depth,
+          sort: store.sort,
+          onProgress: store.setExpandProgress,
+        });
+        raw = expanded.raw;
+      }
 
       store.setLoading(true, 'normalizing');
 
@@ -130,6 +293,7 @@ export default function Home() {
         depth: store.depth,
         maxComments: store.maxComments,
         minScore: store.minScore,
+        focus,
       });
 
       const result = { raw, data: normalized };
@@ -143,9 +307,14 @@ export default function Home() {
       // Cache the result
       setCachedThread(cacheKey, result.data, result.raw);
 
+      // Keep this run for diffing against later re-mines. A focused mine
+      // only sees one reply chain, so it would diff as mass deletions
+      if (!focus) saveSnapshot(result.data);
+
       // Add to history
       addToHistory({
         url: result.data.thread.permalink,
+        threadId: result.data.thread.id,
         title: result.data.thread.title,
         subreddit: result.data.thread.subreddit,
         commentCount: result.data.meta.totalComments,
@@ -167,12 +336,34 @@ export default function Home() {
     }
   };
 
+  // Saved exports re-normalize locally, so deleted or locked threads stay minable
+  const handleImport = (text: string) => {
+    try {
+      const imported = importThreadJson(text, {
+        depth: store.depth,
+        maxComments: store.maxComments,
+        minScore: store.minScore,
+      });
+      setFromCache(false);
+      store.setResults(imported.raw, imported.data);
+      setShowResults(true);
+    } catch (error) {
+      store.setError(error instanceof Error ? error.message : 'Could not import this file');
+    }
+  };
+
   const handleBack = () => {
     setShowResults(false);
     setFromCache(false);
     store.reset();
   };
 
+  // Monitor hits open in the input view, ready to mine
+  const handleOpenUrl = (url: string) => {
+    handleBack();
+    store.setUrl(url);
+  };
+
   return (
     <main className="min-h-screen">
       {/* Header */}
@@ -187,6 +378,8 @@ export default function Home() {
           
           {/* Social Links */}
           <div className="flex items-center gap-3">
+            <SearchMonitor onOpen={handleOpenUrl} />
+
             {/* GitHub */}
             <a
               href="https://github.com/Sigmabrogz/REDDITMINER"
@@ -213,8 +406,9 @@ export default function Home() {
         </div>
       </header>
 
-      {/* History Sidebar - only renders after mount */}
+      {/* History and watchlist sidebars - only render after mount */}
       <HistorySidebar />
+      <WatchlistSidebar />
 
       <AnimatePresence mode="wait">
         {!showResults ? (
@@ -248,7 +442,30 @@ export default function Home() {
               className="card space-y-6"
             >
               {store.isLoading ? (
-                <ProgressBar step={store.loadingStep} />
+                <>
+                  <ProgressBar
+                    step={store.loadingStep}
+                    title={
+                      store.listingProgress
+                        ? 'Mining listing...'
+                        : store.profileProgress
+                          ? 'Mining profile...'
+                          : undefined
+                    }
+                    detail={
+                      store.listingProgress?.phase === 'listing'
+                        ? `${store.listingProgress.done} threads found`
+                        : store.listingProgress
+                          ? `thread ${store.listingProgress.done} / ${store.listingProgress.total}`
+                          : store.profileProgress
+                            ? `${store.profileProgress.done} / ${store.profileProgress.total} ${store.profileProgress.section === 'comments' ? 'comments' : 'posts'}`
+                            : null
+                    }
+                    expandMore={store.expandMore && !store.listingProgress && !store.profileProgress}
+                    expandProgress={store.expandProgress}
+                  />
+                  <RequestQueueStatus />
+                </>
               ) : (
                 <>
                   <URLInput />
@@ -274,6 +491,7 @@ export default function Home() {
                   <DepthSelector />
                   <AdvancedOptions />
                   <MineButton onMine={handleMine} />
+                  <ImportJSON onImport={handleImport} />
 
                   {/* Error display */}
                   <AnimatePresence>
@@ -327,13 +545,23 @@ export default function Home() {
           >
             {/* Results header */}
             <div className="flex items-center justify-between mb-6">
-              <button
-                onClick={handleBack}
-                className="flex items-center gap-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
-              >
-                <ArrowLeftIcon size={16} />
-                New Thread
-              </button>
+              {store.listingData && store.normalizedData ? (
+                <button
+                  onClick={handleBackToListing}
+                  className="flex items-center gap-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+                >
+                  <ArrowLeftIcon size={16} />
+                  Back to Listing
+                </button>
+              ) : (
+                <button
+                  onClick={handleBack}
+                  className="flex items-center gap-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+                >
+                  <ArrowLeftIcon size={16} />
+                  {store.listingData ? 'New Search' : store.profileData ? 'New Profile' : 'New Thread'}
+                </button>
+              )}
 
               <div className="flex items-center gap-3">
                 {fromCache && (
@@ -343,11 +571,29 @@ export default function Home() {
                   </span>
                 )}
                 {store.normalizedData && (
-                  <ExportDropdown data={store.normalizedData} rawData={store.rawData || undefined} />
+                  <WatchButton data={store.normalizedData} />
+                )}
+                {exportData && (
+                  <ExportDropdown
+                    data={exportData}
+                    rawData={exportRaw || undefined}
+                    insights={store.insightsData}
+                  />
                 )}
               </div>
             </div>
 
+            {store.listingData && !store.normalizedData && (
+              <ListingOverview
+                listing={store.listingData}
+                onOpenThread={handleOpenListingThread}
+              />
+            )}
+
+            {store.profileData && (
+              <ProfileOverview profile={store.profileData} />
+            )}
+
             {store.normalizedData && (
               <>
                 {/* Thread header */}
@@ -383,30 +629,95 @@ export default function Home() {
                     delay={0.2}
                   />
                   <StatsTile
-                    label="Exports"
-                    value={4}
-                    icon={StatsIcons.exports}
+                    label="OP Replied To"
+                    value={opResponseRate === null ? null : Math.round(opResponseRate * 100)}
+                    suffix="%"
+                    icon={StatsIcons.reply}
                     color="purple"
                     delay={0.3}
                   />
                 </div>
 
+                {/* Engagement */}
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+                  <StatsTile
+                    label="Peak / Hour"
+                    value={Math.max(0, ...store.normalizedData.meta.metrics.commentsPerHour)}
+                    icon={StatsIcons.comments}
+                    color="orange"
+                    delay={0.4}
+                  />
+                  <StatsTile
+                    label="Activity Half-Life"
+                    value={halfLife?.value ?? null}
+                    suffix={halfLife?.unit}
+                    icon={StatsIcons.clock}
+                    color="yellow"
+                    delay={0.5}
+                  />
+                  <StatsTile
+                    label="First Comment"
+                    value={firstComment?.value ?? null}
+                    suffix={firstComment?.unit}
+                    icon={StatsIcons.clock}
+                    color="teal"
+                    delay={0.6}
+                  />
+                  <StatsTile
+                    label="OP Response Time"
+                    value={opResponse?.value ?? null}
+                    suffix={opResponse?.unit}
+                    icon={StatsIcons.reply}
+                    color="purple"
+                    delay={0.7}
+                  />
+                </div>
+
+                <SnapshotDiff
+                  key={`${store.normalizedData.thread.id}:${store.normalizedData.meta.fetchedAt}`}
+                  data={store.normalizedData}
+                />
+
+                {store.format !== 'insights' && viewData && searchResult && (
+                  <>
+                    <CommentFilter
+                      shown={viewData.comments.length}
+                      total={store.normalizedData.comments.length}
+                    />
+                    {showSearch && (
+                      <ThreadSearchBar result={searchResult} canNavigate={store.format === 'markdown'} />
+                    )}
+                  </>
+                )}
+
                 {/* Content based on format */}
-                {store.format === 'raw' && store.rawData && (
-                  <JSONViewer data={store.rawData} title="raw-reddit-response.json" />
+                {/* Clean JSON imports and listing threads have no raw response */}
+                {store.format === 'raw' && viewData && (
+                  <JSONViewer
+                    data={viewRaw || viewData}
+                    title={viewRaw ? 'raw-reddit-response.json' : 'normalized-thread.json'}
+                  />
                 )}
 
-                {store.format === 'clean' && (
-                  <JSONViewer data={store.normalizedData} title="normalized-thread.json" />
+                {store.format === 'clean' && viewData && (
+                  <JSONViewer data={viewData} title="normalized-thread.json" />
                 )}
 
-                {store.format === 'markdown' && (
-                  <MarkdownPreview data={store.normalizedData} />
+                {store.format === 'tree' && viewData && (
+                  <JSONViewer data={buildCommentTree(viewData)} title="comment-tree.json" />
+                )}
+
+                {store.format === 'markdown' && viewData && (
+                  <MarkdownPreview data={viewData} search={searchResult || undefined} activeMatch={store.searchIndex} />
                 )}
 
                 {store.format === 'insights' && (
                   <InsightsPanel data={store.normalizedData} />
                 )}
+
+                {store.format === 'analytics' && viewData && (
+                  <AnalyticsPanel data={viewData} />
+                )}
               </>
             )}
           </motion.div>
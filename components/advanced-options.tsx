@@ -3,11 +3,22 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useMinerStore } from '@/lib/store';
+import { isListingUrl } from '@/lib/reddit';
+import { LLMSettingsPanel } from '@/components/llm-settings';
 import { LightbulbIcon, ChevronRightIcon } from '@/components/icons';
 
 export function AdvancedOptions() {
   const [isOpen, setIsOpen] = useState(false);
-  const { sort, setSort, maxComments, setMaxComments, minScore, setMinScore, isLoading } = useMinerStore();
+  const {
+    sort, setSort,
+    maxComments, setMaxComments,
+    minScore, setMinScore,
+    expandMore, setExpandMore,
+    listingSize, setListingSize,
+    useLocalModel, setUseLocalModel,
+    url, isLoading,
+  } = useMinerStore();
+  const isListing = isListingUrl(url);
 
   return (
     <div className="w-full">
@@ -100,11 +111,75 @@ export function AdvancedOptions() {
                 </p>
               </div>
             </div>
+
+            {/* Threads to mine (listing mode only) */}
+            {isListing && (
+              <div className="mt-4">
+                <label className="block text-xs font-medium text-[var(--text-muted)] mb-2 uppercase tracking-wider">
+                  Threads to Mine
+                </label>
+                <select
+                  value={listingSize}
+                  onChange={(e) => setListingSize(parseInt(e.target.value))}
+                  disabled={isLoading}
+                  className="input text-sm py-2"
+                >
+                  <option value={5}>Top 5 threads</option>
+                  <option value={10}>Top 10 threads</option>
+                  <option value={25}>Top 25 threads</option>
+                  <option value={50}>Top 50 threads</option>
+                  <option value={100}>Top 100 threads</option>
+                </select>
+                <p className="text-[10px] text-[var(--text-muted)] mt-1 opacity-70">
+                  Pages through the listing, then mines each thread with the options above
+                </p>
+              </div>
+            )}
+
+            {/* Expand hidden replies */}
+            <label className="flex items-start gap-3 mt-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={expandMore}
+                onChange={(e) => setExpandMore(e.target.checked)}
+                disabled={isLoading}
+                className="mt-0.5 accent-[var(--accent-primary)]"
+              />
+              <span>
+                <span className="block text-xs font-medium text-[var(--text-muted)] uppercase tracking-wider">
+                  Expand hidden replies
+                </span>
+                <span className="block text-[10px] text-[var(--text-muted)] mt-1 opacity-70">
+                  Resolves &quot;load more comments&quot; stubs. Slower, but big threads come back complete.
+                </span>
+              </span>
+            </label>
+
+            {/* Local model for INTEL */}
+            <label className="flex items-start gap-3 mt-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useLocalModel}
+                onChange={(e) => setUseLocalModel(e.target.checked)}
+                disabled={isLoading}
+                className="mt-0.5 accent-[var(--accent-primary)]"
+              />
+              <span>
+                <span className="block text-xs font-medium text-[var(--text-muted)] uppercase tracking-wider">
+                  Local AI model for INTEL
+                </span>
+                <span className="block text-[10px] text-[var(--text-muted)] mt-1 opacity-70">
+                  Runs sentiment and signal classification in your browser. Falls back to keyword patterns if the model can&apos;t load.
+                </span>
+              </span>
+            </label>
+
+            <LLMSettingsPanel />
             
             {/* Honest disclaimer */}
             <p className="flex items-center gap-2 text-[10px] text-[var(--text-muted)] mt-4 pt-3 border-t border-[var(--border-subtle)] opacity-60">
               <LightbulbIcon size={14} />
-              These options filter results after Reddit returns data. Reddit&apos;s API limits to ~500 comments per request.
+              These options filter results after Reddit returns data. Reddit&apos;s API limits to ~500 comments per request unless hidden replies are expanded.
             </p>
           </motion.div>
         )}
@@ -0,0 +1,292 @@
+'use client';
+
+import { useMemo, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { AnalyticsChart, NormalizedData } from '@/lib/schemas';
+import { computeThreadAnalytics, chartToCSV } from '@/lib/analytics';
+import { downloadBlob, downloadFile } from '@/lib/utils';
+import { DownloadIcon } from '@/components/icons';
+
+interface AnalyticsPanelProps {
+  data: NormalizedData;
+}
+
+// Charts are exported as standalone files, so colors are literal hex
+// values from globals.css rather than CSS variables
+const CHART_BG = '#1A1A1A';
+const GRID = '#2A2A2A';
+const TEXT = '#B0B0B0';
+const MUTED = '#707070';
+const FONT = 'JetBrains Mono, monospace';
+const PALETTE = ['#FF6B35', '#4ECDC4', '#F7C94B', '#9B5DE5'];
+const SERIES_COLORS: Record<string, string> = {
+  positive: '#7CB342',
+  neutral: '#707070',
+  negative: '#E53935',
+  controversial: '#E53935',
+  other: '#3A3A3A',
+};
+
+const WIDTH = 600;
+const PNG_SCALE = 2;
+
+export function AnalyticsPanel({ data }: AnalyticsPanelProps) {
+  // Sentiment runs over every comment - don't redo it on unrelated re-renders
+  const analytics = useMemo(() => computeThreadAnalytics(data), [data]);
+  const slug = data.thread.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 40);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="grid gap-6 lg:grid-cols-2"
+    >
+      {data.comments.length === 0 ? (
+        <p className="p-6 text-center text-[var(--text-muted)] lg:col-span-2">No comments to chart</p>
+      ) : (
+        analytics.charts.map((chart, index) => (
+          <ChartCard
+            key={chart.id}
+            chart={chart}
+            color={PALETTE[index % PALETTE.length]}
+            filename={`${slug}-${chart.id}`}
+          />
+        ))
+      )}
+    </motion.div>
+  );
+}
+
+interface ChartCardProps {
+  chart: AnalyticsChart;
+  color: string; // single-series bars
+  filename: string;
+}
+
+function ChartCard({ chart, color, filename }: ChartCardProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const serialize = () => new XMLSerializer().serializeToString(svgRef.current!);
+
+  const handleSVG = () => {
+    downloadFile(serialize(), `${filename}.svg`, 'image/svg+xml');
+  };
+
+  const handlePNG = () => {
+    const svg = svgRef.current!;
+    const { width, height } = svg.viewBox.baseVal;
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * PNG_SCALE;
+      canvas.height = height * PNG_SCALE;
+      canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => blob && downloadBlob(blob, `${filename}.png`), 'image/png');
+    };
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(serialize())}`;
+  };
+
+  const handleCSV = () => {
+    downloadFile(chartToCSV(chart), `${filename}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="rounded-xl border-2 border-[var(--border-subtle)] bg-[var(--bg-secondary)] overflow-hidden">
+      <div className="flex items-start justify-between gap-3 px-4 pt-3">
+        <p className="text-xs text-[var(--text-muted)] pt-1">{chart.description}</p>
+        <div className="flex gap-1 shrink-0">
+          {chart.bars.length > 0 && (
+            <>
+              <DownloadButton label="SVG" title="Download chart as SVG" onClick={handleSVG} />
+              <DownloadButton label="PNG" title="Download chart as PNG" onClick={handlePNG} />
+            </>
+          )}
+          <DownloadButton label="CSV" title="Download data as CSV" onClick={handleCSV} />
+        </div>
+      </div>
+
+      {chart.bars.length === 0 ? (
+        <p className="px-4 py-10 text-center text-sm text-[var(--text-muted)]">
+          {chart.title}: nothing to show for this thread
+        </p>
+      ) : chart.orientation === 'vertical' ? (
+        <VerticalBars chart={chart} color={color} svgRef={svgRef} />
+      ) : (
+        <HorizontalBars chart={chart} color={color} svgRef={svgRef} />
+      )}
+    </div>
+  );
+}
+
+function DownloadButton({ label, title, onClick }: { label: string; title: string; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-mono border border-[var(--border-default)] text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:border-[var(--accent-primary)] transition-colors"
+      title={title}
+    >
+      <DownloadIcon size={10} />
+      {label}
+    </button>
+  );
+}
+
+interface BarsProps {
+  chart: AnalyticsChart;
+  color: string;
+  svgRef: React.RefObject<SVGSVGElement | null>;
+}
+
+function seriesColor(chart: AnalyticsChart, index: number, color: string): string {
+  return chart.series.length === 1 ? color : SERIES_COLORS[chart.series[index]] || PALETTE[index % PALETTE.length];
+}
+
+// Round the axis up to 1, 2 or 5 times a power of ten
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find(s => s * magnitude >= value)!;
+  return step * magnitude;
+}
+
+function barTitle(chart: AnalyticsChart, bar: AnalyticsChart['bars'][0]): string {
+  const values = chart.series.length === 1
+    ? `${bar.values[0]} ${chart.valueLabel}`
+    : chart.series.map((name, i) => `${name} ${bar.values[i]}`).join(', ');
+  return `${bar.label}: ${values}${bar.detail ? ` (${bar.detail})` : ''}`;
+}
+
+// Title and legend, shared by both layouts so exported files are self-describing
+function ChartHeading({ chart, color }: { chart: AnalyticsChart; color: string }) {
+  return (
+    <>
+      <text x={16} y={22} fill={TEXT} fontSize={13} fontWeight={600}>{chart.title}</text>
+      {chart.series.length > 1 && chart.series.map((name, index) => {
+        const x = WIDTH - 16 - (chart.series.length - index) * 96;
+        return (
+          <g key={name}>
+            <rect x={x} y={13} width={10} height={10} fill={seriesColor(chart, index, color)} />
+            <text x={x + 14} y={22} fill={MUTED} fontSize={10}>{name}</text>
+          </g>
+        );
+      })}
+    </>
+  );
+}
+
+function VerticalBars({ chart, color, svgRef }: BarsProps) {
+  const height = 280;
+  const margin = { top: 40, right: 16, bottom: 36, left: 48 };
+  const plotWidth = WIDTH - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+
+  const stacked = chart.series.length > 1;
+  const totals = chart.bars.map(bar => bar.values.reduce((sum, v) => sum + v, 0));
+  const max = stacked && chart.valueLabel.startsWith('%') ? 100 : niceMax(Math.max(...totals));
+  const slot = plotWidth / chart.bars.length;
+  const barWidth = Math.max(1, slot * 0.8);
+  const labelEvery = Math.ceil(chart.bars.length / 12);
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(f => f * max);
+  const y = (value: number) => margin.top + plotHeight - (value / max) * plotHeight;
+
+  return (
+    <svg ref={svgRef} xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" fontFamily={FONT}>
+      <rect width={WIDTH} height={height} fill={CHART_BG} />
+      <ChartHeading chart={chart} color={color} />
+
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={margin.left} x2={WIDTH - margin.right} y1={y(tick)} y2={y(tick)} stroke={GRID} />
+          <text x={margin.left - 6} y={y(tick) + 3} fill={MUTED} fontSize={10} textAnchor="end">
+            {Number.isInteger(tick) ? tick : tick.toFixed(1)}
+          </text>
+        </g>
+      ))}
+
+      {chart.bars.map((bar, index) => {
+        const x = margin.left + index * slot + (slot - barWidth) / 2;
+        let base = 0;
+        return (
+          <g key={`${bar.label}-${index}`}>
+            <title>{barTitle(chart, bar)}</title>
+            {bar.values.map((value, series) => {
+              const top = y(base + value);
+              const rect = (
+                <rect
+                  key={series}
+                  x={x}
+                  y={top}
+                  width={barWidth}
+                  height={Math.max(0, y(base) - top)}
+                  fill={seriesColor(chart, series, color)}
+                />
+              );
+              base += value;
+              return rect;
+            })}
+            {index % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={height - margin.bottom + 14} fill={MUTED} fontSize={10} textAnchor="middle">
+                {bar.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      <text x={margin.left} y={height - 6} fill={MUTED} fontSize={10}>{chart.valueLabel}</text>
+    </svg>
+  );
+}
+
+function HorizontalBars({ chart, color, svgRef }: BarsProps) {
+  const rowHeight = 24;
+  const margin = { top: 40, right: 56, bottom: 24, left: 220 };
+  const height = margin.top + chart.bars.length * rowHeight + margin.bottom;
+  const plotWidth = WIDTH - margin.left - margin.right;
+
+  const totals = chart.bars.map(bar => bar.values.reduce((sum, v) => sum + v, 0));
+  const max = Math.max(1, ...totals);
+  const x = (value: number) => (Math.max(0, value) / max) * plotWidth;
+
+  return (
+    <svg ref={svgRef} xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" fontFamily={FONT}>
+      <rect width={WIDTH} height={height} fill={CHART_BG} />
+      <ChartHeading chart={chart} color={color} />
+
+      {chart.bars.map((bar, index) => {
+        const top = margin.top + index * rowHeight;
+        let base = 0;
+        return (
+          <g key={`${bar.label}-${index}`}>
+            <title>{barTitle(chart, bar)}</title>
+            <text x={margin.left - 8} y={top + rowHeight / 2 + 3} fill={TEXT} fontSize={10} textAnchor="end">
+              {bar.label.length > 34 ? `${bar.label.slice(0, 33)}…` : bar.label}
+            </text>
+            {bar.values.map((value, series) => {
+              const rect = (
+                <rect
+                  key={series}
+                  x={margin.left + x(base)}
+                  y={top + 4}
+                  width={x(value)}
+                  height={rowHeight - 8}
+                  fill={seriesColor(chart, series, color)}
+                />
+              );
+              base += value;
+              return rect;
+            })}
+            <text x={margin.left + x(totals[index]) + 6} y={top + rowHeight / 2 + 3} fill={MUTED} fontSize={10}>
+              {chart.series.length === 1 ? bar.values[0] : `${bar.values[0]}/${totals[index]}`}
+            </text>
+          </g>
+        );
+      })}
+
+      <text x={margin.left} y={height - 8} fill={MUTED} fontSize={10}>{chart.valueLabel}</text>
+    </svg>
+  );
+}
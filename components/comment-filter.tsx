@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { useMinerStore } from '@/lib/store';
+import { parseCommentQuery, QUERY_EXAMPLES } from '@/lib/query';
+import { FilterIcon, CloseIcon, AlertIcon } from '@/components/icons';
+
+interface CommentFilterProps {
+  shown: number;
+  total: number;
+}
+
+export function CommentFilter({ shown, total }: CommentFilterProps) {
+  const { commentQuery, setCommentQuery } = useMinerStore();
+  const [showHelp, setShowHelp] = useState(false);
+  const { terms, errors } = parseCommentQuery(commentQuery);
+
+  // Clicking an example toggles it in and out of the query
+  const toggleExample = (example: string) => {
+    const tokens = commentQuery.split(/\s+/).filter(Boolean);
+    setCommentQuery(
+      tokens.includes(example)
+        ? tokens.filter(t => t !== example).join(' ')
+        : [...tokens, example].join(' ')
+    );
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <FilterIcon size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
+          <input
+            value={commentQuery}
+            onChange={(e) => setCommentQuery(e.target.value)}
+            placeholder='Filter comments: author:name score:>10 is:op has:link "pricing"'
+            className="input text-sm py-2 pl-9 pr-8 font-mono"
+            spellCheck={false}
+          />
+          {commentQuery && (
+            <button
+              onClick={() => setCommentQuery('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)]"
+              title="Clear filter"
+            >
+              <CloseIcon size={14} />
+            </button>
+          )}
+        </div>
+        <span className="shrink-0 text-xs font-mono text-[var(--text-muted)]">
+          {terms.length > 0 ? `${shown} / ${total}` : `${total}`} comments
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5 mt-2">
+        {QUERY_EXAMPLES.map(example => (
+          <button
+            key={example}
+            onClick={() => toggleExample(example)}
+            className={`px-1.5 py-0.5 rounded text-[10px] font-mono border transition-colors ${
+              commentQuery.split(/\s+/).includes(example)
+                ? 'border-[var(--accent-primary)] text-[var(--accent-primary)]'
+                : 'border-[var(--border-subtle)] text-[var(--text-muted)] hover:text-[var(--text-secondary)]'
+            }`}
+          >
+            {example}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowHelp(!showHelp)}
+          className="ml-auto text-[10px] text-[var(--text-muted)] hover:text-[var(--text-secondary)]"
+        >
+          {showHelp ? 'Hide syntax' : 'Syntax'}
+        </button>
+      </div>
+
+      {errors.map(error => (
+        <p key={error} className="flex items-center gap-1 mt-1 text-xs text-[var(--error)]">
+          <AlertIcon size={12} className="shrink-0" />
+          {error} - ignored
+        </p>
+      ))}
+
+      {showHelp && (
+        <div className="mt-2 p-3 rounded-lg bg-[var(--bg-secondary)] border border-[var(--border-subtle)] text-xs text-[var(--text-muted)] space-y-1 font-mono">
+          <p><span className="text-[var(--text-secondary)]">word &quot;a phrase&quot;</span> text in the comment</p>
+          <p><span className="text-[var(--text-secondary)]">author:name</span> exact username</p>
+          <p><span className="text-[var(--text-secondary)]">score: depth: words:</span> number, or &gt; &gt;= &lt; &lt;= a number (depth 0 = top-level)</p>
+          <p><span className="text-[var(--text-secondary)]">is:</span> op root edited deleted stickied mod controversial</p>
+          <p><span className="text-[var(--text-secondary)]">has:</span> link mention quote code award replies</p>
+          <p><span className="text-[var(--text-secondary)]">after: before:</span> YYYY-MM-DD, before is exclusive</p>
+          <p><span className="text-[var(--text-secondary)]">lang:</span> en de fr ... (ISO 639-1)</p>
+          <p><span className="text-[var(--text-secondary)]">-term</span> excludes matches; all terms must match</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,28 +3,39 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import confetti from 'canvas-confetti';
-import { NormalizedData } from '@/lib/schemas';
+import { NormalizedData, InsightsData } from '@/lib/schemas';
 import { downloadFile, copyToClipboard } from '@/lib/utils';
-import { toMarkdown, toCSV } from '@/lib/reddit';
+import { toMarkdown, toCSV, buildCommentTree } from '@/lib/reddit';
+import { insightsToMarkdown } from '@/lib/insights';
 
 interface ExportDropdownProps {
   data: NormalizedData;
   rawData?: object;
+  insights?: InsightsData | null;
 }
 
 const exportOptions = [
   { id: 'json', label: 'Clean JSON', ext: '.json', icon: '{ }' },
   { id: 'raw', label: 'Raw JSON', ext: '.json', icon: '[ ]' },
+  { id: 'tree', label: 'Tree JSON', ext: '.json', icon: '├' },
   { id: 'markdown', label: 'Markdown', ext: '.md', icon: '#' },
   { id: 'csv', label: 'CSV', ext: '.csv', icon: '▤' },
 ];
 
-export function ExportDropdown({ data, rawData }: ExportDropdownProps) {
+// Only offered once INTEL has analyzed this thread
+const insightsExportOptions = [
+  { id: 'insights-json', label: 'Insights JSON', ext: '.json', icon: '✦' },
+  { id: 'insights-markdown', label: 'Insights report (Markdown)', ext: '.md', icon: '✦' },
+];
+
+export function ExportDropdown({ data, rawData, insights }: ExportDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [lastExported, setLastExported] = useState<string | null>(null);
   const [exportMessage, setExportMessage] = useState<string>('');
   const [isMobile, setIsMobile] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const threadInsights = insights?.meta.threadId === data.thread.id ? insights : null;
+  const options = threadInsights ? [...exportOptions, ...insightsExportOptions] : exportOptions;
 
   // Check for mobile after mount to avoid hydration mismatch
   useEffect(() => {
@@ -64,6 +75,11 @@ export function ExportDropdown({ data, rawData }: ExportDropdownProps) {
         filename = `${slug}-raw.json`;
         mimeType = 'application/json';
         break;
+      case 'tree':
+        content = JSON.stringify(buildCommentTree(data), null, 2);
+        filename = `${slug}-tree.json`;
+        mimeType = 'application/json';
+        break;
       case 'markdown':
         content = toMarkdown(data);
         filename = `${slug}.md`;
@@ -74,6 +90,18 @@ export function ExportDropdown({ data, rawData }: ExportDropdownProps) {
         filename = `${slug}-comments.csv`;
         mimeType = 'text/csv';
         break;
+      case 'insights-json':
+        if (!threadInsights) return;
+        content = JSON.stringify(threadInsights, null, 2);
+        filename = `${slug}-insights.json`;
+        mimeType = 'application/json';
+        break;
+      case 'insights-markdown':
+        if (!threadInsights) return;
+        content = insightsToMarkdown(threadInsights, data);
+        filename = `${slug}-insights.md`;
+        mimeType = 'text/markdown';
+        break;
       default:
         return;
     }
@@ -248,7 +276,7 @@ export function ExportDropdown({ data, rawData }: ExportDropdownProps) {
             animate={{ opacity: 1, y: 0, scale: 1 }}
             exit={{ opacity: 0, y: -8, scale: 0.95 }}
             transition={{ duration: 0.15 }}
-            className="absolute right-0 mt-12 w-52 py-2 rounded-xl
+            className="absolute right-0 mt-12 w-64 py-2 rounded-xl
               bg-[var(--bg-elevated)] border-2 border-[var(--border-default)]
               shadow-lg z-50"
           >
@@ -259,7 +287,7 @@ export function ExportDropdown({ data, rawData }: ExportDropdownProps) {
               </div>
             )}
             
-            {exportOptions.map((option) => (
+            {options.map((option) => (
               <button
                 key={option.id}
                 onClick={() => handleExport(option.id)}
@@ -7,8 +7,10 @@ import { OutputFormat } from '@/lib/schemas';
 const formats: { id: OutputFormat; label: string; desc: string }[] = [
   { id: 'raw', label: 'RAW', desc: 'Original Reddit JSON' },
   { id: 'clean', label: 'CLEAN', desc: 'Normalized schema' },
+  { id: 'tree', label: 'TREE', desc: 'Nested replies' },
   { id: 'markdown', label: 'MD', desc: 'Readable markdown' },
   { id: 'insights', label: 'INTEL', desc: 'AI analysis' },
+  { id: 'analytics', label: 'CHARTS', desc: 'Visual analytics' },
 ];
 
 export function FormatSelector() {
@@ -20,7 +22,7 @@ export function FormatSelector() {
         Output Format
       </label>
       
-      <div className="grid grid-cols-4 gap-2">
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
         {formats.map((f) => (
           <motion.button
             key={f.id}
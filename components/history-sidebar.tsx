@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { getHistory, clearHistory, HistoryItem } from '@/lib/utils';
+import { getHistory, clearHistory, getSnapshots, HistoryItem } from '@/lib/utils';
 import { useMinerStore } from '@/lib/store';
 
 export function HistorySidebar() {
@@ -128,30 +128,39 @@ export function HistorySidebar() {
                   </div>
                 ) : (
                   <div className="divide-y divide-[var(--border-subtle)]">
-                    {history.map((item, index) => (
-                      <motion.button
-                        key={item.url}
-                        initial={{ opacity: 0, x: -20 }}
-                        animate={{ opacity: 1, x: 0 }}
-                        transition={{ delay: index * 0.05 }}
-                        onClick={() => handleSelectThread(item.url)}
-                        className="w-full p-4 text-left hover:bg-[var(--bg-tertiary)] transition-colors"
-                      >
-                        <div className="flex items-start gap-3">
-                          <span className="text-[var(--accent-tertiary)] text-sm font-medium shrink-0">
-                            r/{item.subreddit}
-                          </span>
-                        </div>
-                        <p className="text-sm text-[var(--text-primary)] mt-1 line-clamp-2">
-                          {item.title}
-                        </p>
-                        <div className="flex items-center gap-2 mt-2 text-xs text-[var(--text-muted)]">
-                          <span>{item.commentCount} comments</span>
-                          <span>•</span>
-                          <span>{new Date(item.minedAt).toLocaleDateString()}</span>
-                        </div>
-                      </motion.button>
-                    ))}
+                    {history.map((item, index) => {
+                      const runs = item.threadId ? getSnapshots(item.threadId).length : 0;
+                      return (
+                        <motion.button
+                          key={item.url}
+                          initial={{ opacity: 0, x: -20 }}
+                          animate={{ opacity: 1, x: 0 }}
+                          transition={{ delay: index * 0.05 }}
+                          onClick={() => handleSelectThread(item.url)}
+                          className="w-full p-4 text-left hover:bg-[var(--bg-tertiary)] transition-colors"
+                        >
+                          <div className="flex items-start gap-3">
+                            <span className="text-[var(--accent-tertiary)] text-sm font-medium shrink-0">
+                              r/{item.subreddit}
+                            </span>
+                          </div>
+                          <p className="text-sm text-[var(--text-primary)] mt-1 line-clamp-2">
+                            {item.title}
+                          </p>
+                          <div className="flex items-center gap-2 mt-2 text-xs text-[var(--text-muted)]">
+                            <span>{item.commentCount} comments</span>
+                            <span>•</span>
+                            <span>{new Date(item.minedAt).toLocaleDateString()}</span>
+                            {runs > 1 && (
+                              <>
+                                <span>•</span>
+                                <span className="text-[var(--accent-tertiary)]">{runs} runs to compare</span>
+                              </>
+                            )}
+                          </div>
+                        </motion.button>
+                      );
+                    })}
                   </div>
                 )}
               </div>
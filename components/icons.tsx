@@ -668,3 +668,23 @@ export function ZapIcon({ className = '', size = 20 }: IconProps) {
   );
 }
 
+
+export function FilterIcon({ className = '', size = 20 }: IconProps) {
+  return (
+    <svg 
+      width={size} 
+      height={size} 
+      viewBox="0 0 24 24" 
+      fill="none" 
+      className={className}
+    >
+      <path 
+        d="M3 5H21L14 13V19L10 21V13L3 5Z" 
+        stroke="currentColor" 
+        strokeWidth="2" 
+        strokeLinecap="round" 
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useMinerStore } from '@/lib/store';
+import { ChevronRightIcon, DownloadIcon } from '@/components/icons';
+
+interface ImportJSONProps {
+  onImport: (text: string) => void;
+}
+
+export function ImportJSON({ onImport }: ImportJSONProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [pasted, setPasted] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { isLoading } = useMinerStore();
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    onImport(await file.text());
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    importFile(e.dataTransfer.files[0]);
+  };
+
+  return (
+    <div className="w-full">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 text-sm text-[var(--text-muted)] hover:text-[var(--text-secondary)] transition-colors"
+      >
+        <motion.span
+          animate={{ rotate: isOpen ? 90 : 0 }}
+          transition={{ duration: 0.2 }}
+          className="inline-block"
+        >
+          <ChevronRightIcon size={16} />
+        </motion.span>
+        Import Saved JSON
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="overflow-hidden"
+          >
+            <div className="pt-4 space-y-3">
+              {/* Drop zone */}
+              <div
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                onClick={() => fileInputRef.current?.click()}
+                className={`flex flex-col items-center gap-2 p-6 rounded-lg border-2 border-dashed cursor-pointer transition-colors ${
+                  isDragging
+                    ? 'border-[var(--accent-primary)] bg-[var(--accent-primary)]/5'
+                    : 'border-[var(--border-subtle)] hover:border-[var(--text-muted)]'
+                }`}
+              >
+                <DownloadIcon size={20} className="text-[var(--text-muted)]" />
+                <span className="text-sm text-[var(--text-secondary)]">
+                  Drop a Raw JSON or Clean JSON export, or click to choose a file
+                </span>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  disabled={isLoading}
+                  onChange={(e) => {
+                    importFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                />
+              </div>
+
+              {/* Paste box */}
+              <textarea
+                value={pasted}
+                onChange={(e) => setPasted(e.target.value)}
+                disabled={isLoading}
+                placeholder="...or paste the JSON here"
+                rows={4}
+                className="input text-xs font-mono py-2 resize-y"
+              />
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-[10px] text-[var(--text-muted)] opacity-70">
+                  Re-normalized with the depth and min upvotes set above - nothing is fetched from Reddit
+                </p>
+                <button
+                  onClick={() => onImport(pasted)}
+                  disabled={isLoading || !pasted.trim()}
+                  className="shrink-0 px-3 py-1.5 rounded-lg text-sm bg-[var(--bg-tertiary)] border border-[var(--border-subtle)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] disabled:opacity-40 transition-all"
+                >
+                  Import
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
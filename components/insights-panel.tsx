@@ -2,8 +2,12 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { NormalizedData } from '@/lib/schemas';
-import { analyzeWithAI, AIInsight } from '@/lib/openrouter';
+import { NormalizedData, NormalizedComment, InsightsData, Persona, Objection } from '@/lib/schemas';
+import { useMinerStore } from '@/lib/store';
+import { buildInsightsData } from '@/lib/insights';
+import { analyzeWithAI, getAIStatus, resolveProvider, AIInsight } from '@/lib/openrouter';
+import { analyzeComments, detectAccountShillIndicators, AIAnalysisResult, AnalyzedComment } from '@/lib/ai-analysis';
+import { mineProfile } from '@/lib/profile';
 import { 
   FireIcon, 
   MoneyIcon, 
@@ -17,43 +21,121 @@ import {
   TrendUpIcon,
   ShieldIcon,
   ZapIcon,
+  LightbulbIcon,
+  CloseIcon,
 } from '@/components/icons';
 
 interface InsightsPanelProps {
   data: NormalizedData;
 }
 
-type TabType = 'nuggets' | 'buyers' | 'competitors' | 'risks';
+type TabType =
+  | 'nuggets'
+  | 'buyers'
+  | 'competitors'
+  | 'risks'
+  | 'pains'
+  | 'intents'
+  | 'solutions'
+  | 'personas'
+  | 'objections'
+  | 'shills';
+
+interface CachedAnalysis {
+  patterns: AIAnalysisResult;
+  aiInsight: AIInsight | null;
+  aiConfigured: boolean;
+  aiError: string | null;
+  insights: InsightsData;
+}
+
+// Keeps results when the panel unmounts (format switch, back to listing) so
+// returning to INTEL doesn't re-run a slow LLM pass
+const analysisCache = new Map<string, CachedAnalysis>();
+const MAX_CACHED_ANALYSES = 10;
 
 export function InsightsPanel({ data }: InsightsPanelProps) {
   const [aiInsight, setAiInsight] = useState<AIInsight | null>(null);
+  const [patterns, setPatterns] = useState<AIAnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(true);
   const [progress, setProgress] = useState('Starting analysis...');
   const [activeTab, setActiveTab] = useState<TabType>('nuggets');
   const [error, setError] = useState<string | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [aiConfigured, setAiConfigured] = useState(false);
+  const useLocalModel = useMinerStore((s) => s.useLocalModel);
+  const setInsights = useMinerStore((s) => s.setInsights);
+  const insightsData = useMinerStore((s) => s.insightsData);
 
   useEffect(() => {
     let cancelled = false;
+    const cacheKey = `${data.thread.id}:${data.meta.fetchedAt}:${useLocalModel}`;
+
+    function apply(result: CachedAnalysis) {
+      setPatterns(result.patterns);
+      setAiInsight(result.aiInsight);
+      setAiConfigured(result.aiConfigured);
+      setAiError(result.aiError);
+      setInsights(result.insights);
+    }
+
+    function finish(result: Omit<CachedAnalysis, 'insights'>) {
+      const full = { ...result, insights: buildInsightsData(data, result.patterns, result.aiInsight) };
+      analysisCache.set(cacheKey, full);
+      if (analysisCache.size > MAX_CACHED_ANALYSES) {
+        analysisCache.delete(analysisCache.keys().next().value!);
+      }
+      apply(full);
+    }
 
     async function runAnalysis() {
+      const cached = analysisCache.get(cacheKey);
+      if (cached) {
+        apply(cached);
+        setIsAnalyzing(false);
+        return;
+      }
+
       setIsAnalyzing(true);
       setError(null);
+      setAiError(null);
+      setAiInsight(null);
 
       try {
+        // Signal analysis always runs offline - patterns, plus the local model if enabled
+        const patternResult = await analyzeComments(data.comments, {
+          onProgress: ({ step }) => {
+            if (!cancelled) setProgress(step);
+          },
+          useLocalModel,
+        });
+        if (cancelled) return;
+
+        // Read settings at run time so tweaking them doesn't re-trigger analysis
+        const { llmSettings } = useMinerStore.getState();
+        const provider = resolveProvider(await getAIStatus(), llmSettings);
+        if (cancelled) return;
+        if (!provider) {
+          finish({ patterns: patternResult, aiInsight: null, aiConfigured: false, aiError: null });
+          return;
+        }
+
         const result = await analyzeWithAI(
           data.comments,
           data.thread.title,
           (step) => {
             if (!cancelled) setProgress(step);
-          }
+          },
+          llmSettings
         );
 
         if (!cancelled) {
-          if (result) {
-            setAiInsight(result);
-          } else {
-            setError('AI analysis unavailable. Try again later.');
-          }
+          finish({
+            patterns: patternResult,
+            aiInsight: result,
+            aiConfigured: true,
+            aiError: result ? null : 'AI analysis unavailable right now. Showing offline signals only.',
+          });
         }
       } catch (err) {
         console.error('Analysis failed:', err);
@@ -69,7 +151,7 @@ export function InsightsPanel({ data }: InsightsPanelProps) {
 
     runAnalysis();
     return () => { cancelled = true; };
-  }, [data.comments, data.thread.title]);
+  }, [data, useLocalModel, setInsights]);
 
   // Loading state
   if (isAnalyzing) {
@@ -94,8 +176,8 @@ export function InsightsPanel({ data }: InsightsPanelProps) {
     );
   }
 
-  // Error state - show helpful message
-  if (error || !aiInsight) {
+  // Error state
+  if (error || !patterns) {
     return (
       <motion.div
         initial={{ opacity: 0 }}
@@ -103,54 +185,190 @@ export function InsightsPanel({ data }: InsightsPanelProps) {
         className="card py-12"
       >
         <div className="text-center max-w-md mx-auto">
-          <SparklesIcon size={48} className="mx-auto mb-4 text-[var(--accent-primary)] opacity-50" />
+          <AlertIcon size={48} className="mx-auto mb-4 text-[var(--error)] opacity-50" />
           <h3 className="text-lg font-medium text-[var(--text-primary)] mb-2">
-            AI Analysis Requires API Key
+            Analysis Failed
           </h3>
-          <p className="text-sm text-[var(--text-muted)] mb-6">
-            The free OpenRouter API key has expired. To enable AI-powered insights:
+          <p className="text-sm text-[var(--text-muted)]">
+            {error || 'Something went wrong while analyzing this thread.'}
           </p>
-          <ol className="text-left text-sm text-[var(--text-secondary)] space-y-2 mb-6">
-            <li className="flex items-start gap-2">
-              <span className="flex-shrink-0 w-5 h-5 rounded-full bg-[var(--accent-primary)]/20 text-[var(--accent-primary)] text-xs flex items-center justify-center">1</span>
-              <span>Get a free key at <a href="https://openrouter.ai/keys" target="_blank" rel="noopener noreferrer" className="text-[var(--accent-tertiary)] hover:underline">openrouter.ai/keys</a></span>
-            </li>
-            <li className="flex items-start gap-2">
-              <span className="flex-shrink-0 w-5 h-5 rounded-full bg-[var(--accent-primary)]/20 text-[var(--accent-primary)] text-xs flex items-center justify-center">2</span>
-              <span>Create <code className="px-1 py-0.5 rounded bg-[var(--bg-tertiary)] text-xs">.env.local</code> in the project root</span>
-            </li>
-            <li className="flex items-start gap-2">
-              <span className="flex-shrink-0 w-5 h-5 rounded-full bg-[var(--accent-primary)]/20 text-[var(--accent-primary)] text-xs flex items-center justify-center">3</span>
-              <span>Add: <code className="px-1 py-0.5 rounded bg-[var(--bg-tertiary)] text-xs">NEXT_PUBLIC_OPENROUTER_API_KEY=your-key</code></span>
-            </li>
-            <li className="flex items-start gap-2">
-              <span className="flex-shrink-0 w-5 h-5 rounded-full bg-[var(--accent-primary)]/20 text-[var(--accent-primary)] text-xs flex items-center justify-center">4</span>
-              <span>Restart the dev server</span>
-            </li>
-          </ol>
-          <a
-            href="https://openrouter.ai/keys"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-[var(--accent-primary)] text-white font-medium hover:opacity-90 transition-opacity"
-          >
-            <SparklesIcon size={16} />
-            Get Free API Key
-          </a>
         </div>
       </motion.div>
     );
   }
 
-  const tabs: { id: TabType; label: string; count: number; icon: React.ReactNode }[] = [
-    { id: 'nuggets', label: 'Gold Nuggets', count: aiInsight.goldNuggets.length, icon: <FireIcon size={16} /> },
-    { id: 'buyers', label: 'Buyer Signals', count: aiInsight.buyerSignals.length, icon: <MoneyIcon size={16} /> },
-    { id: 'competitors', label: 'Competitors', count: aiInsight.competitors.length, icon: <TargetIcon size={16} /> },
-    { id: 'risks', label: 'Red Flags', count: aiInsight.redFlags.length + aiInsight.shills.length, icon: <AlertIcon size={16} /> },
+  // LLM shills first, then pattern-flagged comments the LLM didn't already call out
+  const offlineEngine = patterns.modelLoaded ? 'local model' : 'pattern';
+
+  const aiShillIds = new Set(aiInsight?.shills.map(s => s.comment.id) || []);
+  const patternShills = patterns.shillWarnings.filter(s => !aiShillIds.has(s.comment.id));
+
+  // Personas/objections merge LLM tags with pattern matches, so they come from InsightsData
+  const insights = insightsData?.meta.threadId === data.thread.id ? insightsData : null;
+  const commentsById = new Map(data.comments.map(c => [c.id, c]));
+
+  const patternTabs: { id: TabType; label: string; count: number; icon: React.ReactNode }[] = [
+    { id: 'pains', label: 'Pain Points', count: patterns.pains.length, icon: <FireIcon size={16} /> },
+    { id: 'intents', label: 'Buying Intent', count: patterns.intents.length, icon: <MoneyIcon size={16} /> },
+    { id: 'solutions', label: 'Solutions', count: patterns.solutions.length, icon: <CheckIcon size={16} /> },
+    { id: 'personas', label: 'Personas', count: insights?.personas.length ?? 0, icon: <UserIcon size={16} /> },
+    { id: 'objections', label: 'Objections', count: insights?.objections.length ?? 0, icon: <CloseIcon size={16} /> },
   ];
 
+  const tabs: { id: TabType; label: string; count: number; icon: React.ReactNode }[] = aiInsight
+    ? [
+        { id: 'nuggets', label: 'Gold Nuggets', count: aiInsight.goldNuggets.length, icon: <FireIcon size={16} /> },
+        { id: 'buyers', label: 'Buyer Signals', count: aiInsight.buyerSignals.length, icon: <MoneyIcon size={16} /> },
+        { id: 'competitors', label: 'Competitors', count: aiInsight.competitors.length, icon: <TargetIcon size={16} /> },
+        { id: 'risks', label: 'Red Flags', count: aiInsight.redFlags.length + aiInsight.shills.length + patternShills.length, icon: <AlertIcon size={16} /> },
+        ...patternTabs,
+      ]
+    : [
+        ...patternTabs,
+        { id: 'shills', label: 'Shill Warnings', count: patterns.shillWarnings.length, icon: <ShieldIcon size={16} /> },
+      ];
+
+  const currentTab = tabs.some(t => t.id === activeTab) ? activeTab : tabs[0].id;
+
   return (
     <div className="space-y-6">
+      {aiInsight ? (
+        <AIOverview aiInsight={aiInsight} />
+      ) : (
+        <PatternOverview summary={patterns.summary} />
+      )}
+
+      {/* Why there's no LLM section */}
+      {!aiInsight && (
+        aiConfigured
+          ? <p className="text-xs text-[var(--text-muted)] text-center">{aiError}</p>
+          : <ApiKeyHint />
+      )}
+
+      {/* Tab Navigation */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="flex flex-wrap gap-2"
+      >
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`
+              flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-medium transition-all
+              ${currentTab === tab.id 
+                ? 'bg-[var(--accent-primary)] text-white shadow-lg shadow-[var(--accent-primary)]/25' 
+                : 'bg-[var(--bg-secondary)] border border-[var(--border-subtle)] text-[var(--text-muted)] hover:text-[var(--text-secondary)] hover:border-[var(--accent-primary)]/50'
+              }
+            `}
+          >
+            {tab.icon}
+            <span>{tab.label}</span>
+            {tab.count > 0 && (
+              <span className={`px-1.5 py-0.5 rounded text-xs ${
+                currentTab === tab.id ? 'bg-white/20' : 'bg-[var(--bg-tertiary)]'
+              }`}>
+                {tab.count}
+              </span>
+            )}
+          </button>
+        ))}
+      </motion.div>
+
+      {/* Tab Content */}
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={currentTab}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          transition={{ duration: 0.2 }}
+        >
+          {aiInsight && currentTab === 'nuggets' && (
+            <GoldNuggetsTab nuggets={aiInsight.goldNuggets} />
+          )}
+          {aiInsight && currentTab === 'buyers' && (
+            <BuyerSignalsTab signals={aiInsight.buyerSignals} />
+          )}
+          {aiInsight && currentTab === 'competitors' && (
+            <CompetitorsTab competitors={aiInsight.competitors} />
+          )}
+          {aiInsight && currentTab === 'risks' && (
+            <RisksTab redFlags={aiInsight.redFlags} shills={aiInsight.shills} patternShills={patternShills} />
+          )}
+          {currentTab === 'pains' && (
+            <PatternSignalsTab
+              items={patterns.pains}
+              intro="Complaints, frustration and feature requests:"
+              empty="No pain signals matched in this thread."
+            />
+          )}
+          {currentTab === 'intents' && (
+            <PatternSignalsTab
+              items={patterns.intents}
+              intro="People comparing options or asking what to buy:"
+              empty="No buying intent matched in this thread."
+            />
+          )}
+          {currentTab === 'solutions' && (
+            <PatternSignalsTab
+              items={patterns.solutions}
+              intro="What the community recommends (likely shills filtered out):"
+              empty="No solution recommendations matched in this thread."
+            />
+          )}
+          {currentTab === 'personas' && (
+            <PersonasTab personas={insights?.personas || []} commentsById={commentsById} />
+          )}
+          {currentTab === 'objections' && (
+            <ObjectionsTab objections={insights?.objections || []} commentsById={commentsById} />
+          )}
+          {currentTab === 'shills' && (
+            <PatternSignalsTab
+              items={patterns.shillWarnings}
+              intro="Comments with affiliate links, tracking URLs or self-promotion:"
+              empty="No suspicious promotion detected."
+            />
+          )}
+        </motion.div>
+      </AnimatePresence>
+
+      {/* Entries the validator threw away - surfaced so nobody quotes a guess */}
+      {aiInsight && aiInsight.warnings.length > 0 && (
+        <p
+          title={aiInsight.warnings.join('\n')}
+          className="flex items-center justify-center gap-2 text-xs text-yellow-400"
+        >
+          <AlertIcon size={12} />
+          {aiInsight.warnings.length} AI entr{aiInsight.warnings.length === 1 ? 'y was' : 'ies were'} dropped for invalid fields or unverifiable citations
+        </p>
+      )}
+
+      {/* Footer */}
+      <motion.p
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.4 }}
+        className="flex items-center justify-center gap-2 text-xs text-[var(--text-muted)]"
+      >
+        <SparklesIcon size={12} />
+        {aiInsight
+          ? `Powered by ${aiInsight.generatedBy.model} via ${aiInsight.generatedBy.provider} • ${patterns.summary.totalAnalyzed} comments ${offlineEngine}-scanned`
+          : `${offlineEngine === 'pattern' ? 'Pattern-based' : 'Local model'} analysis of ${patterns.summary.totalAnalyzed} comments • runs offline`}
+      </motion.p>
+    </div>
+  );
+}
+
+// ============================================
+// LLM Overview (TL;DR + Market Pulse)
+// ============================================
+
+function AIOverview({ aiInsight }: { aiInsight: AIInsight }) {
+  return (
+    <>
       {/* TL;DR - The ONE Thing */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -255,74 +473,7 @@ export function InsightsPanel({ data }: InsightsPanelProps) {
           </div>
         </div>
       </motion.div>
-
-      {/* Tab Navigation */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.2 }}
-        className="flex flex-wrap gap-2"
-      >
-        {tabs.map((tab) => (
-          <button
-            key={tab.id}
-            onClick={() => setActiveTab(tab.id)}
-            className={`
-              flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-medium transition-all
-              ${activeTab === tab.id 
-                ? 'bg-[var(--accent-primary)] text-white shadow-lg shadow-[var(--accent-primary)]/25' 
-                : 'bg-[var(--bg-secondary)] border border-[var(--border-subtle)] text-[var(--text-muted)] hover:text-[var(--text-secondary)] hover:border-[var(--accent-primary)]/50'
-              }
-            `}
-          >
-            {tab.icon}
-            <span>{tab.label}</span>
-            {tab.count > 0 && (
-              <span className={`px-1.5 py-0.5 rounded text-xs ${
-                activeTab === tab.id ? 'bg-white/20' : 'bg-[var(--bg-tertiary)]'
-              }`}>
-                {tab.count}
-              </span>
-            )}
-          </button>
-        ))}
-      </motion.div>
-
-      {/* Tab Content */}
-      <AnimatePresence mode="wait">
-        <motion.div
-          key={activeTab}
-          initial={{ opacity: 0, y: 10 }}
-          animate={{ opacity: 1, y: 0 }}
-          exit={{ opacity: 0, y: -10 }}
-          transition={{ duration: 0.2 }}
-        >
-          {activeTab === 'nuggets' && (
-            <GoldNuggetsTab nuggets={aiInsight.goldNuggets} />
-          )}
-          {activeTab === 'buyers' && (
-            <BuyerSignalsTab signals={aiInsight.buyerSignals} />
-          )}
-          {activeTab === 'competitors' && (
-            <CompetitorsTab competitors={aiInsight.competitors} />
-          )}
-          {activeTab === 'risks' && (
-            <RisksTab redFlags={aiInsight.redFlags} shills={aiInsight.shills} />
-          )}
-        </motion.div>
-      </AnimatePresence>
-
-      {/* Footer */}
-      <motion.p
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        transition={{ delay: 0.4 }}
-        className="flex items-center justify-center gap-2 text-xs text-[var(--text-muted)]"
-      >
-        <SparklesIcon size={12} />
-        Powered by Mimo AI via OpenRouter
-      </motion.p>
-    </div>
+    </>
   );
 }
 
@@ -483,8 +634,16 @@ function CompetitorsTab({ competitors }: { competitors: AIInsight['competitors']
 // Risks Tab
 // ============================================
 
-function RisksTab({ redFlags, shills }: { redFlags: AIInsight['redFlags']; shills: AIInsight['shills'] }) {
-  if (redFlags.length === 0 && shills.length === 0) {
+function RisksTab({
+  redFlags,
+  shills,
+  patternShills,
+}: {
+  redFlags: AIInsight['redFlags'];
+  shills: AIInsight['shills'];
+  patternShills: AnalyzedComment[];
+}) {
+  if (redFlags.length === 0 && shills.length === 0 && patternShills.length === 0) {
     return (
       <div className="p-8 rounded-xl bg-green-500/10 border-2 border-green-500/30 text-center">
         <ShieldIcon size={32} className="mx-auto mb-3 text-green-400" />
@@ -553,6 +712,388 @@ function RisksTab({ redFlags, shills }: { redFlags: AIInsight['redFlags']; shill
           ))}
         </div>
       )}
+
+      {/* Pattern-flagged promotion the LLM didn't mention */}
+      {patternShills.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-[var(--text-muted)] flex items-center gap-2">
+            <ShieldIcon size={16} className="text-yellow-400" />
+            Pattern-Flagged Promotion ({patternShills.length})
+          </h3>
+          {patternShills.map((item, index) => (
+            <PatternSignalCard key={item.comment.id} item={item} index={index} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Personas & Objections Tabs
+// ============================================
+
+function PersonasTab({
+  personas,
+  commentsById,
+}: {
+  personas: Persona[];
+  commentsById: Map<string, NormalizedComment>;
+}) {
+  if (personas.length === 0) {
+    return <EmptyState message="Nobody described who they are in this thread." />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-[var(--text-muted)]">
+        Who is talking, grouped by how commenters describe themselves:
+      </p>
+      <div className="grid gap-4 sm:grid-cols-2">
+        {personas.map((persona, index) => {
+          const example = commentsById.get(persona.commentIds[0]);
+          return (
+            <motion.div
+              key={persona.id}
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: Math.min(index * 0.1, 0.5) }}
+              className="p-4 rounded-xl bg-[var(--bg-secondary)] border-2 border-[var(--border-subtle)]"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="flex items-center gap-2 font-bold text-[var(--text-primary)]">
+                  <UserIcon size={14} className="text-[var(--accent-primary)]" />
+                  {persona.label}
+                </h4>
+                <span className="text-xs text-[var(--text-muted)]">
+                  {persona.commentIds.length} comment{persona.commentIds.length === 1 ? '' : 's'}
+                </span>
+              </div>
+
+              <div className="h-1.5 rounded-full overflow-hidden bg-[var(--bg-tertiary)] mb-3">
+                <div
+                  className="h-full bg-[var(--accent-primary)]"
+                  style={{ width: `${Math.max(persona.percentage, 2)}%` }}
+                />
+              </div>
+              <p className="text-xs text-[var(--text-muted)] mb-3">
+                {persona.percentage.toFixed(1)}% of commenters
+              </p>
+
+              {persona.traits.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mb-2">
+                  {persona.traits.map((trait) => (
+                    <span key={trait} className="px-2 py-0.5 rounded-full text-xs bg-[var(--accent-primary)]/15 text-[var(--accent-primary)]">
+                      {trait}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {persona.painPoints.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {persona.painPoints.map((pain) => (
+                    <span key={pain} className="px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-400">
+                      {pain}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {example && <CommentSource comment={example} />}
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function ObjectionsTab({
+  objections,
+  commentsById,
+}: {
+  objections: Objection[];
+  commentsById: Map<string, NormalizedComment>;
+}) {
+  if (objections.length === 0) {
+    return <EmptyState message="No reasons not to buy came up in this thread." />;
+  }
+
+  const maxFrequency = Math.max(...objections.map(o => o.frequency));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-[var(--text-muted)]">
+        Why people won&apos;t buy or switch, most common first:
+      </p>
+      {objections.map((objection, index) => {
+        const example = commentsById.get(objection.commentIds[0]);
+        return (
+          <motion.div
+            key={objection.id}
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: Math.min(index * 0.05, 0.5) }}
+            className="p-4 rounded-xl bg-[var(--bg-secondary)] border-2 border-[var(--border-subtle)]"
+          >
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-semibold text-[var(--text-primary)]">{objection.reason}</h4>
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-500/20 text-red-400">
+                {objection.frequency}×
+              </span>
+            </div>
+            <div className="h-1.5 rounded-full overflow-hidden bg-[var(--bg-tertiary)]">
+              <div
+                className="h-full bg-red-400"
+                style={{ width: `${(objection.frequency / maxFrequency) * 100}%` }}
+              />
+            </div>
+            {example && <CommentSource comment={example} />}
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+}
+
+// ============================================
+// Pattern Analysis (offline, always available)
+// ============================================
+
+function PatternOverview({ summary }: { summary: AIAnalysisResult['summary'] }) {
+  const { positive, negative, neutral } = summary.sentimentBreakdown;
+  const total = Math.max(summary.totalAnalyzed, 1);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="grid grid-cols-2 lg:grid-cols-4 gap-3"
+    >
+      {/* Sentiment */}
+      <div className="col-span-2 p-4 rounded-xl bg-[var(--bg-secondary)] border-2 border-[var(--border-subtle)]">
+        <div className="flex items-center gap-2 mb-3">
+          <TrendUpIcon size={16} className="text-[var(--accent-primary)]" />
+          <span className="text-xs uppercase tracking-wider text-[var(--text-muted)]">Sentiment</span>
+        </div>
+        <div className="flex h-2 rounded-full overflow-hidden bg-[var(--bg-tertiary)]">
+          <div className="bg-green-400" style={{ width: `${(positive / total) * 100}%` }} />
+          <div className="bg-gray-400" style={{ width: `${(neutral / total) * 100}%` }} />
+          <div className="bg-red-400" style={{ width: `${(negative / total) * 100}%` }} />
+        </div>
+        <div className="flex justify-between mt-2 text-xs text-[var(--text-muted)]">
+          <span className="text-green-400">{positive} positive</span>
+          <span>{neutral} neutral</span>
+          <span className="text-red-400">{negative} negative</span>
+        </div>
+      </div>
+
+      {/* Avg Score */}
+      <div className="p-4 rounded-xl bg-[var(--bg-secondary)] border-2 border-[var(--border-subtle)]">
+        <div className="flex items-center gap-2 mb-2">
+          <StarIcon size={16} className="text-[var(--accent-secondary)]" />
+          <span className="text-xs uppercase tracking-wider text-[var(--text-muted)]">Avg Score</span>
+        </div>
+        <p className="text-xl font-bold text-[var(--accent-secondary)]">
+          {Math.round(summary.avgScore)}
+        </p>
+        <p className="text-xs text-[var(--text-muted)] mt-1">
+          {summary.controversialCount} controversial
+        </p>
+      </div>
+
+      {/* Shills */}
+      <div className={`p-4 rounded-xl border-2 ${
+        summary.potentialShills > 0
+          ? 'bg-yellow-500/10 border-yellow-500/30'
+          : 'bg-[var(--bg-secondary)] border-[var(--border-subtle)]'
+      }`}>
+        <div className="flex items-center gap-2 mb-2">
+          <ShieldIcon size={16} className={summary.potentialShills > 0 ? 'text-yellow-400' : 'text-green-400'} />
+          <span className="text-xs uppercase tracking-wider text-[var(--text-muted)]">Potential Shills</span>
+        </div>
+        <p className={`text-xl font-bold ${summary.potentialShills > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+          {summary.potentialShills}
+        </p>
+      </div>
+    </motion.div>
+  );
+}
+
+function PatternSignalsTab({
+  items,
+  intro,
+  empty,
+}: {
+  items: AnalyzedComment[];
+  intro: string;
+  empty: string;
+}) {
+  if (items.length === 0) {
+    return <EmptyState message={empty} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-[var(--text-muted)]">{intro}</p>
+      {items.map((item, index) => (
+        <PatternSignalCard key={item.comment.id} item={item} index={index} />
+      ))}
+    </div>
+  );
+}
+
+function PatternSignalCard({ item, index }: { item: AnalyzedComment; index: number }) {
+  const sentimentColors = {
+    positive: 'bg-green-500/20 text-green-400',
+    negative: 'bg-red-500/20 text-red-400',
+    neutral: 'bg-gray-500/20 text-gray-400',
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay: Math.min(index * 0.05, 0.5) }}
+      className="p-4 rounded-xl bg-[var(--bg-secondary)] border-2 border-[var(--border-subtle)] hover:border-[var(--accent-primary)]/50 transition-colors"
+    >
+      <p className="text-[var(--text-primary)] line-clamp-3">{item.comment.body}</p>
+
+      <div className="flex flex-wrap gap-1.5 mt-3">
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${sentimentColors[item.sentiment.label]}`}>
+          {item.sentiment.label}
+        </span>
+        {item.signals.map((signal) => (
+          <span
+            key={signal}
+            className="px-2 py-0.5 rounded-full text-xs bg-[var(--accent-primary)]/15 text-[var(--accent-primary)]"
+          >
+            {signal}
+          </span>
+        ))}
+        {item.shillReasons.map((reason) => (
+          <span
+            key={reason}
+            className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-yellow-500/20 text-yellow-400"
+          >
+            <AlertIcon size={10} />
+            {reason}
+          </span>
+        ))}
+      </div>
+
+      {item.shillReasons.length > 0 && item.comment.author !== '[deleted]' && (
+        <AccountCheck author={item.comment.author} textScore={item.shillScore} />
+      )}
+
+      <CommentSource comment={item.comment} />
+    </motion.div>
+  );
+}
+
+// Pulls the author's recent history so a text-only flag can be backed up
+const ACCOUNT_CHECK_ITEMS = 100;
+
+function AccountCheck({ author, textScore }: { author: string; textScore: number }) {
+  const [state, setState] = useState<'idle' | 'loading' | 'done' | 'error'>('idle');
+  const [result, setResult] = useState<{ score: number; reasons: string[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheck = async () => {
+    setState('loading');
+    try {
+      const profile = await mineProfile(`https://www.reddit.com/user/${author}`, {
+        maxItems: ACCOUNT_CHECK_ITEMS,
+      });
+      setResult(detectAccountShillIndicators(profile));
+      setState('done');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load this account');
+      setState('error');
+    }
+  };
+
+  if (state === 'idle' || state === 'loading') {
+    return (
+      <button
+        onClick={handleCheck}
+        disabled={state === 'loading'}
+        className="flex items-center gap-1 mt-3 text-xs text-[var(--accent-tertiary)] hover:underline disabled:opacity-60 disabled:no-underline"
+      >
+        <UserIcon size={12} />
+        {state === 'loading' ? `Checking u/${author}...` : `Check u/${author}'s account`}
+      </button>
+    );
+  }
+
+  if (state === 'error') {
+    return <p className="mt-3 text-xs text-[var(--error)]">{error}</p>;
+  }
+
+  if (!result) return null;
+
+  return (
+    <div className="mt-3 p-3 rounded-lg bg-[var(--bg-tertiary)] text-xs">
+      <p className="flex items-center gap-2 text-[var(--text-muted)]">
+        <ShieldIcon size={12} />
+        Account evidence for u/{author}
+        <span className="ml-auto font-mono">text {textScore} + account {result.score}</span>
+      </p>
+      {result.reasons.length === 0 ? (
+        <p className="mt-1 text-green-400">Recent history doesn&apos;t look promotional</p>
+      ) : (
+        <ul className="mt-1 space-y-0.5">
+          {result.reasons.map((reason) => (
+            <li key={reason} className="text-yellow-400">{reason}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ApiKeyHint() {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="rounded-xl bg-[var(--bg-secondary)] border-2 border-[var(--border-subtle)] p-4">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 text-sm text-[var(--text-muted)] hover:text-[var(--text-secondary)] transition-colors"
+      >
+        <LightbulbIcon size={16} className="text-[var(--accent-primary)]" />
+        <span>Showing offline signals. Configure an LLM provider for founder-focused AI insights.</span>
+        <span className="ml-auto text-xs text-[var(--accent-tertiary)]">
+          {expanded ? 'Hide' : 'How?'}
+        </span>
+      </button>
+      <AnimatePresence>
+        {expanded && (
+          <motion.ol
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="mt-4 text-left text-sm text-[var(--text-secondary)] space-y-2 overflow-hidden"
+          >
+            <li className="flex items-start gap-2">
+              <span className="flex-shrink-0 w-5 h-5 rounded-full bg-[var(--accent-primary)]/20 text-[var(--accent-primary)] text-xs flex items-center justify-center">1</span>
+              <span>Get a free key at <a href="https://openrouter.ai/keys" target="_blank" rel="noopener noreferrer" className="text-[var(--accent-tertiary)] hover:underline">openrouter.ai/keys</a>, or run Ollama / llama.cpp locally</span>
+            </li>
+            <li className="flex items-start gap-2">
+              <span className="flex-shrink-0 w-5 h-5 rounded-full bg-[var(--accent-primary)]/20 text-[var(--accent-primary)] text-xs flex items-center justify-center">2</span>
+              <span>Create <code className="px-1 py-0.5 rounded bg-[var(--bg-tertiary)] text-xs">.env.local</code> in the project root</span>
+            </li>
+            <li className="flex items-start gap-2">
+              <span className="flex-shrink-0 w-5 h-5 rounded-full bg-[var(--accent-primary)]/20 text-[var(--accent-primary)] text-xs flex items-center justify-center">3</span>
+              <span>Add: <code className="px-1 py-0.5 rounded bg-[var(--bg-tertiary)] text-xs">OPENROUTER_API_KEY=your-key</code> or <code className="px-1 py-0.5 rounded bg-[var(--bg-tertiary)] text-xs">OLLAMA_BASE_URL=http://localhost:11434</code></span>
+            </li>
+            <li className="flex items-start gap-2">
+              <span className="flex-shrink-0 w-5 h-5 rounded-full bg-[var(--accent-primary)]/20 text-[var(--accent-primary)] text-xs flex items-center justify-center">4</span>
+              <span>Restart the dev server</span>
+            </li>
+          </motion.ol>
+        )}
+      </AnimatePresence>
     </div>
   );
 }
@@ -0,0 +1,158 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { NormalizedData, NormalizedListing } from '@/lib/schemas';
+import { describeListing, listingToCSV } from '@/lib/listing';
+import { downloadFile, formatNumber } from '@/lib/utils';
+import { StatsTile, StatsIcons } from '@/components/stats-tile';
+import { AlertIcon, DownloadIcon, UserIcon, ChevronRightIcon } from '@/components/icons';
+
+interface ListingOverviewProps {
+  listing: NormalizedListing;
+  onOpenThread: (thread: NormalizedData) => void;
+}
+
+export function ListingOverview({ listing, onOpenThread }: ListingOverviewProps) {
+  const { source, threads, stats, meta } = listing;
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const slug = describeListing(source)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, 40);
+
+    if (format === 'json') {
+      downloadFile(JSON.stringify(listing, null, 2), `${slug}-dataset.json`, 'application/json');
+    } else {
+      downloadFile(listingToCSV(listing), `${slug}-comments.csv`, 'text/csv');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Listing header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="p-5 rounded-xl bg-[var(--bg-secondary)] border-2 border-[var(--border-subtle)]"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <span className="px-2 py-0.5 bg-[var(--accent-tertiary)] text-[var(--text-inverse)] rounded font-medium text-xs">
+              LISTING
+            </span>
+            <h2 className="text-lg font-semibold text-[var(--text-primary)] mt-2">
+              {describeListing(source)}
+            </h2>
+            <p className="text-sm text-[var(--text-muted)] mt-1">
+              {stats.threadCount} of {meta.threadsRequested} threads mined • {meta.pagesFetched} listing page{meta.pagesFetched === 1 ? '' : 's'} • {new Date(meta.fetchedAt).toLocaleString()}
+            </p>
+          </div>
+
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={() => handleExport('json')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border-2 border-[var(--border-default)] bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:border-[var(--accent-primary)] transition-colors"
+            >
+              <DownloadIcon size={14} />
+              JSON
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border-2 border-[var(--border-default)] bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:border-[var(--accent-primary)] transition-colors"
+            >
+              <DownloadIcon size={14} />
+              CSV
+            </button>
+          </div>
+        </div>
+
+        {meta.failed.length > 0 && (
+          <div className="flex items-start gap-2 mt-4 p-3 rounded-lg bg-[var(--error)]/10 text-[var(--error)] text-xs">
+            <AlertIcon size={14} />
+            <span>
+              {meta.failed.length} thread{meta.failed.length === 1 ? '' : 's'} could not be mined: {meta.failed[0].error}
+            </span>
+          </div>
+        )}
+      </motion.div>
+
+      {/* Aggregate stats */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <StatsTile label="Threads" value={stats.threadCount} icon={StatsIcons.exports} color="orange" delay={0} />
+        <StatsTile label="Comments" value={stats.totalComments} icon={StatsIcons.comments} color="yellow" delay={0.1} />
+        <StatsTile label="Authors" value={stats.uniqueAuthors} icon={StatsIcons.depth} color="teal" delay={0.2} />
+        <StatsTile label="Avg Score" value={Math.round(stats.avgThreadScore)} icon={StatsIcons.signals} color="purple" delay={0.3} />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Thread list */}
+        <div className="lg:col-span-2 rounded-xl border-2 border-[var(--border-subtle)] bg-[var(--bg-secondary)] overflow-hidden">
+          <h3 className="px-4 py-3 text-sm font-medium text-[var(--text-muted)] uppercase tracking-wider border-b-2 border-[var(--border-subtle)]">
+            Threads
+          </h3>
+          <div className="divide-y divide-[var(--border-subtle)] max-h-[600px] overflow-y-auto">
+            {threads.map((data, index) => (
+              <motion.button
+                key={data.thread.id}
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: Math.min(index * 0.03, 0.5) }}
+                onClick={() => onOpenThread(data)}
+                className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-[var(--bg-tertiary)] transition-colors"
+              >
+                <span className="w-8 text-right font-mono text-sm text-[var(--accent-secondary)] shrink-0">
+                  {formatNumber(data.thread.score)}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-[var(--text-primary)] line-clamp-1">{data.thread.title}</p>
+                  <p className="text-xs text-[var(--text-muted)] mt-0.5">
+                    r/{data.thread.subreddit} • {data.meta.totalComments} mined of {data.thread.commentCount} comments • u/{data.thread.author}
+                  </p>
+                </div>
+                <ChevronRightIcon size={14} className="text-[var(--text-muted)] shrink-0" />
+              </motion.button>
+            ))}
+          </div>
+        </div>
+
+        {/* Top authors + subreddits */}
+        <div className="space-y-6">
+          <div className="rounded-xl border-2 border-[var(--border-subtle)] bg-[var(--bg-secondary)] p-4">
+            <h3 className="text-sm font-medium text-[var(--text-muted)] uppercase tracking-wider mb-3">
+              Most Active Authors
+            </h3>
+            <ul className="space-y-2">
+              {stats.topAuthors.map((author) => (
+                <li key={author.author} className="flex items-center gap-2 text-sm">
+                  <UserIcon size={12} className="text-[var(--text-muted)]" />
+                  <span className="text-[var(--accent-secondary)] truncate">u/{author.author}</span>
+                  <span className="ml-auto text-xs text-[var(--text-muted)] font-mono">
+                    {author.comments} • {formatNumber(author.totalScore)} pts
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {stats.subreddits.length > 1 && (
+            <div className="rounded-xl border-2 border-[var(--border-subtle)] bg-[var(--bg-secondary)] p-4">
+              <h3 className="text-sm font-medium text-[var(--text-muted)] uppercase tracking-wider mb-3">
+                Subreddits
+              </h3>
+              <ul className="space-y-2">
+                {stats.subreddits.map((sub) => (
+                  <li key={sub.name} className="flex items-center text-sm">
+                    <span className="text-[var(--accent-tertiary)]">r/{sub.name}</span>
+                    <span className="ml-auto text-xs text-[var(--text-muted)] font-mono">{sub.threads}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
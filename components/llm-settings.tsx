@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMinerStore } from '@/lib/store';
+import { getAIStatus, resolveProvider } from '@/lib/openrouter';
+import { LLMProviderId, LLMStatusResponse } from '@/lib/schemas';
+import { SparklesIcon } from '@/components/icons';
+
+export function LLMSettingsPanel() {
+  const { llmSettings, setLLMSettings, isLoading } = useMinerStore();
+  const [status, setStatus] = useState<LLMStatusResponse | null>(null);
+  const [statusLoaded, setStatusLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAIStatus().then((result) => {
+      if (cancelled) return;
+      setStatus(result);
+      setStatusLoaded(true);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const active = resolveProvider(status, llmSettings);
+  const defaultLabel = status?.providers.find(p => p.id === status.defaultProvider)?.label;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-[var(--border-subtle)]">
+      <p className="flex items-center gap-2 text-xs font-medium text-[var(--text-muted)] uppercase tracking-wider mb-3">
+        <SparklesIcon size={14} />
+        INTEL AI Provider
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        {/* Provider */}
+        <div>
+          <label className="block text-xs font-medium text-[var(--text-muted)] mb-2 uppercase tracking-wider">
+            Provider
+          </label>
+          <select
+            value={llmSettings.provider ?? ''}
+            onChange={(e) => setLLMSettings({ provider: (e.target.value || null) as LLMProviderId | null })}
+            disabled={isLoading}
+            className="input text-sm py-2"
+          >
+            <option value="">Server default{defaultLabel ? ` (${defaultLabel})` : ''}</option>
+            {status?.providers.map((provider) => (
+              <option key={provider.id} value={provider.id} disabled={!provider.configured}>
+                {provider.label}{provider.configured ? '' : ' (not configured)'}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Model */}
+        <div>
+          <label className="block text-xs font-medium text-[var(--text-muted)] mb-2 uppercase tracking-wider">
+            Model
+          </label>
+          <input
+            type="text"
+            value={llmSettings.model}
+            onChange={(e) => setLLMSettings({ model: e.target.value })}
+            placeholder={active?.defaultModel || 'Provider default'}
+            disabled={isLoading}
+            className="input text-sm py-2"
+          />
+        </div>
+
+        {/* Temperature */}
+        <div>
+          <label className="block text-xs font-medium text-[var(--text-muted)] mb-2 uppercase tracking-wider">
+            Temperature <span className="font-mono normal-case">{llmSettings.temperature.toFixed(1)}</span>
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={1.5}
+            step={0.1}
+            value={llmSettings.temperature}
+            onChange={(e) => setLLMSettings({ temperature: parseFloat(e.target.value) })}
+            disabled={isLoading}
+            className="w-full accent-[var(--accent-primary)]"
+          />
+        </div>
+
+        {/* Max tokens */}
+        <div>
+          <label className="block text-xs font-medium text-[var(--text-muted)] mb-2 uppercase tracking-wider">
+            Max Tokens
+          </label>
+          <select
+            value={llmSettings.maxTokens}
+            onChange={(e) => setLLMSettings({ maxTokens: parseInt(e.target.value) })}
+            disabled={isLoading}
+            className="input text-sm py-2"
+          >
+            <option value={1000}>1,000</option>
+            <option value={2500}>2,500</option>
+            <option value={4000}>4,000</option>
+            <option value={8000}>8,000</option>
+          </select>
+        </div>
+      </div>
+
+      <p className="text-[10px] text-[var(--text-muted)] mt-2 opacity-70">
+        {!statusLoaded
+          ? 'Checking server for configured providers...'
+          : active
+          ? `INTEL will use ${active.label}. Keys stay on the server.`
+          : 'No provider configured on the server - INTEL runs pattern analysis only.'}
+      </p>
+    </div>
+  );
+}
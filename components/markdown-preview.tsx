@@ -1,23 +1,92 @@
 'use client';
 
-import { motion } from 'framer-motion';
-import { NormalizedData } from '@/lib/schemas';
-import { TrophyIcon } from '@/components/icons';
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CommentTreeNode, NormalizedData, SearchMatch } from '@/lib/schemas';
+import { buildCommentTree, findCommentNode } from '@/lib/reddit';
+import { ThreadSearchResult } from '@/lib/search';
+import { TrophyIcon, ChevronDownIcon, ChevronRightIcon } from '@/components/icons';
 
 interface MarkdownPreviewProps {
   data: NormalizedData;
+  search?: ThreadSearchResult;
+  activeMatch?: number;
 }
 
-export function MarkdownPreview({ data }: MarkdownPreviewProps) {
+// Replies below this depth stay behind a "+ N more replies" button
+const MAX_DEPTH = 4;
+
+// Collapse state and search highlights, shared by every comment in the tree
+interface CommentView {
+  matches: Map<string, SearchMatch[]>;
+  active: SearchMatch | null;
+  revealed: Set<string>; // ancestors of the active match, forced open
+  collapsed: Set<string>;
+  expanded: Set<string>; // opened past MAX_DEPTH
+  toggleCollapsed: (commentId: string) => void;
+  expand: (commentId: string) => void;
+}
+
+function toggle(set: Set<string>, id: string): Set<string> {
+  const next = new Set(set);
+  if (next.has(id)) {
+    next.delete(id);
+  } else {
+    next.add(id);
+  }
+  return next;
+}
+
+export function MarkdownPreview({ data, search, activeMatch = 0 }: MarkdownPreviewProps) {
   const { thread, comments, meta } = data;
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [ancestorsOpen, setAncestorsOpen] = useState(false);
 
-  // Build comment tree
-  const topLevel = comments.filter(c => c.parentId.startsWith('t3_'));
-  
-  const getReplies = (commentId: string) => {
-    return comments.filter(c => c.parentId === `t1_${commentId}`);
+  const matches = new Map<string, SearchMatch[]>();
+  for (const match of search?.matches || []) {
+    matches.set(match.commentId, [...(matches.get(match.commentId) || []), match]);
+  }
+  const active = search?.matches[Math.min(activeMatch, search.matches.length - 1)] ?? null;
+
+  // Walk up from the active match so nothing above it stays collapsed
+  const revealed = new Set<string>();
+  if (active) {
+    const byId = new Map(comments.map(c => [c.id, c]));
+    let parent = byId.get(byId.get(active.commentId)?.parentId.slice(3) || '');
+    while (parent && !revealed.has(parent.id)) {
+      revealed.add(parent.id);
+      parent = byId.get(parent.parentId.slice(3));
+    }
+  }
+
+  const view: CommentView = {
+    matches,
+    active,
+    revealed,
+    collapsed,
+    expanded,
+    toggleCollapsed: (commentId) => setCollapsed(toggle(collapsed, commentId)),
+    expand: (commentId) => setExpanded(new Set(expanded).add(commentId)),
   };
 
+  // Scroll only when the active match moves, not on every re-render
+  const activeIndex = active?.index;
+  const activeComment = active?.commentId;
+  useEffect(() => {
+    if (activeIndex === undefined) return;
+    document.getElementById(`search-match-${activeIndex}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [activeIndex, activeComment]);
+
+  // A focused mine starts at the linked comment, its ancestors render
+  // separately above it
+  const tree = buildCommentTree(data).comments;
+  const focused = meta.focus ? findCommentNode(tree, meta.focus.commentId) : undefined;
+  const ancestors = focused
+    ? meta.focus!.ancestorIds.map(id => comments.find(c => c.id === id)).filter(c => c !== undefined)
+    : [];
+  const topLevel = focused ? [focused] : tree;
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -65,12 +134,21 @@ export function MarkdownPreview({ data }: MarkdownPreviewProps) {
           )}
         </div>
 
-        <div className="space-y-4">
+        {ancestors.length > 0 && (
+          <AncestorChain
+            ancestors={ancestors}
+            expanded={ancestorsOpen || ancestors.some(c => c.id === active?.commentId)}
+            onToggle={() => setAncestorsOpen(!ancestorsOpen)}
+            view={view}
+          />
+        )}
+
+        <div className={`space-y-4 ${focused ? 'rounded-lg border-2 border-[var(--accent-primary)]/40 p-3' : ''}`}>
           {topLevel.map((comment, index) => (
             <CommentNode
               key={comment.id}
               comment={comment}
-              getReplies={getReplies}
+              view={view}
               delay={index * 0.05}
             />
           ))}
@@ -80,16 +158,112 @@ export function MarkdownPreview({ data }: MarkdownPreviewProps) {
   );
 }
 
+// Parent comments of a focused mine, collapsed to one line until opened
+interface AncestorChainProps {
+  ancestors: NormalizedData['comments'];
+  expanded: boolean;
+  onToggle: () => void;
+  view: CommentView;
+}
+
+function AncestorChain({ ancestors, expanded, onToggle, view }: AncestorChainProps) {
+  return (
+    <div className="mb-4">
+      <button
+        onClick={onToggle}
+        className="flex items-center gap-1 text-xs text-[var(--text-muted)] hover:text-[var(--text-secondary)] transition-colors"
+      >
+        {expanded ? <ChevronDownIcon size={14} /> : <ChevronRightIcon size={14} />}
+        {expanded ? 'Hide' : 'Show'} {ancestors.length} parent comment{ancestors.length === 1 ? '' : 's'}
+        {!expanded && (
+          <span className="ml-1 opacity-70">
+            ({ancestors.map(c => `u/${c.author}`).join(' → ')})
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {expanded && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="mt-3 space-y-3 overflow-hidden"
+          >
+            {ancestors.map((comment, index) => (
+              <div
+                key={comment.id}
+                className="border-l-2 border-[var(--border-subtle)] pl-4 opacity-70"
+                style={{ marginLeft: index * 12 }}
+              >
+                <div className="text-sm mb-1">
+                  <span className={`font-medium ${comment.isOP ? 'text-[var(--accent-primary)]' : 'text-[var(--accent-secondary)]'}`}>
+                    u/<Highlighted text={comment.author} matches={view.matches.get(comment.id)} field="author" active={view.active} />
+                  </span>
+                  <span className="text-[var(--text-muted)]"> • {comment.score} points</span>
+                </div>
+                <div className="text-[var(--text-secondary)] text-sm whitespace-pre-wrap">
+                  <Highlighted text={comment.body} matches={view.matches.get(comment.id)} field="body" active={view.active} />
+                </div>
+              </div>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+interface HighlightedProps {
+  text: string;
+  matches?: SearchMatch[];
+  field: SearchMatch['field'];
+  active: SearchMatch | null;
+}
+
+// Wraps search matches in <mark>; the active one gets an id to scroll to
+function Highlighted({ text, matches, field, active }: HighlightedProps) {
+  const ranges = (matches || []).filter(m => m.field === field);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const match of ranges) {
+    if (match.start > cursor) parts.push(text.slice(cursor, match.start));
+    const isActive = match.index === active?.index;
+    parts.push(
+      <mark
+        key={match.index}
+        id={`search-match-${match.index}`}
+        className={`rounded-sm px-0.5 ${isActive
+          ? 'bg-[var(--accent-primary)] text-[var(--text-inverse)]'
+          : 'bg-[var(--accent-secondary)]/40 text-[var(--text-primary)]'
+        }`}
+      >
+        {text.slice(match.start, match.end)}
+      </mark>
+    );
+    cursor = match.end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
+
 interface CommentNodeProps {
-  comment: NormalizedData['comments'][0];
-  getReplies: (id: string) => NormalizedData['comments'];
+  comment: CommentTreeNode;
+  view: CommentView;
   delay?: number;
   depth?: number;
 }
 
-function CommentNode({ comment, getReplies, delay = 0, depth = 0 }: CommentNodeProps) {
-  const replies = getReplies(comment.id);
-  const maxDepth = 4;
+function CommentNode({ comment, view, delay = 0, depth = 0 }: CommentNodeProps) {
+  const replies = comment.children;
+  const matches = view.matches.get(comment.id);
+  const isCollapsed = view.collapsed.has(comment.id)
+    && !view.revealed.has(comment.id)
+    && view.active?.commentId !== comment.id;
+  const showReplies = depth < MAX_DEPTH || view.expanded.has(comment.id) || view.revealed.has(comment.id);
 
   return (
     <motion.div
@@ -103,8 +277,15 @@ function CommentNode({ comment, getReplies, delay = 0, depth = 0 }: CommentNodeP
     >
       {/* Comment header */}
       <div className="flex items-center gap-2 text-sm mb-1">
+        <button
+          onClick={() => view.toggleCollapsed(comment.id)}
+          className="-ml-4 text-[var(--text-muted)] hover:text-[var(--text-primary)]"
+          title={isCollapsed ? 'Expand' : 'Collapse'}
+        >
+          {isCollapsed ? <ChevronRightIcon size={12} /> : <ChevronDownIcon size={12} />}
+        </button>
         <span className={`font-medium ${comment.isOP ? 'text-[var(--accent-primary)]' : 'text-[var(--accent-secondary)]'}`}>
-          u/{comment.author}
+          u/<Highlighted text={comment.author} matches={matches} field="author" active={view.active} />
         </span>
         {comment.isOP && (
           <span className="px-1.5 py-0.5 text-xs bg-[var(--accent-primary)] text-[var(--text-inverse)] rounded">
@@ -122,34 +303,45 @@ function CommentNode({ comment, getReplies, delay = 0, depth = 0 }: CommentNodeP
             </span>
           </>
         )}
+        {isCollapsed && comment.subtreeSize > 1 && (
+          <span className="text-xs text-[var(--text-muted)]">
+            ({comment.subtreeSize - 1} repl{comment.subtreeSize === 2 ? 'y' : 'ies'} hidden)
+          </span>
+        )}
       </div>
 
-      {/* Comment body */}
-      <div className="text-[var(--text-secondary)] text-sm whitespace-pre-wrap mb-2">
-        {comment.body}
-      </div>
+      {!isCollapsed && (
+        <>
+          {/* Comment body */}
+          <div className="text-[var(--text-secondary)] text-sm whitespace-pre-wrap mb-2">
+            <Highlighted text={comment.body} matches={matches} field="body" active={view.active} />
+          </div>
 
-      {/* Replies */}
-      {replies.length > 0 && depth < maxDepth && (
-        <div className="mt-3 space-y-3">
-          {replies.map((reply, index) => (
-            <CommentNode
-              key={reply.id}
-              comment={reply}
-              getReplies={getReplies}
-              delay={delay + (index + 1) * 0.03}
-              depth={depth + 1}
-            />
-          ))}
-        </div>
-      )}
+          {/* Replies */}
+          {replies.length > 0 && showReplies && (
+            <div className="mt-3 space-y-3">
+              {replies.map((reply, index) => (
+                <CommentNode
+                  key={reply.id}
+                  comment={reply}
+                  view={view}
+                  delay={delay + (index + 1) * 0.03}
+                  depth={depth + 1}
+                />
+              ))}
+            </div>
+          )}
 
-      {replies.length > 0 && depth >= maxDepth && (
-        <div className="text-xs text-[var(--text-muted)] mt-2">
-          + {replies.length} more replies...
-        </div>
+          {replies.length > 0 && !showReplies && (
+            <button
+              onClick={() => view.expand(comment.id)}
+              className="text-xs text-[var(--text-muted)] hover:text-[var(--text-secondary)] mt-2"
+            >
+              + {comment.subtreeSize - 1} more replies...
+            </button>
+          )}
+        </>
       )}
     </motion.div>
   );
 }
-
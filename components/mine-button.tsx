@@ -2,7 +2,7 @@
 
 import { motion } from 'framer-motion';
 import { useMinerStore } from '@/lib/store';
-import { isValidRedditUrl } from '@/lib/reddit';
+import { isValidRedditUrl, isListingUrl } from '@/lib/reddit';
 
 interface MineButtonProps {
   onMine: () => void;
@@ -10,18 +10,21 @@ interface MineButtonProps {
 
 export function MineButton({ onMine }: MineButtonProps) {
   const { url, isLoading, loadingStep, progress } = useMinerStore();
-  const isValid = isValidRedditUrl(url);
+  const isListing = isListingUrl(url);
+  const isValid = isValidRedditUrl(url) || isListing;
 
   const getButtonText = () => {
     switch (loadingStep) {
       case 'fetching':
         return 'Fetching...';
+      case 'expanding':
+        return 'Expanding...';
       case 'normalizing':
         return 'Processing...';
       case 'analyzing':
         return 'Analyzing...';
       default:
-        return 'Mine Thread';
+        return isListing ? 'Mine Listing' : 'Mine Thread';
     }
   };
 
@@ -92,7 +95,7 @@ export function MineButton({ onMine }: MineButtonProps) {
                 strokeLinejoin="round"
               />
             </svg>
-            Mine Thread
+            {isListing ? 'Mine Listing' : 'Mine Thread'}
           </>
         )}
       </span>
@@ -0,0 +1,263 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { NormalizedProfile } from '@/lib/schemas';
+import { profileToCSV } from '@/lib/profile';
+import { detectAccountShillIndicators } from '@/lib/ai-analysis';
+import { downloadFile, formatNumber, timeAgo, truncate } from '@/lib/utils';
+import { StatsTile, StatsIcons } from '@/components/stats-tile';
+import { AlertIcon, DownloadIcon, ShieldIcon, CheckIcon } from '@/components/icons';
+
+interface ProfileOverviewProps {
+  profile: NormalizedProfile;
+}
+
+const SECTION_LABELS: Record<NormalizedProfile['meta']['section'], string> = {
+  overview: 'comments and posts',
+  comments: 'comments',
+  submitted: 'posts',
+};
+
+function describeAge(days: number | null): string {
+  if (days === null) return 'unknown age';
+  if (days < 60) return `${days} days old`;
+  if (days < 730) return `${Math.round(days / 30)} months old`;
+  return `${Math.floor(days / 365)} years old`;
+}
+
+export function ProfileOverview({ profile }: ProfileOverviewProps) {
+  const { user, stats, meta } = profile;
+  const evidence = detectAccountShillIndicators(profile);
+  const topComments = stats.topCommentIds
+    .map(id => profile.comments.find(c => c.id === id))
+    .filter(c => c !== undefined);
+  const topPosts = stats.topPostIds
+    .map(id => profile.posts.find(p => p.id === id))
+    .filter(p => p !== undefined);
+  const busiestMonth = Math.max(1, ...stats.activity.map(m => m.comments + m.posts));
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const slug = `u-${user.name.toLowerCase()}`;
+    if (format === 'json') {
+      downloadFile(JSON.stringify(profile, null, 2), `${slug}-profile.json`, 'application/json');
+    } else {
+      downloadFile(profileToCSV(profile), `${slug}-activity.csv`, 'text/csv');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Profile header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="p-5 rounded-xl bg-[var(--bg-secondary)] border-2 border-[var(--border-subtle)]"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <span className="px-2 py-0.5 bg-[var(--accent-secondary)] text-[var(--text-inverse)] rounded font-medium text-xs">
+              PROFILE
+            </span>
+            <h2 className="text-lg font-semibold text-[var(--text-primary)] mt-2">
+              <a
+                href={`https://www.reddit.com/user/${user.name}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="hover:underline"
+              >
+                u/{user.name}
+              </a>
+            </h2>
+            <p className="text-sm text-[var(--text-muted)] mt-1">
+              {describeAge(user.accountAgeDays)} • {formatNumber(user.linkKarma)} post karma • {formatNumber(user.commentKarma)} comment karma
+            </p>
+            <p className="text-xs text-[var(--text-muted)] mt-1">
+              Latest {SECTION_LABELS[meta.section]} • {meta.pagesFetched} page{meta.pagesFetched === 1 ? '' : 's'} • {new Date(meta.fetchedAt).toLocaleString()}
+              {meta.truncated && ' • older history not mined'}
+            </p>
+          </div>
+
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={() => handleExport('json')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border-2 border-[var(--border-default)] bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:border-[var(--accent-primary)] transition-colors"
+            >
+              <DownloadIcon size={14} />
+              JSON
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border-2 border-[var(--border-default)] bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:border-[var(--accent-primary)] transition-colors"
+            >
+              <DownloadIcon size={14} />
+              CSV
+            </button>
+          </div>
+        </div>
+      </motion.div>
+
+      {/* Aggregate stats */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <StatsTile label="Comments" value={stats.totalComments} icon={StatsIcons.comments} color="orange" delay={0} />
+        <StatsTile label="Posts" value={stats.totalPosts} icon={StatsIcons.exports} color="yellow" delay={0.1} />
+        <StatsTile label="Subreddits" value={stats.subreddits.length} icon={StatsIcons.depth} color="teal" delay={0.2} />
+        <StatsTile label="Total Score" value={stats.commentScore + stats.postScore} icon={StatsIcons.signals} color="purple" delay={0.3} />
+      </div>
+
+      {/* Account-level shill evidence */}
+      <div
+        className={`p-4 rounded-xl border-2 ${evidence.score >= 5 ? 'border-[var(--accent-secondary)]' : 'border-[var(--border-subtle)]'} bg-[var(--bg-secondary)]`}
+      >
+        <h3 className="flex items-center gap-2 text-sm font-medium text-[var(--text-muted)] uppercase tracking-wider">
+          <ShieldIcon size={14} />
+          Account Evidence
+          <span className="ml-auto font-mono normal-case">score {evidence.score}</span>
+        </h3>
+        {evidence.reasons.length === 0 ? (
+          <p className="flex items-center gap-2 mt-3 text-sm text-[var(--success)]">
+            <CheckIcon size={14} />
+            Nothing about this account&apos;s history looks promotional
+          </p>
+        ) : (
+          <ul className="mt-3 space-y-1">
+            {evidence.reasons.map(reason => (
+              <li key={reason} className="flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+                <AlertIcon size={12} className="text-[var(--accent-secondary)] shrink-0" />
+                {reason}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Activity over time */}
+        <div className="lg:col-span-2 rounded-xl border-2 border-[var(--border-subtle)] bg-[var(--bg-secondary)] p-4">
+          <h3 className="text-sm font-medium text-[var(--text-muted)] uppercase tracking-wider mb-3">
+            Activity by Month
+          </h3>
+          {stats.activity.length === 0 ? (
+            <p className="text-sm text-[var(--text-muted)]">No activity mined</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {stats.activity.map(month => (
+                <li key={month.month} className="flex items-center gap-3 text-xs">
+                  <span className="w-16 font-mono text-[var(--text-muted)] shrink-0">{month.month}</span>
+                  <div className="flex-1 flex h-3 rounded overflow-hidden bg-[var(--bg-tertiary)]">
+                    <div
+                      className="bg-[var(--accent-primary)]"
+                      style={{ width: `${(month.comments / busiestMonth) * 100}%` }}
+                      title={`${month.comments} comments`}
+                    />
+                    <div
+                      className="bg-[var(--accent-tertiary)]"
+                      style={{ width: `${(month.posts / busiestMonth) * 100}%` }}
+                      title={`${month.posts} posts`}
+                    />
+                  </div>
+                  <span className="w-10 text-right font-mono text-[var(--text-muted)]">{month.comments + month.posts}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="flex gap-4 mt-3 text-[10px] text-[var(--text-muted)]">
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-[var(--accent-primary)]" />comments</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-[var(--accent-tertiary)]" />posts</span>
+          </p>
+        </div>
+
+        {/* Subreddits + link domains */}
+        <div className="space-y-6">
+          <div className="rounded-xl border-2 border-[var(--border-subtle)] bg-[var(--bg-secondary)] p-4">
+            <h3 className="text-sm font-medium text-[var(--text-muted)] uppercase tracking-wider mb-3">
+              Subreddits
+            </h3>
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {stats.subreddits.map(sub => (
+                <li key={sub.name} className="flex items-center gap-2 text-sm">
+                  <span className="text-[var(--accent-tertiary)] truncate">r/{sub.name}</span>
+                  <span className="ml-auto text-xs text-[var(--text-muted)] font-mono shrink-0">
+                    {sub.comments}c {sub.posts}p • {formatNumber(sub.score)} pts
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {stats.linkDomains.length > 0 && (
+            <div className="rounded-xl border-2 border-[var(--border-subtle)] bg-[var(--bg-secondary)] p-4">
+              <h3 className="text-sm font-medium text-[var(--text-muted)] uppercase tracking-wider mb-3">
+                Linked Domains
+              </h3>
+              <ul className="space-y-2">
+                {stats.linkDomains.slice(0, 8).map(domain => (
+                  <li key={domain.domain} className="flex items-center text-sm">
+                    <span className="text-[var(--text-secondary)] truncate">{domain.domain}</span>
+                    <span className="ml-auto text-xs text-[var(--text-muted)] font-mono">{domain.posts}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Top content */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        {topComments.length > 0 && (
+          <div className="rounded-xl border-2 border-[var(--border-subtle)] bg-[var(--bg-secondary)] overflow-hidden">
+            <h3 className="px-4 py-3 text-sm font-medium text-[var(--text-muted)] uppercase tracking-wider border-b-2 border-[var(--border-subtle)]">
+              Top Comments
+            </h3>
+            <div className="divide-y divide-[var(--border-subtle)] max-h-[480px] overflow-y-auto">
+              {topComments.map(comment => (
+                <a
+                  key={comment.id}
+                  href={comment.permalink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block px-4 py-3 hover:bg-[var(--bg-tertiary)] transition-colors"
+                >
+                  <p className="text-xs text-[var(--text-muted)]">
+                    <span className="font-mono text-[var(--accent-secondary)]">{formatNumber(comment.score)}</span>
+                    {' • '}r/{comment.subreddit} • {timeAgo(comment.createdAt)}
+                  </p>
+                  <p className="text-xs text-[var(--text-muted)] mt-0.5 line-clamp-1">Re: {comment.threadTitle}</p>
+                  <p className="text-sm text-[var(--text-secondary)] mt-1 line-clamp-3">{truncate(comment.body, 280)}</p>
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {topPosts.length > 0 && (
+          <div className="rounded-xl border-2 border-[var(--border-subtle)] bg-[var(--bg-secondary)] overflow-hidden">
+            <h3 className="px-4 py-3 text-sm font-medium text-[var(--text-muted)] uppercase tracking-wider border-b-2 border-[var(--border-subtle)]">
+              Top Posts
+            </h3>
+            <div className="divide-y divide-[var(--border-subtle)] max-h-[480px] overflow-y-auto">
+              {topPosts.map(post => (
+                <a
+                  key={post.id}
+                  href={post.permalink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block px-4 py-3 hover:bg-[var(--bg-tertiary)] transition-colors"
+                >
+                  <p className="text-xs text-[var(--text-muted)]">
+                    <span className="font-mono text-[var(--accent-secondary)]">{formatNumber(post.score)}</span>
+                    {' • '}r/{post.subreddit} • {post.commentCount} comments • {timeAgo(post.createdAt)}
+                  </p>
+                  <p className="text-sm text-[var(--text-primary)] mt-1 line-clamp-2">{post.title}</p>
+                  {!post.isSelf && (
+                    <p className="text-xs text-[var(--text-muted)] mt-0.5 truncate">{post.url}</p>
+                  )}
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,31 @@
 'use client';
 
 import { motion } from 'framer-motion';
+import { ExpandProgress, LoadingStep } from '@/lib/schemas';
 
 interface ProgressBarProps {
-  step: 'idle' | 'fetching' | 'normalizing' | 'analyzing';
+  step: LoadingStep;
+  title?: string;
+  detail?: string | null; // Replaces "in progress..." on the active step
+  expandMore?: boolean;
+  expandProgress?: ExpandProgress | null;
 }
 
-const steps = [
+const allSteps = [
   { id: 'fetching', label: 'Fetching from Reddit', icon: '🌐' },
+  { id: 'expanding', label: 'Expanding hidden replies', icon: '🧩' },
   { id: 'normalizing', label: 'Processing comments', icon: '⚙️' },
   { id: 'analyzing', label: 'Extracting signals', icon: '🔍' },
 ];
 
-export function ProgressBar({ step }: ProgressBarProps) {
+export function ProgressBar({
+  step,
+  title = 'Mining thread...',
+  detail,
+  expandMore = false,
+  expandProgress,
+}: ProgressBarProps) {
+  const steps = expandMore ? allSteps : allSteps.filter(s => s.id !== 'expanding');
   const currentStepIndex = steps.findIndex(s => s.id === step);
   const progress = step === 'idle' ? 0 : ((currentStepIndex + 1) / steps.length) * 100;
 
@@ -32,7 +45,7 @@ export function ProgressBar({ step }: ProgressBarProps) {
       </motion.div>
 
       <h3 className="text-lg font-medium text-[var(--text-primary)] mb-2">
-        Mining thread...
+        {title}
       </h3>
 
       {/* Progress bar */}
@@ -104,14 +117,20 @@ export function ProgressBar({ step }: ProgressBarProps) {
                   transition={{ duration: 1.5, repeat: Infinity }}
                   className="ml-auto text-xs text-[var(--accent-primary)]"
                 >
-                  in progress...
+                  {detail
+                    ? detail
+                    : s.id === 'expanding' && expandProgress
+                      ? `${expandProgress.expanded.toLocaleString()} / ${expandProgress.total.toLocaleString()}`
+                      : 'in progress...'}
                 </motion.div>
               )}
 
               {/* Complete indicator */}
               {isComplete && (
                 <span className="ml-auto text-xs text-[var(--success)]">
-                  done
+                  {s.id === 'expanding' && expandProgress
+                    ? `+${expandProgress.expanded.toLocaleString()} replies`
+                    : 'done'}
                 </span>
               )}
             </motion.div>
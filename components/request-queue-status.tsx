@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { redditScheduler } from '@/lib/scheduler';
+import { ClockIcon } from '@/components/icons';
+
+const getState = redditScheduler.getState;
+
+export function RequestQueueStatus() {
+  const state = useSyncExternalStore(redditScheduler.subscribe, getState, getState);
+  const [, setTick] = useState(0);
+  const waitSeconds = redditScheduler.waitSeconds();
+
+  // Re-render every second while paused so the countdown moves
+  useEffect(() => {
+    if (waitSeconds === 0) return;
+    const timer = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [waitSeconds]);
+
+  const busy = state.queued > 0 || state.active > 0;
+  if (!busy && waitSeconds === 0) return null;
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-xs text-[var(--text-muted)]">
+      {waitSeconds > 0 ? (
+        <span className="flex items-center gap-1 text-yellow-400">
+          <ClockIcon size={12} />
+          Reddit rate limit - resuming in {waitSeconds}s
+        </span>
+      ) : (
+        <span className="flex items-center gap-1">
+          <ClockIcon size={12} />
+          {state.active} in flight
+        </span>
+      )}
+      {state.queued > 0 && <span>{state.queued} queued</span>}
+      {state.retrying > 0 && <span>{state.retrying} retrying</span>}
+      {state.rateLimitRemaining !== null && (
+        <span>{Math.floor(state.rateLimitRemaining)} requests left this window</span>
+      )}
+    </div>
+  );
+}
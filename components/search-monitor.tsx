@@ -0,0 +1,284 @@
+'use client';
+
+import { useState, useEffect, useSyncExternalStore } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { SearchHit } from '@/lib/schemas';
+import { searchMonitor, describeSearch, SEARCH_INTERVALS } from '@/lib/monitor';
+import { timeAgo, truncate } from '@/lib/utils';
+import { SearchIcon, FireIcon, MoneyIcon, TrashIcon, CloseIcon, PickaxeIcon, ClockIcon } from '@/components/icons';
+
+interface SearchMonitorProps {
+  onOpen: (url: string) => void;
+}
+
+// "brand, Competitor Inc" -> ['brand', 'Competitor Inc']
+function splitList(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+export function SearchMonitor({ onOpen }: SearchMonitorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [keywords, setKeywords] = useState('');
+  const [subreddits, setSubreddits] = useState('');
+  const [intervalMinutes, setIntervalMinutes] = useState(SEARCH_INTERVALS[1]);
+  const [filter, setFilter] = useState<string>('all');
+  const state = useSyncExternalStore(searchMonitor.subscribe, searchMonitor.getState, searchMonitor.getServerState);
+
+  const unread = state.feed.filter(hit => !state.lastViewedAt || hit.foundAt > state.lastViewedAt).length;
+  const feed = filter === 'all' ? state.feed : state.feed.filter(hit => hit.searchId === filter);
+
+  // Poll while the app is open, whether or not the panel is
+  useEffect(() => searchMonitor.start(), []);
+
+  const handleToggle = () => {
+    // Opening or closing both count as having seen the feed
+    if (isOpen || unread > 0) searchMonitor.markViewed();
+    setIsOpen(!isOpen);
+  };
+
+  const handleAdd = () => {
+    const keywordList = splitList(keywords);
+    if (keywordList.length === 0) return;
+
+    searchMonitor.add({
+      keywords: keywordList,
+      subreddits: splitList(subreddits).map(s => s.replace(/^\/?r\//i, '')),
+      intervalMinutes,
+    });
+    setKeywords('');
+    setSubreddits('');
+  };
+
+  const handleOpen = (hit: SearchHit) => {
+    searchMonitor.markViewed();
+    setIsOpen(false);
+    onOpen(hit.permalink);
+  };
+
+  return (
+    <>
+      {/* Header button */}
+      <button
+        onClick={handleToggle}
+        className="relative flex items-center gap-2 px-3 py-1.5 rounded-lg bg-[var(--bg-secondary)] border border-[var(--border-subtle)] text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:border-[var(--text-muted)] transition-all text-sm"
+        title="Keyword monitor"
+      >
+        <SearchIcon size={14} />
+        <span className="hidden sm:inline">Monitor</span>
+        {unread > 0 && (
+          <span className="absolute -top-2 -right-2 min-w-5 h-5 px-1 bg-[var(--accent-primary)] text-[var(--text-inverse)] text-xs rounded-full flex items-center justify-center">
+            {unread}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            {/* Backdrop */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={handleToggle}
+              className="fixed inset-0 bg-black/50 z-40"
+            />
+
+            {/* Panel */}
+            <motion.div
+              initial={{ x: '100%' }}
+              animate={{ x: 0 }}
+              exit={{ x: '100%' }}
+              transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+              className="fixed right-0 top-0 bottom-0 w-[28rem] max-w-[95vw] z-50
+                bg-[var(--bg-secondary)] border-l-2 border-[var(--border-default)]
+                flex flex-col"
+            >
+              {/* Header */}
+              <div className="p-4 border-b-2 border-[var(--border-subtle)] flex items-center justify-between">
+                <h2 className="font-semibold text-[var(--text-primary)]">Keyword Monitor</h2>
+                <button
+                  onClick={handleToggle}
+                  className="p-1 hover:bg-[var(--bg-tertiary)] rounded transition-colors text-[var(--text-muted)]"
+                >
+                  <CloseIcon size={20} />
+                </button>
+              </div>
+
+              {/* New search */}
+              <div className="p-4 space-y-2 border-b-2 border-[var(--border-subtle)]">
+                <input
+                  value={keywords}
+                  onChange={(e) => setKeywords(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                  placeholder="Keywords, comma separated (your brand, competitors)"
+                  className="input text-sm py-2"
+                />
+                <div className="flex gap-2">
+                  <input
+                    value={subreddits}
+                    onChange={(e) => setSubreddits(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                    placeholder="Subreddits (optional)"
+                    className="input text-sm py-2"
+                  />
+                  <select
+                    value={intervalMinutes}
+                    onChange={(e) => setIntervalMinutes(parseInt(e.target.value))}
+                    className="input text-sm py-2 w-auto"
+                  >
+                    {SEARCH_INTERVALS.map(minutes => (
+                      <option key={minutes} value={minutes}>
+                        {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleAdd}
+                    disabled={splitList(keywords).length === 0}
+                    className="shrink-0 px-3 rounded-lg text-sm bg-[var(--accent-primary)] text-[var(--text-inverse)] disabled:opacity-40 transition-opacity"
+                  >
+                    Add
+                  </button>
+                </div>
+                <p className="text-[10px] text-[var(--text-muted)] opacity-70">
+                  Posts come from Reddit search. Comments are only matched when you list subreddits.
+                </p>
+              </div>
+
+              {/* Saved searches */}
+              {state.searches.length > 0 && (
+                <div className="divide-y divide-[var(--border-subtle)] border-b-2 border-[var(--border-subtle)] max-h-48 overflow-y-auto">
+                  {state.searches.map(search => (
+                    <div key={search.id} className="px-4 py-2 flex items-start gap-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-[var(--text-primary)] truncate">{describeSearch(search)}</p>
+                        <p className="flex items-center gap-1 text-xs text-[var(--text-muted)] mt-0.5">
+                          <ClockIcon size={10} />
+                          {state.pollingId === search.id ? (
+                            <span className="text-[var(--accent-tertiary)]">searching...</span>
+                          ) : (
+                            <button
+                              onClick={() => searchMonitor.pollNow(search.id)}
+                              className="hover:text-[var(--text-secondary)]"
+                              title="Search now"
+                            >
+                              {search.lastPolledAt ? `checked ${timeAgo(search.lastPolledAt)}` : 'not checked yet'}
+                            </button>
+                          )}
+                        </p>
+                        {search.lastError && (
+                          <p className="text-xs text-[var(--error)] mt-0.5">{search.lastError}</p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => searchMonitor.remove(search.id)}
+                        className="p-1 text-[var(--text-muted)] hover:text-[var(--error)] transition-colors shrink-0"
+                        title="Delete search and its hits"
+                      >
+                        <TrashIcon size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Feed */}
+              <div className="flex-1 overflow-y-auto">
+                {state.searches.length > 1 && (
+                  <div className="px-4 pt-3">
+                    <select
+                      value={filter}
+                      onChange={(e) => setFilter(e.target.value)}
+                      className="input text-xs py-1.5"
+                    >
+                      <option value="all">All searches</option>
+                      {state.searches.map(search => (
+                        <option key={search.id} value={search.id}>{search.keywords.join(', ')}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {feed.length === 0 ? (
+                  <div className="p-6 text-center text-[var(--text-muted)]">
+                    <p>No hits yet</p>
+                    <p className="text-xs mt-1">New posts and comments matching your searches show up here</p>
+                  </div>
+                ) : (
+                  <div className="divide-y divide-[var(--border-subtle)]">
+                    {feed.map(hit => (
+                      <FeedItem
+                        key={`${hit.searchId}:${hit.id}`}
+                        hit={hit}
+                        unread={!state.lastViewedAt || hit.foundAt > state.lastViewedAt}
+                        onOpen={() => handleOpen(hit)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
+
+function FeedItem({ hit, unread, onOpen }: { hit: SearchHit; unread: boolean; onOpen: () => void }) {
+  return (
+    <div className={`p-4 ${unread ? 'bg-[var(--accent-primary)]/5' : ''}`}>
+      <div className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+        <span className="px-1.5 py-0.5 rounded bg-[var(--bg-tertiary)] uppercase tracking-wider text-[10px]">
+          {hit.kind}
+        </span>
+        {hit.subreddit && <span className="text-[var(--accent-tertiary)]">r/{hit.subreddit}</span>}
+        <span>u/{hit.author}</span>
+        <span>• {timeAgo(hit.createdAt)}</span>
+      </div>
+
+      <a
+        href={hit.permalink}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block mt-1 hover:underline"
+      >
+        <p className="text-sm text-[var(--text-primary)] line-clamp-2">
+          {hit.kind === 'comment' && hit.title ? `Re: ${hit.title}` : hit.title}
+        </p>
+      </a>
+      {hit.body && (
+        <p className="text-xs text-[var(--text-secondary)] mt-1 line-clamp-3">{truncate(hit.body, 280)}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        {hit.keywords.map(keyword => (
+          <span key={keyword} className="px-1.5 py-0.5 rounded text-[10px] border border-[var(--border-subtle)] text-[var(--text-muted)]">
+            {keyword}
+          </span>
+        ))}
+        {hit.pain.length > 0 && (
+          <span className="flex items-center gap-1 text-[10px] text-[var(--error)]" title={hit.pain.join(', ')}>
+            <FireIcon size={10} />
+            {hit.pain[0]}
+          </span>
+        )}
+        {hit.intent.length > 0 && (
+          <span className="flex items-center gap-1 text-[10px] text-[var(--success)]" title={hit.intent.join(', ')}>
+            <MoneyIcon size={10} />
+            {hit.intent[0]}
+          </span>
+        )}
+        <button
+          onClick={onOpen}
+          className="ml-auto flex items-center gap-1 text-xs text-[var(--accent-primary)] hover:underline"
+          title={hit.kind === 'comment' ? 'Mine this reply chain' : 'Mine this thread'}
+        >
+          <PickaxeIcon size={12} />
+          Mine
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { NormalizedData, SnapshotComment, NumberDelta } from '@/lib/schemas';
+import { getSnapshots, deleteSnapshot, downloadFile, truncate } from '@/lib/utils';
+import { diffSnapshots, diffToMarkdown, diffIsEmpty, formatDelta } from '@/lib/snapshots';
+import { ClockIcon, ChevronRightIcon, DownloadIcon, TrashIcon } from '@/components/icons';
+
+interface SnapshotDiffProps {
+  data: NormalizedData;
+}
+
+const MAX_VISIBLE = 20;
+
+export function SnapshotDiff({ data }: SnapshotDiffProps) {
+  const [snapshots, setSnapshots] = useState(() => getSnapshots(data.thread.id));
+  const [isOpen, setIsOpen] = useState(false);
+  // Indexes into snapshots, oldest first
+  const [fromIndex, setFromIndex] = useState(Math.max(0, snapshots.length - 2));
+  const [toIndex, setToIndex] = useState(snapshots.length - 1);
+
+  const diff = useMemo(
+    () => snapshots.length >= 2 && snapshots[fromIndex] && snapshots[toIndex]
+      ? diffSnapshots(snapshots[fromIndex], snapshots[toIndex])
+      : null,
+    [snapshots, fromIndex, toIndex]
+  );
+
+  if (snapshots.length < 2 || !diff) return null;
+
+  const handleDelete = (index: number) => {
+    deleteSnapshot(data.thread.id, snapshots[index].takenAt);
+    const remaining = snapshots.filter((_, i) => i !== index);
+    setSnapshots(remaining);
+    setFromIndex(Math.max(0, remaining.length - 2));
+    setToIndex(remaining.length - 1);
+  };
+
+  const handleExport = (format: 'json' | 'markdown') => {
+    const slug = data.thread.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .slice(0, 40);
+
+    if (format === 'json') {
+      downloadFile(JSON.stringify(diff, null, 2), `${slug}-changes.json`, 'application/json');
+    } else {
+      downloadFile(diffToMarkdown(diff), `${slug}-changes.md`, 'text/markdown');
+    }
+  };
+
+  const runLabel = (index: number) => new Date(snapshots[index].takenAt).toLocaleString();
+  const summary = [
+    diff.added.length > 0 && `${diff.added.length} new`,
+    diff.removed.length > 0 && `${diff.removed.length} gone`,
+    diff.edited.length > 0 && `${diff.edited.length} edited`,
+    diff.scoreChanges.length > 0 && `${diff.scoreChanges.length} score changes`,
+  ].filter(Boolean).join(' • ') || 'no comment changes';
+
+  return (
+    <div className="mb-6 rounded-xl border-2 border-[var(--border-subtle)] bg-[var(--bg-secondary)] overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-[var(--bg-tertiary)] transition-colors"
+      >
+        <motion.span
+          animate={{ rotate: isOpen ? 90 : 0 }}
+          transition={{ duration: 0.2 }}
+          className="inline-block text-[var(--text-muted)]"
+        >
+          <ChevronRightIcon size={16} />
+        </motion.span>
+        <ClockIcon size={16} className="text-[var(--accent-tertiary)]" />
+        <span className="text-sm font-medium text-[var(--text-primary)]">
+          Changes across {snapshots.length} runs
+        </span>
+        <span className="ml-auto text-xs text-[var(--text-muted)]">{summary}</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="overflow-hidden"
+          >
+            <div className="p-4 pt-1 space-y-5">
+              {/* Run pickers */}
+              <div className="flex flex-wrap items-end gap-3">
+                {([['From', fromIndex, setFromIndex], ['To', toIndex, setToIndex]] as const).map(([label, value, setValue]) => (
+                  <div key={label} className="flex-1 min-w-[180px]">
+                    <label className="block text-xs font-medium text-[var(--text-muted)] mb-2 uppercase tracking-wider">
+                      {label}
+                    </label>
+                    <div className="flex gap-2">
+                      <select
+                        value={value}
+                        onChange={(e) => setValue(parseInt(e.target.value))}
+                        className="input text-sm py-2"
+                      >
+                        {snapshots.map((snapshot, index) => (
+                          <option key={snapshot.takenAt} value={index}>
+                            {runLabel(index)} ({snapshot.comments.length} comments)
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleDelete(value)}
+                        className="p-2 rounded-lg text-[var(--text-muted)] hover:text-[var(--error)] hover:bg-[var(--bg-tertiary)] transition-colors"
+                        title="Delete this run"
+                      >
+                        <TrashIcon size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleExport('json')}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border-2 border-[var(--border-default)] bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:border-[var(--accent-primary)] transition-colors"
+                  >
+                    <DownloadIcon size={14} />
+                    JSON
+                  </button>
+                  <button
+                    onClick={() => handleExport('markdown')}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border-2 border-[var(--border-default)] bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:border-[var(--accent-primary)] transition-colors"
+                  >
+                    <DownloadIcon size={14} />
+                    Markdown
+                  </button>
+                </div>
+              </div>
+
+              {/* Thread deltas */}
+              <div className="grid grid-cols-3 gap-3">
+                <DeltaTile label="Score" delta={diff.thread.score} />
+                <DeltaTile label="Upvote ratio" delta={diff.thread.upvoteRatio} percent />
+                <DeltaTile label="Comments" delta={diff.thread.commentCount} />
+              </div>
+
+              {diffIsEmpty(diff) && (
+                <p className="text-sm text-[var(--text-muted)] text-center py-4">
+                  Nothing changed between these runs
+                </p>
+              )}
+
+              {diff.added.length > 0 && (
+                <DiffSection title="New comments" count={diff.added.length} color="var(--success)">
+                  {diff.added.slice(0, MAX_VISIBLE).map(c => <CommentRow key={c.id} comment={c} />)}
+                </DiffSection>
+              )}
+
+              {diff.removed.length > 0 && (
+                <DiffSection title="Deleted / removed" count={diff.removed.length} color="var(--error)">
+                  {diff.removed.slice(0, MAX_VISIBLE).map(c => (
+                    <CommentRow key={c.id} comment={c} tag={c.reason === 'missing' ? 'not returned' : c.reason} />
+                  ))}
+                </DiffSection>
+              )}
+
+              {diff.edited.length > 0 && (
+                <DiffSection title="Edited" count={diff.edited.length} color="var(--accent-secondary)">
+                  {diff.edited.slice(0, MAX_VISIBLE).map(({ before, after }) => (
+                    <div key={after.id} className="text-sm space-y-1">
+                      <p className="text-xs text-[var(--text-muted)]">u/{after.author}</p>
+                      <p className="text-[var(--text-muted)] line-through line-clamp-2">{before.body}</p>
+                      <p className="text-[var(--text-secondary)] line-clamp-3">{after.body}</p>
+                    </div>
+                  ))}
+                </DiffSection>
+              )}
+
+              {diff.scoreChanges.length > 0 && (
+                <DiffSection title="Score changes" count={diff.scoreChanges.length} color="var(--accent-tertiary)">
+                  {diff.scoreChanges.slice(0, MAX_VISIBLE).map(change => (
+                    <div key={change.comment.id} className="flex items-center gap-3 text-sm">
+                      <span className={`w-14 text-right font-mono shrink-0 ${change.delta > 0 ? 'text-[var(--success)]' : 'text-[var(--error)]'}`}>
+                        {formatDelta(change.delta)}
+                      </span>
+                      <span className="text-xs text-[var(--text-muted)] shrink-0">
+                        {change.before} → {change.after}
+                      </span>
+                      <span className="text-[var(--text-secondary)] truncate">
+                        u/{change.comment.author}: {change.comment.body}
+                      </span>
+                    </div>
+                  ))}
+                </DiffSection>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+function DeltaTile({ label, delta, percent = false }: { label: string; delta: NumberDelta; percent?: boolean }) {
+  const scale = percent ? 100 : 1;
+  const suffix = percent ? '%' : '';
+
+  return (
+    <div className="p-3 rounded-lg bg-[var(--bg-tertiary)]">
+      <p className="text-xs text-[var(--text-muted)] uppercase tracking-wider">{label}</p>
+      <p className="font-mono text-[var(--text-primary)] mt-1">
+        {Math.round(delta.after * scale)}{suffix}
+        <span className={`ml-2 text-xs ${delta.delta > 0 ? 'text-[var(--success)]' : delta.delta < 0 ? 'text-[var(--error)]' : 'text-[var(--text-muted)]'}`}>
+          {formatDelta(delta.delta * scale)}{percent ? ' pts' : ''}
+        </span>
+      </p>
+    </div>
+  );
+}
+
+function DiffSection({ title, count, color, children }: {
+  title: string;
+  count: number;
+  color: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div>
+      <h4 className="text-xs font-medium uppercase tracking-wider mb-2" style={{ color }}>
+        {title} ({count})
+      </h4>
+      <div className="space-y-2 pl-3 border-l-2" style={{ borderColor: color }}>
+        {children}
+        {count > MAX_VISIBLE && (
+          <p className="text-xs text-[var(--text-muted)]">+{count - MAX_VISIBLE} more in the export</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CommentRow({ comment, tag }: { comment: SnapshotComment; tag?: string }) {
+  return (
+    <a
+      href={comment.permalink}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="block text-sm hover:bg-[var(--bg-tertiary)] rounded px-1 -mx-1 transition-colors"
+    >
+      <span className="text-xs text-[var(--text-muted)]">
+        u/{comment.author} • {comment.score} points
+        {tag && <span className="ml-2 uppercase">{tag}</span>}
+      </span>
+      <span className="block text-[var(--text-secondary)]">{truncate(comment.body, 240)}</span>
+    </a>
+  );
+}
@@ -5,17 +5,19 @@ import { motion } from 'framer-motion';
 
 interface StatsTileProps {
   label: string;
-  value: number;
+  value: number | null; // null renders a dash - nothing to measure
+  suffix?: string;
   icon: React.ReactNode;
   color?: 'orange' | 'yellow' | 'teal' | 'purple';
   delay?: number;
 }
 
-export function StatsTile({ label, value, icon, color = 'orange', delay = 0 }: StatsTileProps) {
+export function StatsTile({ label, value, suffix, icon, color = 'orange', delay = 0 }: StatsTileProps) {
   const [displayValue, setDisplayValue] = useState(0);
 
   // Count-up animation
   useEffect(() => {
+    if (value === null) return;
     const duration = 1000;
     const steps = 30;
     const increment = value / steps;
@@ -58,7 +60,8 @@ export function StatsTile({ label, value, icon, color = 'orange', delay = 0 }: S
         key={displayValue}
         className="text-3xl font-bold font-mono"
       >
-        {displayValue.toLocaleString()}
+        {value === null ? '–' : displayValue.toLocaleString()}
+        {value !== null && suffix && <span className="text-lg ml-0.5">{suffix}</span>}
       </motion.span>
       <span className="text-xs text-[var(--text-muted)] uppercase tracking-wider mt-1">
         {label}
@@ -84,6 +87,17 @@ export const StatsIcons = {
       <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M7 10l5 5 5-5M12 15V3" />
     </svg>
   ),
+  clock: (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <circle cx="12" cy="12" r="9" />
+      <path d="M12 7v5l3 3" />
+    </svg>
+  ),
+  reply: (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M9 14L4 9l5-5M4 9h11a5 5 0 0 1 5 5v6" />
+    </svg>
+  ),
   depth: (
     <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
       <path d="M3 3v18h18M9 17V9M13 17V5M17 17v-3" />
@@ -1,11 +1,17 @@
 'use client';
 
+import Image from 'next/image';
 import { NormalizedData } from '@/lib/schemas';
+import { pollShare } from '@/lib/reddit';
+import { formatDuration, formatNumber } from '@/lib/utils';
+import { ChevronRightIcon, LayersIcon } from '@/components/icons';
 
 interface ThreadHeaderProps {
   thread: NormalizedData['thread'];
 }
 
+const MAX_THUMBNAILS = 4;
+
 export function ThreadHeader({ thread }: ThreadHeaderProps) {
   return (
     <div className="p-5 rounded-xl bg-[var(--bg-secondary)] border-2 border-[var(--border-subtle)]">
@@ -14,6 +20,11 @@ export function ThreadHeader({ thread }: ThreadHeaderProps) {
         <span className="px-2 py-0.5 bg-[var(--accent-tertiary)] text-[var(--text-inverse)] rounded font-medium text-xs">
           r/{thread.subreddit}
         </span>
+        {thread.postType !== 'text' && (
+          <span className="px-2 py-0.5 bg-[var(--bg-tertiary)] text-[var(--text-secondary)] rounded text-xs uppercase tracking-wider">
+            {thread.postType}
+          </span>
+        )}
         <span>•</span>
         <span>{thread.commentCount.toLocaleString()} comments</span>
         <span>•</span>
@@ -41,7 +52,112 @@ export function ThreadHeader({ thread }: ThreadHeaderProps) {
           </span>
         </div>
       )}
+
+      {/* Crosspost source */}
+      {thread.crosspostOf && (
+        <a
+          href={thread.crosspostOf.permalink}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 mt-3 text-xs text-[var(--text-muted)] hover:text-[var(--text-secondary)]"
+        >
+          <ChevronRightIcon size={12} />
+          <span className="shrink-0">Crossposted from</span>
+          <span className="text-[var(--accent-tertiary)] shrink-0">r/{thread.crosspostOf.subreddit}</span>
+          <span className="truncate">{thread.crosspostOf.title}</span>
+          <span className="shrink-0">• {formatNumber(thread.crosspostOf.score)} pts</span>
+        </a>
+      )}
+
+      {/* Link preview */}
+      {thread.link && (
+        <a
+          href={thread.link.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-3 mt-3 p-2 rounded-lg bg-[var(--bg-tertiary)] hover:bg-[var(--bg-elevated)] transition-colors"
+        >
+          {thread.link.image && (
+            <div className="relative w-16 h-12 rounded overflow-hidden shrink-0">
+              <Image src={thread.link.image} alt="" fill unoptimized className="object-cover" />
+            </div>
+          )}
+          <div className="min-w-0">
+            <p className="text-xs text-[var(--accent-tertiary)]">{thread.link.domain}</p>
+            <p className="text-sm text-[var(--text-secondary)] truncate">{thread.link.title || thread.link.url}</p>
+          </div>
+        </a>
+      )}
+
+      {/* Images and galleries */}
+      {thread.images.length > 0 && (
+        <div className="grid grid-cols-4 gap-2 mt-3">
+          {thread.images.slice(0, MAX_THUMBNAILS).map((image, index) => (
+            <a
+              key={image.url}
+              href={image.link || image.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="relative h-20 rounded-lg overflow-hidden bg-[var(--bg-tertiary)]"
+              title={image.caption || undefined}
+            >
+              <Image src={image.url} alt={image.caption || `Image ${index + 1}`} fill unoptimized className="object-cover" />
+              {index === MAX_THUMBNAILS - 1 && thread.images.length > MAX_THUMBNAILS && (
+                <span className="absolute inset-0 flex items-center justify-center gap-1 bg-black/60 text-white text-sm font-medium">
+                  <LayersIcon size={14} />
+                  +{thread.images.length - MAX_THUMBNAILS}
+                </span>
+              )}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {/* Reddit-hosted video */}
+      {thread.video && thread.video.provider === 'reddit' && (
+        <a
+          href={thread.video.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-2 mt-3 px-3 py-1.5 rounded-lg bg-[var(--bg-tertiary)] text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+        >
+          ▶ {thread.video.isGif ? 'GIF' : 'Video'}
+          {thread.video.duration ? ` • ${formatDuration(thread.video.duration)}` : ''}
+          {thread.video.width && thread.video.height ? ` • ${thread.video.width}×${thread.video.height}` : ''}
+        </a>
+      )}
+
+      {/* Poll results */}
+      {thread.poll && (
+        <div className="mt-4 space-y-2">
+          {thread.poll.options.map(option => {
+            const share = pollShare(thread.poll!, option.votes);
+            return (
+              <div key={option.id} className="relative rounded-lg overflow-hidden bg-[var(--bg-tertiary)]">
+                <div
+                  className="absolute inset-y-0 left-0 bg-[var(--accent-primary)]/25"
+                  style={{ width: `${share ?? 0}%` }}
+                />
+                <div className="relative flex items-center justify-between gap-3 px-3 py-1.5 text-sm">
+                  <span className="text-[var(--text-primary)]">{option.text}</span>
+                  <span className="font-mono text-xs text-[var(--text-muted)] shrink-0">
+                    {option.votes === null ? 'hidden' : `${option.votes.toLocaleString()} • ${share}%`}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+          <p className="text-xs text-[var(--text-muted)]">
+            {thread.poll.totalVotes.toLocaleString()} votes
+            {/* Reddit only reveals per-option counts once voting has closed */}
+            {thread.poll.endsAt && (
+              thread.poll.options.some(o => o.votes !== null)
+                ? ` • closed ${new Date(thread.poll.endsAt).toLocaleDateString()}`
+                : ` • closes ${new Date(thread.poll.endsAt).toLocaleDateString()}, per-option votes hidden until then`
+            )}
+          </p>
+        </div>
+      )}
     </div>
   );
 }
-
@@ -0,0 +1,113 @@
+'use client';
+
+import { useMinerStore } from '@/lib/store';
+import { ThreadSearchResult } from '@/lib/search';
+import { SearchIcon, ChevronDownIcon, CloseIcon } from '@/components/icons';
+
+interface ThreadSearchBarProps {
+  result: ThreadSearchResult;
+  canNavigate: boolean; // only the Markdown preview highlights matches
+}
+
+export function ThreadSearchBar({ result, canNavigate }: ThreadSearchBarProps) {
+  const { threadSearch, setThreadSearch, searchIndex, setSearchIndex } = useMinerStore();
+  const total = result.matches.length;
+  const current = total > 0 ? Math.min(searchIndex, total - 1) : 0;
+
+  const step = (delta: number) => {
+    if (total === 0) return;
+    setSearchIndex((current + delta + total) % total);
+  };
+
+  const toggleClass = (active: boolean) => `
+    px-2 py-1 rounded font-mono text-xs border transition-colors
+    ${active
+      ? 'border-[var(--accent-primary)] text-[var(--accent-primary)]'
+      : 'border-[var(--border-subtle)] text-[var(--text-muted)] hover:text-[var(--text-secondary)]'
+    }
+  `;
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <SearchIcon size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
+          <input
+            value={threadSearch.text}
+            onChange={(e) => setThreadSearch({ text: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') step(e.shiftKey ? -1 : 1);
+              if (e.key === 'Escape') setThreadSearch({ text: '' });
+            }}
+            placeholder="Find in thread: comment text or author"
+            className="input text-sm py-2 pl-9 pr-8"
+            spellCheck={false}
+          />
+          {threadSearch.text && (
+            <button
+              onClick={() => setThreadSearch({ text: '' })}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)]"
+              title="Clear search"
+            >
+              <CloseIcon size={14} />
+            </button>
+          )}
+        </div>
+
+        <button
+          onClick={() => setThreadSearch({ caseSensitive: !threadSearch.caseSensitive })}
+          className={toggleClass(threadSearch.caseSensitive)}
+          title="Match case"
+        >
+          Aa
+        </button>
+        <button
+          onClick={() => setThreadSearch({ regex: !threadSearch.regex })}
+          className={toggleClass(threadSearch.regex)}
+          title="Regular expression"
+        >
+          .*
+        </button>
+
+        {canNavigate && (
+          <div className="flex items-center">
+            <button
+              onClick={() => step(-1)}
+              disabled={total === 0}
+              className="p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)] disabled:opacity-40"
+              title="Previous match (Shift+Enter)"
+            >
+              <ChevronDownIcon size={16} className="rotate-180" />
+            </button>
+            <button
+              onClick={() => step(1)}
+              disabled={total === 0}
+              className="p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)] disabled:opacity-40"
+              title="Next match (Enter)"
+            >
+              <ChevronDownIcon size={16} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {threadSearch.text && (
+        <p className={`mt-1 text-xs ${result.error ? 'text-[var(--error)]' : 'text-[var(--text-muted)]'}`}>
+          {result.error
+            ? result.error
+            : total === 0
+              ? 'No matches'
+              : <>
+                  <span className="font-mono text-[var(--text-secondary)]">
+                    {canNavigate ? `${current + 1} / ` : ''}{total}{result.truncated ? '+' : ''}
+                  </span>
+                  {' '}match{total === 1 ? '' : 'es'} in {result.commentIds.size} comment{result.commentIds.size === 1 ? '' : 's'}
+                  {' • exports include only these comments'}
+                  {!canNavigate && ' • switch to MD to step through them'}
+                </>
+          }
+        </p>
+      )}
+    </div>
+  );
+}
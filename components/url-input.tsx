@@ -3,12 +3,13 @@
 import { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useMinerStore } from '@/lib/store';
-import { isValidRedditUrl } from '@/lib/reddit';
+import { isValidRedditUrl, isListingUrl, isUserUrl, isShareUrl, parseRedditUrl } from '@/lib/reddit';
 
 // Validation result type
 interface ValidationResult {
   valid: boolean;
   message: string | null;
+  kind?: 'thread' | 'comment' | 'share' | 'listing' | 'user';
 }
 
 // Validate Reddit URL with specific feedback
@@ -27,13 +28,39 @@ function validateRedditUrl(url: string): ValidationResult {
   }
 
   // Check if it's Reddit
-  if (!url.includes('reddit.com')) {
+  if (!url.includes('reddit.com') && !url.includes('redd.it')) {
     return { valid: false, message: 'This doesn\'t look like a Reddit URL' };
   }
 
-  // Check if it's a subreddit page (not a thread)
+  // Subreddit listings and searches mine many threads at once
+  if (isListingUrl(url)) {
+    return { valid: true, message: null, kind: 'listing' };
+  }
+
+  // Profiles page through the user's own comments and posts
+  if (isUserUrl(url)) {
+    return { valid: true, message: null, kind: 'user' };
+  }
+
+  // redd.it, share links, mobile hosts and comment permalinks all canonicalize
+  if (isShareUrl(url)) {
+    return { valid: true, message: null, kind: 'share' };
+  }
+  if (isValidRedditUrl(url)) {
+    return { valid: true, message: null, kind: parseRedditUrl(url)?.commentId ? 'comment' : 'thread' };
+  }
+
+  if (url.includes('/search') && !url.includes('q=')) {
+    return { valid: false, message: 'Add a search query (?q=...) to mine search results' };
+  }
+
+  // Check if it's a subreddit page we can't page through
   if (url.includes('/r/') && !url.includes('/comments/')) {
-    return { valid: false, message: 'This is a subreddit page. Paste a specific thread URL' };
+    return { valid: false, message: 'Paste a thread URL, a subreddit listing (/r/name/top) or a search URL' };
+  }
+
+  if (/\/u(ser)?\//.test(url)) {
+    return { valid: false, message: 'Paste a profile URL (/user/name, /comments or /submitted)' };
   }
 
   // Check if it's a thread URL
@@ -41,14 +68,17 @@ function validateRedditUrl(url: string): ValidationResult {
     return { valid: false, message: 'Paste a Reddit thread URL (should contain /comments/)' };
   }
 
-  // Use the same validation as the button
-  if (!isValidRedditUrl(url)) {
-    return { valid: false, message: 'Invalid Reddit thread URL format' };
-  }
-
-  return { valid: true, message: null };
+  return { valid: false, message: 'Invalid Reddit thread URL format' };
 }
 
+const SUCCESS_HINTS: Record<NonNullable<ValidationResult['kind']>, string> = {
+  thread: '✓ Valid Reddit thread URL',
+  comment: '✓ Comment link - mines that reply chain with its parent comments',
+  share: '✓ Share link - resolved to its thread when you mine',
+  listing: '✓ Subreddit listing - mines the top threads into one dataset',
+  user: '✓ User profile - mines their recent comments and posts',
+};
+
 export function URLInput() {
   const { url, setUrl, isLoading } = useMinerStore();
   const [isFocused, setIsFocused] = useState(false);
@@ -82,7 +112,7 @@ export function URLInput() {
     <div className="relative w-full">
       {/* Label */}
       <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2 uppercase tracking-wider">
-        Reddit Thread URL
+        Reddit Thread, Subreddit or User URL
       </label>
       
       {/* Input container */}
@@ -182,7 +212,7 @@ export function URLInput() {
             exit={{ opacity: 0, y: -4 }}
             className="text-sm text-[var(--success)] mt-2"
           >
-            ✓ Valid Reddit thread URL
+            {SUCCESS_HINTS[validation.kind || 'thread']}
           </motion.p>
         )}
       </AnimatePresence>
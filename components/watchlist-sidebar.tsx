@@ -0,0 +1,280 @@
+'use client';
+
+import { useState, useEffect, useSyncExternalStore } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { NormalizedData, WatchHit } from '@/lib/schemas';
+import { watchlist, POLL_INTERVALS } from '@/lib/watchlist';
+import { timeAgo, truncate } from '@/lib/utils';
+import { TargetIcon, FireIcon, MoneyIcon, ShieldIcon, TrashIcon, CloseIcon, ClockIcon } from '@/components/icons';
+
+const HIT_STYLES: Record<WatchHit['kind'], { label: string; color: string; icon: React.ReactNode }> = {
+  pain: { label: 'Pain', color: 'var(--error)', icon: <FireIcon size={12} /> },
+  intent: { label: 'Intent', color: 'var(--success)', icon: <MoneyIcon size={12} /> },
+  shill: { label: 'Shill', color: 'var(--accent-secondary)', icon: <ShieldIcon size={12} /> },
+};
+
+function useWatchlist() {
+  return useSyncExternalStore(watchlist.subscribe, watchlist.getState, watchlist.getServerState);
+}
+
+// Pin/unpin toggle for the results header
+export function WatchButton({ data }: { data: NormalizedData }) {
+  const { threads } = useWatchlist();
+  const isWatched = threads.some(t => t.threadId === data.thread.id);
+
+  return (
+    <motion.button
+      onClick={() => (isWatched ? watchlist.remove(data.thread.id) : watchlist.add(data))}
+      whileHover={{ scale: 1.02 }}
+      whileTap={{ scale: 0.98 }}
+      className={`
+        flex items-center gap-2 px-3 py-2 rounded-lg font-medium text-sm
+        border-2 transition-colors duration-150
+        ${isWatched
+          ? 'bg-[var(--accent-tertiary)] border-[var(--accent-tertiary)] text-[var(--text-inverse)]'
+          : 'bg-[var(--bg-secondary)] border-[var(--border-default)] text-[var(--text-secondary)] hover:border-[var(--accent-tertiary)] hover:text-[var(--accent-tertiary)]'
+        }
+      `}
+      title={isWatched ? 'Stop watching this thread' : 'Re-poll this thread for new signals'}
+    >
+      <TargetIcon size={16} />
+      {isWatched ? 'Watching' : 'Watch'}
+    </motion.button>
+  );
+}
+
+export function WatchlistSidebar() {
+  const [isOpen, setIsOpen] = useState(false);
+  const state = useWatchlist();
+  const unread = state.threads.reduce((sum, t) => sum + t.hits.length, 0);
+
+  // Poll while the app is open, whether or not the sidebar is
+  useEffect(() => watchlist.start(), []);
+
+  if (state.threads.length === 0 && !isOpen) {
+    return null;
+  }
+
+  return (
+    <>
+      {/* Toggle button - sits above the history button */}
+      <motion.button
+        onClick={() => setIsOpen(!isOpen)}
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        className={`
+          fixed bottom-24 left-6 z-40 p-3 rounded-full shadow-lg
+          transition-colors duration-200
+          ${isOpen
+            ? 'bg-[var(--accent-tertiary)] text-[var(--text-inverse)]'
+            : 'bg-[var(--bg-elevated)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
+          }
+          border-2 border-[var(--border-default)]
+        `}
+        title="Watchlist"
+      >
+        <TargetIcon size={20} />
+        {unread > 0 && !isOpen && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-[var(--error)] text-[var(--text-inverse)] text-xs rounded-full flex items-center justify-center">
+            {unread}
+          </span>
+        )}
+      </motion.button>
+
+      {/* New hits toast */}
+      <AnimatePresence>
+        {state.alert && !isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="fixed bottom-6 right-6 z-40 w-80 max-w-[90vw] p-4 rounded-xl shadow-lg
+              bg-[var(--bg-elevated)] border-2 border-[var(--accent-tertiary)]"
+          >
+            <div className="flex items-start gap-3">
+              <TargetIcon size={18} className="text-[var(--accent-tertiary)] shrink-0 mt-0.5" />
+              <button
+                onClick={() => {
+                  setIsOpen(true);
+                  watchlist.dismissAlert();
+                }}
+                className="flex-1 text-left"
+              >
+                <p className="text-sm font-medium text-[var(--text-primary)]">
+                  {state.alert.hits.length} new signal{state.alert.hits.length === 1 ? '' : 's'}
+                </p>
+                <p className="text-xs text-[var(--text-muted)] mt-0.5 line-clamp-1">{state.alert.title}</p>
+                <div className="flex gap-2 mt-2">
+                  {(['pain', 'intent', 'shill'] as const).map(kind => {
+                    const count = state.alert!.hits.filter(h => h.kind === kind).length;
+                    return count > 0 && (
+                      <span key={kind} className="flex items-center gap-1 text-xs" style={{ color: HIT_STYLES[kind].color }}>
+                        {HIT_STYLES[kind].icon}
+                        {count} {HIT_STYLES[kind].label.toLowerCase()}
+                      </span>
+                    );
+                  })}
+                </div>
+              </button>
+              <button
+                onClick={watchlist.dismissAlert}
+                className="p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+              >
+                <CloseIcon size={14} />
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Sidebar panel */}
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            {/* Backdrop */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setIsOpen(false)}
+              className="fixed inset-0 bg-black/50 z-40"
+            />
+
+            {/* Panel */}
+            <motion.div
+              initial={{ x: '-100%' }}
+              animate={{ x: 0 }}
+              exit={{ x: '-100%' }}
+              transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+              className="fixed left-0 top-0 bottom-0 w-96 max-w-[90vw] z-50
+                bg-[var(--bg-secondary)] border-r-2 border-[var(--border-default)]
+                flex flex-col"
+            >
+              {/* Header */}
+              <div className="p-4 border-b-2 border-[var(--border-subtle)]">
+                <div className="flex items-center justify-between">
+                  <h2 className="font-semibold text-[var(--text-primary)]">Watchlist</h2>
+                  <button
+                    onClick={() => setIsOpen(false)}
+                    className="p-1 hover:bg-[var(--bg-tertiary)] rounded transition-colors text-[var(--text-muted)]"
+                  >
+                    <CloseIcon size={20} />
+                  </button>
+                </div>
+                <label className="flex items-center gap-2 mt-3 text-xs text-[var(--text-muted)] cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={state.notify}
+                    onChange={(e) => watchlist.setNotify(e.target.checked)}
+                    className="accent-[var(--accent-primary)]"
+                  />
+                  Browser notifications for new signals
+                </label>
+              </div>
+
+              {/* Watched threads */}
+              <div className="flex-1 overflow-y-auto">
+                {state.threads.length === 0 ? (
+                  <div className="p-6 text-center text-[var(--text-muted)]">
+                    <p>No watched threads</p>
+                    <p className="text-xs mt-1">Mine a thread and hit Watch to re-poll it here</p>
+                  </div>
+                ) : (
+                  <div className="divide-y divide-[var(--border-subtle)]">
+                    {state.threads.map(thread => (
+                      <div key={thread.threadId} className="p-4">
+                        <div className="flex items-start justify-between gap-2">
+                          <a
+                            href={thread.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="min-w-0"
+                          >
+                            <span className="text-[var(--accent-tertiary)] text-xs font-medium">
+                              r/{thread.subreddit}
+                            </span>
+                            <p className="text-sm text-[var(--text-primary)] mt-0.5 line-clamp-2 hover:underline">
+                              {thread.title}
+                            </p>
+                          </a>
+                          <button
+                            onClick={() => watchlist.remove(thread.threadId)}
+                            className="p-1 text-[var(--text-muted)] hover:text-[var(--error)] transition-colors shrink-0"
+                            title="Stop watching"
+                          >
+                            <TrashIcon size={14} />
+                          </button>
+                        </div>
+
+                        <div className="flex items-center gap-2 mt-2 text-xs text-[var(--text-muted)]">
+                          <ClockIcon size={12} />
+                          <select
+                            value={thread.intervalMinutes}
+                            onChange={(e) => watchlist.setPollInterval(thread.threadId, parseInt(e.target.value))}
+                            className="bg-transparent border border-[var(--border-subtle)] rounded px-1 py-0.5"
+                          >
+                            {POLL_INTERVALS.map(minutes => (
+                              <option key={minutes} value={minutes}>every {minutes} min</option>
+                            ))}
+                          </select>
+                          <span>•</span>
+                          {state.pollingId === thread.threadId ? (
+                            <span className="text-[var(--accent-tertiary)]">polling...</span>
+                          ) : (
+                            <button
+                              onClick={() => watchlist.pollNow(thread.threadId)}
+                              disabled={state.pollingId !== null}
+                              className="hover:text-[var(--text-secondary)] disabled:opacity-50"
+                              title="Poll now"
+                            >
+                              {thread.lastPolledAt ? `checked ${timeAgo(thread.lastPolledAt)}` : 'not checked yet'}
+                            </button>
+                          )}
+                        </div>
+
+                        {thread.lastError && (
+                          <p className="text-xs text-[var(--error)] mt-2">{thread.lastError}</p>
+                        )}
+
+                        {thread.hits.length > 0 && (
+                          <div className="mt-3 space-y-2">
+                            {thread.hits.map(hit => (
+                              <a
+                                key={`${hit.kind}:${hit.commentId}`}
+                                href={hit.permalink}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="block p-2 rounded-lg bg-[var(--bg-tertiary)] hover:bg-[var(--bg-elevated)] transition-colors"
+                              >
+                                <span className="flex items-center gap-1 text-xs" style={{ color: HIT_STYLES[hit.kind].color }}>
+                                  {HIT_STYLES[hit.kind].icon}
+                                  {HIT_STYLES[hit.kind].label}
+                                  <span className="text-[var(--text-muted)] ml-1">
+                                    {hit.signals.join(', ')} • u/{hit.author} • {timeAgo(hit.foundAt)}
+                                  </span>
+                                </span>
+                                <span className="block text-xs text-[var(--text-secondary)] mt-1">
+                                  {truncate(hit.body, 160)}
+                                </span>
+                              </a>
+                            ))}
+                            <button
+                              onClick={() => watchlist.markRead(thread.threadId)}
+                              className="text-xs text-[var(--text-muted)] hover:text-[var(--text-secondary)]"
+                            >
+                              Mark {thread.hits.length} as read
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
@@ -5,7 +5,8 @@
 // buying intent, solutions & shill detection
 // ============================================
 
-import { NormalizedComment } from './schemas';
+import { NormalizedComment, NormalizedProfile } from './schemas';
+import { classifyWithLocalModel, LocalClassification } from './local-model';
 
 // ============================================
 // Types
@@ -21,6 +22,9 @@ export interface AnalyzedComment {
   shillScore: number;
   shillReasons: string[];
   relevanceScore: number;
+  roles: string[]; // self-described roles ("I'm a developer")
+  objections: string[]; // reasons given for not buying
+  modelLabels?: LocalClassification['labels']; // zero-shot scores when the local model ran
 }
 
 export interface AIAnalysisResult {
@@ -28,6 +32,8 @@ export interface AIAnalysisResult {
   intents: AnalyzedComment[];
   solutions: AnalyzedComment[];
   shillWarnings: AnalyzedComment[];
+  selfDescribed: AnalyzedComment[]; // every comment with a role, unsliced for persona sizing
+  objections: AnalyzedComment[]; // every comment with an objection, unsliced for frequencies
   topByEngagement: AnalyzedComment[];
   summary: {
     totalAnalyzed: number;
@@ -61,6 +67,9 @@ const PAIN_PATTERNS = [
   { pattern: /\b(overpriced|expensive|not worth)/i, weight: 3, signal: 'price complaint' },
 ];
 
+// Signal labels that mark a pain point (as opposed to intent/solution signals)
+export const PAIN_SIGNALS = PAIN_PATTERNS.map(p => p.signal);
+
 const INTENT_PATTERNS = [
   { pattern: /\b(should i (buy|get|switch|try)|worth (it|buying|the price|getting))/i, weight: 4, signal: 'purchase decision' },
   { pattern: /\b(looking for|searching for|need a|want a)\s+\w+/i, weight: 3, signal: 'searching' },
@@ -73,6 +82,8 @@ const INTENT_PATTERNS = [
   { pattern: /\b(budget|price range|under \$?\d+)/i, weight: 2, signal: 'budget conscious' },
 ];
 
+export const INTENT_SIGNALS = INTENT_PATTERNS.map(p => p.signal);
+
 const SOLUTION_PATTERNS = [
   { pattern: /\bi (use|switched to|recommend|love using)\s+/i, weight: 2, signal: 'personal use' },
   { pattern: /\b(solved|fixed|works great|game changer)/i, weight: 3, signal: 'solution found' },
@@ -82,6 +93,36 @@ const SOLUTION_PATTERNS = [
   { pattern: /\b(been using|for \d+ (years?|months?))/i, weight: 2, signal: 'long-term use' },
 ];
 
+// WHO IS TALKING - self-descriptions, keyed by persona label
+const ROLE_PATTERNS = [
+  { pattern: /\b(i'm|i am|as) an? (software |web |backend |frontend |full[- ]?stack )?(developer|engineer|programmer|dev)\b/i, role: 'developer' },
+  { pattern: /\b(i'm|i am|as) an? (solo |first[- ]time )?(founder|co-?founder|entrepreneur|solopreneur)\b|\bmy (startup|saas)\b/i, role: 'founder' },
+  { pattern: /\b(i|we) (run|own) an? (small )?(business|shop|store|agency|restaurant)|\bsmall business owner/i, role: 'small business owner' },
+  { pattern: /\b(i'm|i am|as) an? (freelancer|contractor|consultant)\b|\bi freelance\b/i, role: 'freelancer' },
+  { pattern: /\b(i'm|i am|as) an? (\w+ )?designer\b/i, role: 'designer' },
+  { pattern: /\b(i'm|i am|as) an? (\w+ )?(marketer|marketing manager)\b|\bi work in marketing\b/i, role: 'marketer' },
+  { pattern: /\b(i'm|i am|as) an? (sysadmin|it admin)\b|\bi work in it\b/i, role: 'IT admin' },
+  { pattern: /\b(i manage|i lead) (a|my|our) team\b|\b(i'm|i am|as) an? (engineering |product )?manager\b/i, role: 'team lead' },
+  { pattern: /\b(i'm|i am|as) an? (college |grad |university |high school )?student\b/i, role: 'student' },
+  { pattern: /\bas an? (parent|mom|dad)\b|\bmy (kids|son|daughter)\b/i, role: 'parent' },
+  { pattern: /\b(i'm|i am) (new to|a beginner|just starting)/i, role: 'beginner' },
+  { pattern: /\b(been using (it|this) for|for \d+ years? now)\b/i, role: 'long-time user' },
+];
+
+// WHY THEY WON'T BUY
+const OBJECTION_PATTERNS = [
+  { pattern: /\b(too expensive|overpriced|can't afford|not worth (the|it)|pricey)\b/i, reason: 'too expensive' },
+  { pattern: /\b(another subscription|subscription fatigue|hate subscriptions|monthly fee|no one-time)/i, reason: 'subscription pricing' },
+  { pattern: /\b(privacy|data collection|tracking|telemetry|sells? (my|your|our) data)\b/i, reason: 'privacy concerns' },
+  { pattern: /\b(security (issue|concern|hole)s?|breach|vulnerab\w*|got hacked)\b/i, reason: 'security concerns' },
+  { pattern: /\b(learning curve|too complicated|too complex|hard to (use|learn|set up)|confusing)\b/i, reason: 'too complicated' },
+  { pattern: /\b(lock-?in|locked in|proprietary|can't export)\b/i, reason: 'vendor lock-in' },
+  { pattern: /\b(unreliable|downtime|outages?|keeps crashing)\b/i, reason: 'reliability' },
+  { pattern: /\b(customer (support|service) (is|was) (bad|terrible|awful|useless|nonexistent)|no (customer|tech|human) (support|service)|no support(?! for)|support (never|doesn't|didn't|won't) (respond|reply|answer|get back)\w*)\b/i, reason: 'poor support' },
+  { pattern: /\b(don't need|no need for|free alternative|spreadsheet works|do it myself)\b/i, reason: 'good-enough alternatives' },
+  { pattern: /\b((is|are|still) missing|lacks?|doesn't have|no) (a |an |any )?(basic |key |core |real )?(features?|integrations?|api|dark mode|offline mode|export|sso)\b|\b(doesn't|does not|won't) support\b|\bno support for\b/i, reason: 'missing features' },
+];
+
 // SHILL DETECTION
 const SHILL_INDICATORS = [
   { pattern: /\b(affiliate|referral|promo code|discount code|use my link)/i, weight: 5, reason: 'Affiliate/referral link' },
@@ -110,6 +151,22 @@ function detectPatterns(
   return { score, signals };
 }
 
+// Pain and intent signals for a bare piece of text, outside a full thread analysis
+export function classifySignals(text: string): { pain: string[]; intent: string[] } {
+  return {
+    pain: detectPatterns(text, PAIN_PATTERNS).signals,
+    intent: detectPatterns(text, INTENT_PATTERNS).signals,
+  };
+}
+
+function detectLabels<K extends 'role' | 'reason'>(
+  body: string,
+  patterns: Array<{ pattern: RegExp } & Record<K, string>>,
+  key: K
+): string[] {
+  return patterns.filter(p => p.pattern.test(body)).map(p => p[key]);
+}
+
 function detectShillIndicators(body: string): { score: number; reasons: string[] } {
   let score = 0;
   const reasons: string[] = [];
@@ -150,6 +207,96 @@ function inferSentimentFromPatterns(
   return { label: 'neutral', score: 0.5 };
 }
 
+// Pattern sentiment for one comment, synchronous - no local model pass
+export function classifySentiment(text: string): AnalyzedComment['sentiment'] {
+  return inferSentimentFromPatterns(
+    detectPatterns(text, PAIN_PATTERNS).score,
+    detectPatterns(text, SOLUTION_PATTERNS).score,
+    text
+  );
+}
+
+// ============================================
+// Account-Level Shill Evidence
+// ============================================
+
+const NEW_ACCOUNT_DAYS = 30;
+const YOUNG_ACCOUNT_DAYS = 180;
+const SELF_PROMO_SHARE = 0.2;
+const DOMAIN_SHARE = 0.5;
+const MIN_LINK_POSTS = 3;
+const CONCENTRATION_SHARE = 0.8;
+const MIN_CONCENTRATION_ITEMS = 10;
+
+/**
+ * What a mined profile says about an author, scored on the same scale as
+ * detectShillIndicators so the two can be added: a young account, a large
+ * share of promotional comments/posts, link posts that all point at one
+ * domain, or activity concentrated in one subreddit.
+ */
+export function detectAccountShillIndicators(profile: NormalizedProfile): { score: number; reasons: string[] } {
+  const { user, stats } = profile;
+  let score = 0;
+  const reasons: string[] = [];
+  
+  if (user.accountAgeDays !== null && user.accountAgeDays < NEW_ACCOUNT_DAYS) {
+    score += 3;
+    reasons.push(`Account is ${user.accountAgeDays} days old`);
+  } else if (user.accountAgeDays !== null && user.accountAgeDays < YOUNG_ACCOUNT_DAYS) {
+    score += 1;
+    reasons.push(`Account is ${Math.round(user.accountAgeDays / 30)} months old`);
+  }
+  
+  const items = [
+    ...profile.comments.map(c => c.plainText),
+    ...profile.posts.map(p => `${p.title}\n${p.body}`),
+  ];
+  const promotional = items.filter(text => detectShillIndicators(text).score >= 3).length;
+  if (items.length > 0 && promotional / items.length >= SELF_PROMO_SHARE) {
+    score += 4;
+    reasons.push(`${Math.round((promotional / items.length) * 100)}% of activity is self-promotional`);
+  }
+  
+  const linkPosts = stats.linkDomains.reduce((sum, d) => sum + d.posts, 0);
+  const topDomain = stats.linkDomains[0];
+  if (topDomain && linkPosts >= MIN_LINK_POSTS && topDomain.posts / linkPosts >= DOMAIN_SHARE) {
+    score += 3;
+    reasons.push(`${Math.round((topDomain.posts / linkPosts) * 100)}% of link posts go to ${topDomain.domain}`);
+  }
+  
+  const activity = stats.totalComments + stats.totalPosts;
+  const topSubreddit = stats.subreddits[0];
+  if (topSubreddit && activity >= MIN_CONCENTRATION_ITEMS) {
+    const share = (topSubreddit.comments + topSubreddit.posts) / activity;
+    if (share >= CONCENTRATION_SHARE) {
+      score += 2;
+      reasons.push(`${Math.round(share * 100)}% of activity is in r/${topSubreddit.name}`);
+    }
+  }
+  
+  return { score, reasons };
+}
+
+// ============================================
+// Local Model Mapping
+// ============================================
+
+// SST-2 is binary, so low-confidence calls are treated as neutral
+const MODEL_SENTIMENT_THRESHOLD = 0.8;
+const MODEL_LABEL_THRESHOLD = 0.6;
+const MODEL_LABEL_WEIGHT = 3;
+
+function sentimentFromModel(model: LocalClassification): AnalyzedComment['sentiment'] {
+  if (model.sentiment.score < MODEL_SENTIMENT_THRESHOLD) {
+    return { label: 'neutral', score: model.sentiment.score };
+  }
+  return model.sentiment;
+}
+
+function modelLabelHit(analyzed: AnalyzedComment, label: keyof LocalClassification['labels']): boolean {
+  return (analyzed.modelLabels?.[label] ?? 0) >= MODEL_LABEL_THRESHOLD;
+}
+
 // ============================================
 // Main Analysis Function
 // ============================================
@@ -158,9 +305,17 @@ export async function analyzeComments(
   comments: NormalizedComment[],
   options: {
     onProgress?: (progress: { step: string; percent: number }) => void;
+    useLocalModel?: boolean;
   } = {}
 ): Promise<AIAnalysisResult> {
-  const { onProgress } = options;
+  const { onProgress, useLocalModel } = options;
+  
+  // Optional local model pass; null means fall back to patterns
+  const modelResults = useLocalModel
+    ? await classifyWithLocalModel(comments.map(c => c.plainText), {
+        onProgress: ({ step, percent }) => onProgress?.({ step, percent: percent * 0.5 }),
+      })
+    : null;
   
   const analyzed: AnalyzedComment[] = [];
   const sentimentBreakdown = { positive: 0, negative: 0, neutral: 0 };
@@ -172,7 +327,7 @@ export async function analyzeComments(
   // Analyze each comment
   for (let i = 0; i < comments.length; i++) {
     const comment = comments[i];
-    const body = comment.body;
+    const body = comment.plainText;
     
     // Track stats
     totalScore += comment.score;
@@ -184,8 +339,11 @@ export async function analyzeComments(
     const solutionDetection = detectPatterns(body, SOLUTION_PATTERNS);
     const shillDetection = detectShillIndicators(body);
     
-    // Sentiment from patterns
-    const sentiment = inferSentimentFromPatterns(painDetection.score, solutionDetection.score, body);
+    // Sentiment from the local model when available (handles negation/sarcasm), else patterns
+    const model = modelResults?.[i];
+    const sentiment = model
+      ? sentimentFromModel(model)
+      : inferSentimentFromPatterns(painDetection.score, solutionDetection.score, body);
     
     // Update breakdown
     sentimentBreakdown[sentiment.label]++;
@@ -197,9 +355,18 @@ export async function analyzeComments(
       ...solutionDetection.signals,
     ];
     
+    let modelStrength = 0;
+    if (model) {
+      for (const [label, score] of Object.entries(model.labels)) {
+        if (score < MODEL_LABEL_THRESHOLD) continue;
+        modelStrength += score * MODEL_LABEL_WEIGHT;
+        allSignals.push(`${label} (model)`);
+      }
+    }
+    
     // Calculate relevance score
     const upvoteBoost = Math.log10(Math.max(comment.score, 1) + 1);
-    const signalStrength = painDetection.score + intentDetection.score + solutionDetection.score;
+    const signalStrength = painDetection.score + intentDetection.score + solutionDetection.score + modelStrength;
     const relevanceScore = signalStrength * (1 + upvoteBoost * 0.5);
     
     analyzed.push({
@@ -209,6 +376,9 @@ export async function analyzeComments(
       shillScore: shillDetection.score,
       shillReasons: shillDetection.reasons,
       relevanceScore,
+      roles: detectLabels(body, ROLE_PATTERNS, 'role'),
+      objections: detectLabels(body, OBJECTION_PATTERNS, 'reason'),
+      modelLabels: model?.labels,
     });
     
     // Progress update
@@ -225,21 +395,21 @@ export async function analyzeComments(
   // Categorize results
   const pains = analyzed
     .filter(a => {
-      const painScore = detectPatterns(a.comment.body, PAIN_PATTERNS).score;
-      return painScore > 0 || a.sentiment.label === 'negative';
+      const painScore = detectPatterns(a.comment.plainText, PAIN_PATTERNS).score;
+      return painScore > 0 || a.sentiment.label === 'negative' || modelLabelHit(a, 'pain');
     })
     .sort((a, b) => b.relevanceScore - a.relevanceScore)
     .slice(0, 20);
   
   const intents = analyzed
-    .filter(a => detectPatterns(a.comment.body, INTENT_PATTERNS).score > 0)
+    .filter(a => detectPatterns(a.comment.plainText, INTENT_PATTERNS).score > 0 || modelLabelHit(a, 'intent'))
     .sort((a, b) => b.relevanceScore - a.relevanceScore)
     .slice(0, 20);
   
   const solutions = analyzed
     .filter(a => {
-      const solutionScore = detectPatterns(a.comment.body, SOLUTION_PATTERNS).score;
-      return solutionScore > 0 && a.shillScore < 3;
+      const solutionScore = detectPatterns(a.comment.plainText, SOLUTION_PATTERNS).score;
+      return (solutionScore > 0 || modelLabelHit(a, 'solution')) && a.shillScore < 3;
     })
     .sort((a, b) => b.relevanceScore - a.relevanceScore)
     .slice(0, 20);
@@ -249,6 +419,9 @@ export async function analyzeComments(
     .sort((a, b) => b.shillScore - a.shillScore)
     .slice(0, 10);
   
+  const selfDescribed = analyzed.filter(a => a.roles.length > 0);
+  const objections = analyzed.filter(a => a.objections.length > 0);
+  
   const topByEngagement = analyzed
     .sort((a, b) => b.comment.score - a.comment.score)
     .slice(0, 10);
@@ -260,6 +433,8 @@ export async function analyzeComments(
     intents,
     solutions,
     shillWarnings,
+    selfDescribed,
+    objections,
     topByEngagement,
     summary: {
       totalAnalyzed: comments.length,
@@ -268,6 +443,6 @@ export async function analyzeComments(
       controversialCount,
       potentialShills: shillWarnings.length,
     },
-    modelLoaded: false, // Pattern-based only for now
+    modelLoaded: modelResults !== null,
   };
 }
@@ -0,0 +1,236 @@
+// ============================================
+// THREADMINER - Thread Analytics
+// https://github.com/Sigmabrogz/REDDITMINER
+// Chart-ready aggregates over one mined thread:
+// volume, scores, depth, sentiment, authors, controversy
+// ============================================
+
+import { AnalyticsChart, NormalizedComment, NormalizedData, ThreadAnalytics } from './schemas';
+import { classifySentiment } from './ai-analysis';
+import { escapeCSV } from './reddit';
+import { truncate } from './utils';
+
+const HOUR_SECONDS = 60 * 60;
+const DAY_SECONDS = 24 * HOUR_SECONDS;
+const TOP_AUTHORS = 10;
+const TOP_HOTSPOTS = 10;
+
+// ============================================
+// Charts
+// ============================================
+
+// Hourly for a fresh thread, daily for a few weeks, weekly beyond that
+function volumeChart(data: NormalizedData): AnalyticsChart {
+  const postedAt = data.thread.createdUtc;
+  const lastAt = Math.max(postedAt, ...data.comments.map(c => c.createdUtc));
+  const span = lastAt - postedAt;
+  const [size, unit] = span <= 3 * DAY_SECONDS
+    ? [HOUR_SECONDS, 'hour']
+    : span <= 60 * DAY_SECONDS
+      ? [DAY_SECONDS, 'day']
+      : [7 * DAY_SECONDS, 'week'];
+
+  const counts = new Array<number>(Math.floor(span / size) + 1).fill(0);
+  for (const comment of data.comments) {
+    counts[Math.floor(Math.max(0, comment.createdUtc - postedAt) / size)]++;
+  }
+
+  return {
+    id: 'volume',
+    title: 'Comment Volume',
+    description: `Comments per ${unit} since the post went up`,
+    orientation: 'vertical',
+    series: ['comments'],
+    valueLabel: 'comments',
+    bars: counts.map((count, index) => ({
+      label: unit === 'hour'
+        ? `+${index}h`
+        : new Date((postedAt + index * size) * 1000).toISOString().slice(0, 10),
+      values: [count],
+    })),
+  };
+}
+
+// Log-scale bins: ≤ -1, 0, 1, 2–3, 4–7, 8–15, ...
+function scoreChart(comments: NormalizedComment[]): AnalyticsChart {
+  const negative = comments.filter(c => c.score < 0).length;
+  const zero = comments.filter(c => c.score === 0).length;
+  const maxScore = Math.max(0, ...comments.map(c => c.score));
+
+  const bars = [
+    { label: '< 0', values: [negative] },
+    { label: '0', values: [zero] },
+  ];
+  for (let low = 1; low <= maxScore; low *= 2) {
+    const high = low * 2 - 1;
+    bars.push({
+      label: low === high ? `${low}` : `${low}–${high}`,
+      values: [comments.filter(c => c.score >= low && c.score <= high).length],
+    });
+  }
+
+  return {
+    id: 'scores',
+    title: 'Score Distribution',
+    description: 'Comments per score range, each range twice as wide as the last',
+    orientation: 'vertical',
+    series: ['comments'],
+    valueLabel: 'comments',
+    bars,
+  };
+}
+
+function depthChart(comments: NormalizedComment[]): AnalyticsChart {
+  const maxDepth = Math.max(0, ...comments.map(c => c.depth));
+  const counts = new Array<number>(maxDepth + 1).fill(0);
+  comments.forEach(c => counts[c.depth]++);
+
+  return {
+    id: 'depth',
+    title: 'Depth Histogram',
+    description: 'Comments at each reply depth (0 = top-level)',
+    orientation: 'vertical',
+    series: ['comments'],
+    valueLabel: 'comments',
+    bars: counts.map((count, depth) => ({ label: `${depth}`, values: [count] })),
+  };
+}
+
+function sentimentChart(comments: NormalizedComment[]): AnalyticsChart {
+  const byDepth = new Map<number, { positive: number; neutral: number; negative: number }>();
+  for (const comment of comments) {
+    const entry = byDepth.get(comment.depth) || { positive: 0, neutral: 0, negative: 0 };
+    entry[classifySentiment(comment.plainText).label]++;
+    byDepth.set(comment.depth, entry);
+  }
+
+  const share = (part: number, total: number) => Math.round((part / total) * 1000) / 10;
+
+  return {
+    id: 'sentiment',
+    title: 'Sentiment by Depth',
+    description: 'Pattern-based sentiment mix at each reply depth',
+    orientation: 'vertical',
+    series: ['positive', 'neutral', 'negative'],
+    valueLabel: '% of comments',
+    bars: [...byDepth.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([depth, counts]) => {
+        const total = counts.positive + counts.neutral + counts.negative;
+        return {
+          label: `${depth}`,
+          values: [share(counts.positive, total), share(counts.neutral, total), share(counts.negative, total)],
+          detail: `${total} comment${total === 1 ? '' : 's'}`,
+        };
+      }),
+  };
+}
+
+function authorCharts(comments: NormalizedComment[]): AnalyticsChart[] {
+  const authors = new Map<string, { comments: number; score: number }>();
+  for (const comment of comments) {
+    if (comment.author === '[deleted]') continue;
+    const entry = authors.get(comment.author) || { comments: 0, score: 0 };
+    entry.comments++;
+    entry.score += comment.score;
+    authors.set(comment.author, entry);
+  }
+  const entries = [...authors.entries()];
+
+  return [
+    {
+      id: 'authors-count',
+      title: 'Top Authors by Comments',
+      description: `The ${TOP_AUTHORS} most active commenters`,
+      orientation: 'horizontal',
+      series: ['comments'],
+      valueLabel: 'comments',
+      bars: entries
+        .sort(([, a], [, b]) => b.comments - a.comments || b.score - a.score)
+        .slice(0, TOP_AUTHORS)
+        .map(([name, stats]) => ({ label: `u/${name}`, values: [stats.comments], detail: `${stats.score} points` })),
+    },
+    {
+      id: 'authors-score',
+      title: 'Top Authors by Score',
+      description: `The ${TOP_AUTHORS} commenters with the highest total score`,
+      orientation: 'horizontal',
+      series: ['points'],
+      valueLabel: 'points',
+      bars: entries
+        .sort(([, a], [, b]) => b.score - a.score || b.comments - a.comments)
+        .slice(0, TOP_AUTHORS)
+        .map(([name, stats]) => ({ label: `u/${name}`, values: [stats.score], detail: `${stats.comments} comments` })),
+    },
+  ];
+}
+
+// Branches (a top-level comment and its replies) where the controversial replies cluster
+function controversyChart(comments: NormalizedComment[]): AnalyticsChart {
+  const byId = new Map(comments.map(c => [c.id, c]));
+  const rootOf = (comment: NormalizedComment): NormalizedComment => {
+    let current = comment;
+    let parent = byId.get(current.parentId.slice(3));
+    while (current.parentId.startsWith('t1_') && parent) {
+      current = parent;
+      parent = byId.get(current.parentId.slice(3));
+    }
+    return current;
+  };
+
+  const branches = new Map<string, { root: NormalizedComment; total: number; controversial: number }>();
+  for (const comment of comments) {
+    const root = rootOf(comment);
+    const entry = branches.get(root.id) || { root, total: 0, controversial: 0 };
+    entry.total++;
+    if (comment.controversiality > 0) entry.controversial++;
+    branches.set(root.id, entry);
+  }
+
+  return {
+    id: 'controversy',
+    title: 'Controversy Hotspots',
+    description: 'Branches with the most comments Reddit marks controversial',
+    orientation: 'horizontal',
+    series: ['controversial', 'other'],
+    valueLabel: 'comments in branch',
+    bars: [...branches.values()]
+      .filter(branch => branch.controversial > 0)
+      .sort((a, b) => b.controversial - a.controversial || b.total - a.total)
+      .slice(0, TOP_HOTSPOTS)
+      .map(branch => ({
+        label: `u/${branch.root.author}: ${truncate(branch.root.plainText.replace(/\s+/g, ' '), 40)}`,
+        values: [branch.controversial, branch.total - branch.controversial],
+        detail: branch.root.permalink,
+      })),
+  };
+}
+
+export function computeThreadAnalytics(data: NormalizedData): ThreadAnalytics {
+  return {
+    threadId: data.thread.id,
+    charts: [
+      volumeChart(data),
+      scoreChart(data.comments),
+      depthChart(data.comments),
+      sentimentChart(data.comments),
+      ...authorCharts(data.comments),
+      controversyChart(data.comments),
+    ],
+  };
+}
+
+// ============================================
+// Export Formatters
+// ============================================
+
+export function chartToCSV(chart: AnalyticsChart): string {
+  const headers = ['label', ...(chart.series.length === 1 ? [chart.valueLabel] : chart.series), 'detail'];
+  const rows = chart.bars.map(bar => [
+    escapeCSV(bar.label),
+    ...bar.values.map(v => v.toString()),
+    escapeCSV(bar.detail || ''),
+  ].join(','));
+
+  return [headers.map(escapeCSV).join(','), ...rows].join('\n');
+}
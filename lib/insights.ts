@@ -0,0 +1,351 @@
+// ============================================
+// THREADMINER - Insights Report
+// https://github.com/Sigmabrogz/REDDITMINER
+// Maps pattern + LLM analysis into InsightsData
+// and renders shareable reports
+// ============================================
+
+import {
+  NormalizedData,
+  NormalizedComment,
+  InsightsData,
+  PainPoint,
+  BuyingIntent,
+  SolutionMention,
+  Persona,
+  Objection,
+} from './schemas';
+import { AIAnalysisResult, AnalyzedComment, PAIN_SIGNALS } from './ai-analysis';
+import { AIInsight, BuyerSignal, CompetitorIntel } from './openrouter';
+
+const MAX_EXAMPLES = 3;
+const MAX_PERSONAS = 8;
+const MAX_PERSONA_DETAILS = 4;
+
+const STAGE_MAP: Record<BuyerSignal['stage'], BuyingIntent['stage']> = {
+  ready: 'ready',
+  researching: 'evaluating',
+  curious: 'curious',
+};
+
+const SENTIMENT_MAP: Record<CompetitorIntel['sentiment'], SolutionMention['sentiment']> = {
+  loved: 'positive',
+  hated: 'negative',
+  meh: 'neutral',
+};
+
+// Pattern signals that mean someone is past casual interest
+const EVALUATING_SIGNALS = ['purchase decision', 'help request', 'comparison', 'best option'];
+
+// ============================================
+// Mapping
+// ============================================
+
+function firstSentence(text: string, max = 200): string {
+  const sentence = text.split(/(?<=[.!?])\s/)[0] || text;
+  return sentence.length > max ? `${sentence.slice(0, max - 1)}…` : sentence;
+}
+
+// "Developers", "a developer" and "Developer" are the same persona
+function labelKey(label: string): string {
+  return label.toLowerCase().trim().replace(/^(an?|the)\s+/, '').replace(/s$/, '');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Most frequent values first, deduped
+function topValues(values: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+// Pattern pains grouped by signal, e.g. every "price complaint" comment together
+function clusterPains(pains: AnalyzedComment[]): PainPoint[] {
+  const clusters = new Map<string, AnalyzedComment[]>();
+
+  for (const pain of pains) {
+    // Pain comments also carry intent/solution signals - cluster on pain ones only
+    const painSignals = pain.signals.filter(s => PAIN_SIGNALS.includes(s));
+    for (const signal of painSignals.length > 0 ? painSignals : ['general negativity']) {
+      const list = clusters.get(signal) || [];
+      list.push(pain);
+      clusters.set(signal, list);
+    }
+  }
+
+  return [...clusters.entries()]
+    .filter(([, items]) => items.some(i => i.sentiment.label === 'negative') || items.length > 1)
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([signal, items], index) => ({
+      id: `pattern-pain-${index + 1}`,
+      title: capitalize(signal),
+      description: firstSentence(items[0].comment.plainText),
+      frequency: items.length,
+      severity: items.length >= 5 ? 'high' : items.length >= 2 ? 'medium' : 'low',
+      exampleCommentIds: items.slice(0, MAX_EXAMPLES).map(i => i.comment.id),
+      keywords: [signal],
+    }));
+}
+
+interface PersonaMember {
+  label: string;
+  comment: NormalizedComment;
+  traits: string[];
+  pains: string[];
+}
+
+/**
+ * Group commenters by self-described role. LLM tags and pattern matches share
+ * clusters by normalized label; percentage is the share of distinct authors.
+ */
+function buildPersonas(
+  data: NormalizedData,
+  patterns: AIAnalysisResult,
+  ai: AIInsight | null
+): Persona[] {
+  const members: PersonaMember[] = [
+    ...(ai?.personas || []).map(tag => ({
+      label: tag.role,
+      comment: tag.comment,
+      traits: tag.context ? [tag.context] : [],
+      pains: tag.pain ? [tag.pain] : [],
+    })),
+    ...patterns.selfDescribed.flatMap(analyzed => analyzed.roles.map(role => ({
+      label: role,
+      comment: analyzed.comment,
+      traits: analyzed.signals.filter(s => !PAIN_SIGNALS.includes(s)),
+      pains: analyzed.signals.filter(s => PAIN_SIGNALS.includes(s)),
+    }))),
+  ];
+
+  const groups = new Map<string, PersonaMember[]>();
+  for (const member of members) {
+    const key = labelKey(member.label);
+    groups.set(key, [...(groups.get(key) || []), member]);
+  }
+
+  const totalAuthors = new Set(data.comments.map(c => c.author)).size || 1;
+
+  return [...groups.values()]
+    .map(group => {
+      const commentIds = [...new Set(group.map(m => m.comment.id))];
+      const authors = new Set(group.map(m => m.comment.author));
+      return {
+        label: capitalize(topValues(group.map(m => m.label), 1)[0]),
+        traits: topValues(group.flatMap(m => m.traits), MAX_PERSONA_DETAILS),
+        painPoints: topValues(group.flatMap(m => m.pains), MAX_PERSONA_DETAILS),
+        commentIds,
+        percentage: (authors.size / totalAuthors) * 100,
+      };
+    })
+    .sort((a, b) => b.commentIds.length - a.commentIds.length)
+    .slice(0, MAX_PERSONAS)
+    .map((persona, index) => ({ id: `persona-${index + 1}`, ...persona }));
+}
+
+function buildObjections(patterns: AIAnalysisResult, ai: AIInsight | null): Objection[] {
+  const tags = [
+    ...(ai?.objections || []).map(tag => ({ reason: tag.reason, commentId: tag.comment.id })),
+    ...patterns.objections.flatMap(analyzed =>
+      analyzed.objections.map(reason => ({ reason, commentId: analyzed.comment.id }))
+    ),
+  ];
+
+  const groups = new Map<string, { reasons: string[]; commentIds: Set<string> }>();
+  for (const tag of tags) {
+    const key = labelKey(tag.reason);
+    const group = groups.get(key) || { reasons: [], commentIds: new Set<string>() };
+    group.reasons.push(tag.reason);
+    group.commentIds.add(tag.commentId);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map(group => ({
+      reason: capitalize(topValues(group.reasons, 1)[0]),
+      frequency: group.commentIds.size,
+      commentIds: [...group.commentIds],
+    }))
+    .sort((a, b) => b.frequency - a.frequency)
+    .map((objection, index) => ({ id: `objection-${index + 1}`, ...objection }));
+}
+
+function countMentions(name: string, comments: NormalizedComment[]): string[] {
+  const needle = name.toLowerCase();
+  return comments.filter(c => c.plainText.toLowerCase().includes(needle)).map(c => c.id);
+}
+
+function confidenceFor(patterns: AIAnalysisResult, ai: AIInsight | null): number {
+  if (ai) {
+    // Every dropped entry is a sign the model was guessing
+    return Math.max(0.5, 0.85 - ai.warnings.length * 0.05);
+  }
+  return patterns.modelLoaded ? 0.6 : 0.4;
+}
+
+export function buildInsightsData(
+  data: NormalizedData,
+  patterns: AIAnalysisResult,
+  ai: AIInsight | null
+): InsightsData {
+  const signalsById = new Map(
+    [...patterns.pains, ...patterns.intents, ...patterns.solutions].map(a => [a.comment.id, a.signals])
+  );
+
+  const pains: PainPoint[] = [
+    ...(ai?.goldNuggets || []).map((nugget, index) => ({
+      id: `pain-${index + 1}`,
+      title: nugget.insight,
+      description: nugget.actionable,
+      frequency: 1,
+      severity: 'high' as const,
+      exampleCommentIds: [nugget.comment.id],
+      keywords: signalsById.get(nugget.comment.id) || [],
+    })),
+    ...clusterPains(patterns.pains),
+  ];
+
+  const aiIntentIds = new Set(ai?.buyerSignals.map(b => b.comment.id) || []);
+  const buyingIntent: BuyingIntent[] = [
+    ...(ai?.buyerSignals || []).map((signal, index) => ({
+      id: `intent-${index + 1}`,
+      stage: STAGE_MAP[signal.stage],
+      summary: signal.followUp,
+      quote: signal.quote,
+      commentId: signal.comment.id,
+      author: signal.comment.author,
+      indicators: signalsById.get(signal.comment.id) || [],
+    })),
+    ...patterns.intents
+      .filter(intent => !aiIntentIds.has(intent.comment.id))
+      .map((intent, index) => ({
+        id: `pattern-intent-${index + 1}`,
+        stage: intent.signals.some(s => EVALUATING_SIGNALS.includes(s)) ? 'evaluating' as const : 'curious' as const,
+        summary: intent.signals.join(', '),
+        quote: firstSentence(intent.comment.plainText),
+        commentId: intent.comment.id,
+        author: intent.comment.author,
+        indicators: intent.signals,
+      })),
+  ];
+
+  const solutions: SolutionMention[] = (ai?.competitors || []).map((competitor, index) => {
+    const commentIds = countMentions(competitor.name, data.comments);
+    return {
+      id: `solution-${index + 1}`,
+      name: competitor.name,
+      type: 'competitor',
+      sentiment: SENTIMENT_MAP[competitor.sentiment],
+      mentions: Math.max(commentIds.length, 1),
+      commentIds,
+    };
+  });
+
+  return {
+    thesis: ai?.tldr
+      || `${patterns.pains.length} pain signals and ${patterns.intents.length} buying-intent signals across ${patterns.summary.totalAnalyzed} comments.`,
+    pains,
+    buyingIntent,
+    solutions,
+    personas: buildPersonas(data, patterns, ai),
+    objections: buildObjections(patterns, ai),
+    meta: {
+      threadId: data.thread.id,
+      analyzedAt: new Date().toISOString(),
+      commentsAnalyzed: patterns.summary.totalAnalyzed,
+      confidenceScore: confidenceFor(patterns, ai),
+      source: ai ? 'llm' : patterns.modelLoaded ? 'local-model' : 'patterns',
+      model: ai?.generatedBy.model ?? null,
+    },
+  };
+}
+
+// ============================================
+// Markdown Report
+// ============================================
+
+function quoteBlock(comment: NormalizedComment | undefined, text?: string): string {
+  if (!comment) return '';
+  const body = (text || firstSentence(comment.plainText, 280)).replace(/\n+/g, ' ');
+  return `> "${body}"\n> — [u/${comment.author}](${comment.permalink}) • ${comment.score} points\n\n`;
+}
+
+export function insightsToMarkdown(insights: InsightsData, data: NormalizedData): string {
+  const { thread } = data;
+  const byId = new Map(data.comments.map(c => [c.id, c]));
+
+  let md = '';
+
+  md += `# Insights: ${thread.title}\n\n`;
+  md += `[r/${thread.subreddit}](${thread.permalink}) • ${thread.commentCount} comments • `;
+  md += `${insights.meta.commentsAnalyzed} analyzed • confidence ${Math.round(insights.meta.confidenceScore * 100)}%\n\n`;
+  md += `> **TL;DR:** ${insights.thesis}\n\n`;
+
+  if (insights.pains.length > 0) {
+    md += `## Pain Points (${insights.pains.length})\n\n`;
+    for (const pain of insights.pains) {
+      md += `### ${pain.title}\n\n`;
+      md += `*${pain.severity} severity • mentioned ${pain.frequency}×*`;
+      if (pain.keywords.length > 0) md += ` • ${pain.keywords.join(', ')}`;
+      md += `\n\n${pain.description}\n\n`;
+      for (const id of pain.exampleCommentIds) {
+        md += quoteBlock(byId.get(id));
+      }
+    }
+  }
+
+  if (insights.buyingIntent.length > 0) {
+    md += `## Buying Intent (${insights.buyingIntent.length})\n\n`;
+    for (const intent of insights.buyingIntent) {
+      md += `- **${intent.stage}** — ${intent.summary}\n\n`;
+      md += quoteBlock(byId.get(intent.commentId), intent.quote);
+    }
+  }
+
+  if (insights.solutions.length > 0) {
+    md += `## Solutions & Competitors (${insights.solutions.length})\n\n`;
+    md += `| Name | Sentiment | Mentions | Example |\n|------|-----------|----------|---------|\n`;
+    for (const solution of insights.solutions) {
+      const example = byId.get(solution.commentIds[0]);
+      md += `| ${solution.name} | ${solution.sentiment} | ${solution.mentions} | `;
+      md += example ? `[u/${example.author}](${example.permalink}) |\n` : '— |\n';
+    }
+    md += '\n';
+  }
+
+  if (insights.personas.length > 0) {
+    md += `## Personas (${insights.personas.length})\n\n`;
+    for (const persona of insights.personas) {
+      md += `### ${persona.label} (${Math.round(persona.percentage)}%)\n\n`;
+      if (persona.traits.length > 0) md += `- **Traits:** ${persona.traits.join(', ')}\n`;
+      if (persona.painPoints.length > 0) md += `- **Pains:** ${persona.painPoints.join(', ')}\n`;
+      if (persona.traits.length > 0 || persona.painPoints.length > 0) md += '\n';
+      for (const id of persona.commentIds.slice(0, MAX_EXAMPLES)) {
+        md += quoteBlock(byId.get(id));
+      }
+    }
+  }
+
+  if (insights.objections.length > 0) {
+    md += `## Objections (${insights.objections.length})\n\n`;
+    for (const objection of insights.objections) {
+      md += `### ${objection.reason} (${objection.frequency}×)\n\n`;
+      for (const id of objection.commentIds.slice(0, MAX_EXAMPLES)) {
+        md += quoteBlock(byId.get(id));
+      }
+    }
+  }
+
+  const engine = insights.meta.model ? `${insights.meta.source} (${insights.meta.model})` : insights.meta.source;
+  md += `---\n\n*Mined by ThreadMiner • ${engine} • ${insights.meta.analyzedAt}*\n`;
+
+  return md;
+}
@@ -0,0 +1,252 @@
+// ============================================
+// THREADMINER - Subreddit Listing Mining
+// https://github.com/Sigmabrogz/REDDITMINER
+// Page through /r/x/top, /r/x/search etc. and
+// mine every thread into one dataset
+// ============================================
+
+import {
+  RedditRawResponse,
+  RedditRawPost,
+  NormalizedData,
+  NormalizedListing,
+  ListingSource,
+  ListingStats,
+  ListingProgress,
+  DepthLevel,
+} from './schemas';
+import {
+  parseListingUrl,
+  buildListingJsonUrl,
+  fetchRedditJson,
+  fetchRawThread,
+  fetchThreadClientSide,
+  expandMoreComments,
+  normalizeThread,
+  toCSV,
+  RedditAPIError,
+} from './reddit';
+import { mapWithConcurrency } from './utils';
+
+const LISTING_PAGE_SIZE = 100;
+const THREAD_CONCURRENCY = 2;
+
+export interface MineListingOptions {
+  maxThreads: number;
+  depth: DepthLevel;
+  sort?: string; // comment sort inside each thread
+  maxComments?: number;
+  minScore?: number;
+  expandMore?: boolean;
+  onProgress?: (progress: ListingProgress) => void;
+}
+
+// ============================================
+// Listing Pagination
+// ============================================
+
+export async function fetchListingPosts(
+  source: ListingSource,
+  maxThreads: number,
+  onPage?: (posts: number) => void
+): Promise<{ posts: RedditRawPost[]; pages: number }> {
+  const posts: RedditRawPost[] = [];
+  const seen = new Set<string>();
+  let after: string | null = null;
+  let pages = 0;
+
+  do {
+    const listing: RedditRawResponse = await fetchRedditJson<RedditRawResponse>(
+      buildListingJsonUrl(source, {
+        after,
+        limit: Math.min(LISTING_PAGE_SIZE, maxThreads - posts.length),
+      }),
+      'Subreddit not found. Check the spelling, or it may have been banned.'
+    );
+    pages++;
+
+    for (const child of listing.data?.children || []) {
+      if (child.kind !== 't3') continue;
+      const post = child.data as RedditRawPost;
+      // Pinned mod posts aren't what people mean by "top threads"
+      if (post.stickied && source.sort === 'hot') continue;
+      if (seen.has(post.id)) continue;
+
+      seen.add(post.id);
+      posts.push(post);
+      if (posts.length >= maxThreads) break;
+    }
+
+    onPage?.(posts.length);
+    after = listing.data?.after ?? null;
+  } while (after && posts.length < maxThreads);
+
+  return { posts, pages };
+}
+
+// ============================================
+// Aggregate Stats
+// ============================================
+
+export function computeListingStats(threads: NormalizedData[]): ListingStats {
+  const authors = new Map<string, { comments: number; totalScore: number }>();
+  const subreddits = new Map<string, number>();
+  let totalComments = 0;
+  let totalThreadScore = 0;
+  let totalUpvoteRatio = 0;
+
+  for (const { thread, comments } of threads) {
+    totalComments += comments.length;
+    totalThreadScore += thread.score;
+    totalUpvoteRatio += thread.upvoteRatio;
+    subreddits.set(thread.subreddit, (subreddits.get(thread.subreddit) || 0) + 1);
+
+    for (const comment of comments) {
+      if (comment.author === '[deleted]') continue;
+      const entry = authors.get(comment.author) || { comments: 0, totalScore: 0 };
+      entry.comments++;
+      entry.totalScore += comment.score;
+      authors.set(comment.author, entry);
+    }
+  }
+
+  const count = threads.length;
+
+  return {
+    threadCount: count,
+    totalComments,
+    totalThreadScore,
+    avgThreadScore: count > 0 ? totalThreadScore / count : 0,
+    avgCommentsPerThread: count > 0 ? totalComments / count : 0,
+    avgUpvoteRatio: count > 0 ? totalUpvoteRatio / count : 0,
+    uniqueAuthors: authors.size,
+    topAuthors: [...authors.entries()]
+      .map(([author, stats]) => ({ author, ...stats }))
+      .sort((a, b) => b.comments - a.comments || b.totalScore - a.totalScore)
+      .slice(0, 10),
+    subreddits: [...subreddits.entries()]
+      .map(([name, threadCount]) => ({ name, threads: threadCount }))
+      .sort((a, b) => b.threads - a.threads),
+  };
+}
+
+// ============================================
+// Main Listing Miner
+// ============================================
+
+export async function mineListing(
+  url: string,
+  options: MineListingOptions
+): Promise<NormalizedListing> {
+  const source = parseListingUrl(url);
+  if (!source) {
+    throw new RedditAPIError(
+      'Invalid listing URL. Paste a subreddit (/r/name/top?t=month) or search URL.',
+      0,
+      'parse'
+    );
+  }
+
+  const { onProgress } = options;
+  const fetchRaw = typeof window === 'undefined' ? fetchRawThread : fetchThreadClientSide;
+
+  onProgress?.({ phase: 'listing', done: 0, total: options.maxThreads });
+  const { posts, pages } = await fetchListingPosts(source, options.maxThreads, (done) => {
+    onProgress?.({ phase: 'listing', done, total: options.maxThreads });
+  });
+
+  if (posts.length === 0) {
+    throw new RedditAPIError('This listing has no threads to mine.', 404, 'not_found');
+  }
+
+  const failed: NormalizedListing['meta']['failed'] = [];
+  let done = 0;
+  let rateLimited = false;
+  onProgress?.({ phase: 'threads', done, total: posts.length });
+
+  const results = await mapWithConcurrency(posts, THREAD_CONCURRENCY, async (post) => {
+    const threadUrl = `https://www.reddit.com${post.permalink}`;
+    if (rateLimited) {
+      failed.push({ url: threadUrl, error: 'Skipped after Reddit rate limit.' });
+      return null;
+    }
+
+    try {
+      let raw = await fetchRaw(threadUrl, {
+        sort: options.sort || 'best',
+        limit: options.maxComments ? Math.min(options.maxComments * 2, 500) : 500,
+      });
+
+      if (options.expandMore) {
+        raw = (await expandMoreComments(raw, { depth: options.depth, sort: options.sort })).raw;
+      }
+
+      return normalizeThread(raw, {
+        depth: options.depth,
+        maxComments: options.maxComments,
+        minScore: options.minScore,
+      });
+    } catch (error) {
+      if (error instanceof RedditAPIError && error.errorType === 'rate_limit') {
+        rateLimited = true;
+      }
+      failed.push({
+        url: threadUrl,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    } finally {
+      onProgress?.({ phase: 'threads', done: ++done, total: posts.length });
+    }
+  });
+
+  const threads = results.filter((t): t is NormalizedData => t !== null);
+
+  if (threads.length === 0) {
+    throw new RedditAPIError(
+      failed[0]?.error || 'Could not mine any threads from this listing.',
+      0,
+      rateLimited ? 'rate_limit' : 'server_error'
+    );
+  }
+
+  return {
+    source,
+    threads,
+    stats: computeListingStats(threads),
+    meta: {
+      fetchedAt: new Date().toISOString(),
+      threadsRequested: options.maxThreads,
+      pagesFetched: pages,
+      depthFilter: options.depth,
+      failed,
+    },
+  };
+}
+
+// ============================================
+// Export Formatters
+// ============================================
+
+export function describeListing(source: ListingSource): string {
+  const where = source.subreddit ? `r/${source.subreddit}` : 'all of Reddit';
+  if (source.sort === 'search') {
+    return `Search "${source.query}" in ${where}`;
+  }
+  return `${where} • ${source.sort}${source.timeframe ? ` (${source.timeframe})` : ''}`;
+}
+
+// One CSV for the whole dataset: per-thread columns prefixed to each comment row
+export function listingToCSV(listing: NormalizedListing): string {
+  const lines: string[] = [];
+
+  listing.threads.forEach((data, index) => {
+    const [header, ...rows] = toCSV(data).split('\n');
+    if (index === 0) lines.push(`thread_id,subreddit,${header}`);
+    for (const row of rows) {
+      lines.push(`${data.thread.id},${data.thread.subreddit},${row}`);
+    }
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,245 @@
+// ============================================
+// THREADMINER - LLM Providers (server-side)
+// https://github.com/Sigmabrogz/REDDITMINER
+// OpenRouter, OpenAI-compatible, Ollama, llama.cpp
+// ============================================
+//
+// Only imported by app/api/llm - keys and base URLs are read from
+// server env vars and never reach the browser.
+//
+//   OPENROUTER_API_KEY            OpenRouter
+//   OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL
+//                                 any OpenAI-compatible endpoint
+//   OLLAMA_BASE_URL, OLLAMA_MODEL, OLLAMA_NUM_CTX
+//                                 local Ollama
+//   LLAMACPP_BASE_URL, LLAMACPP_MODEL
+//                                 llama.cpp server
+//   LLM_PROVIDER                  default provider id
+
+import { LLMMessage, LLMProviderId, LLMProviderStatus, LLMSettings } from './schemas';
+
+const REQUEST_TIMEOUT_MS = 120000;
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  defaultModel: string;
+  isConfigured: () => boolean;
+  complete: (
+    messages: LLMMessage[],
+    settings: Omit<LLMSettings, 'provider'>,
+    options: { json?: boolean }
+  ) => Promise<{ content: string; model: string }>;
+}
+
+// ============================================
+// Shared HTTP
+// ============================================
+
+async function postJson<T>(url: string, body: unknown, headers: Record<string, string> = {}): Promise<T> {
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError' ? 'timed out' : 'is unreachable';
+    throw new LLMError(`LLM endpoint ${reason}: ${new URL(url).origin}`, 502);
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text()).slice(0, 300);
+    throw new LLMError(`LLM provider returned ${response.status}: ${detail}`, response.status === 429 ? 429 : 502);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+// ============================================
+// OpenAI-Compatible Providers
+// ============================================
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string } }[];
+}
+
+function createOpenAICompatibleProvider(config: {
+  id: LLMProviderId;
+  label: string;
+  baseUrl: () => string;
+  apiKey?: () => string;
+  defaultModel: () => string;
+  isConfigured: () => boolean;
+  headers?: Record<string, string>;
+  supportsJsonMode?: boolean;
+}): LLMProvider {
+  return {
+    id: config.id,
+    label: config.label,
+    get defaultModel() {
+      return config.defaultModel();
+    },
+    isConfigured: config.isConfigured,
+
+    async complete(messages, settings, options) {
+      const model = settings.model || config.defaultModel();
+      const apiKey = config.apiKey?.();
+
+      const data = await postJson<ChatCompletionResponse>(
+        `${trimSlash(config.baseUrl())}/chat/completions`,
+        {
+          model,
+          messages,
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens,
+          ...(options.json && config.supportsJsonMode ? { response_format: { type: 'json_object' } } : {}),
+        },
+        {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          ...config.headers,
+        }
+      );
+
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new LLMError('LLM response contained no content.', 502);
+      }
+
+      return { content, model: data.model || model };
+    },
+  };
+}
+
+// NEXT_PUBLIC_ name kept as a fallback for existing .env.local files, but
+// Next.js inlines NEXT_PUBLIC_ vars into the client bundle, so nag about it
+let warnedPublicKey = false;
+const openRouterKey = () => {
+  if (process.env.OPENROUTER_API_KEY) return process.env.OPENROUTER_API_KEY;
+  const legacy = process.env.NEXT_PUBLIC_OPENROUTER_API_KEY || '';
+  if (legacy && !warnedPublicKey) {
+    warnedPublicKey = true;
+    console.warn('NEXT_PUBLIC_OPENROUTER_API_KEY is deprecated and exposes the key to browsers. Rename it to OPENROUTER_API_KEY.');
+  }
+  return legacy;
+};
+
+const openrouter = createOpenAICompatibleProvider({
+  id: 'openrouter',
+  label: 'OpenRouter',
+  baseUrl: () => 'https://openrouter.ai/api/v1',
+  apiKey: openRouterKey,
+  defaultModel: () => process.env.OPENROUTER_MODEL || 'xiaomi/mimo-v2-flash:free',
+  isConfigured: () => !!openRouterKey(),
+  headers: {
+    'HTTP-Referer': 'https://threadminer.app',
+    'X-Title': 'ThreadMiner',
+  },
+});
+
+const openai = createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  baseUrl: () => process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+  apiKey: () => process.env.OPENAI_API_KEY || '',
+  defaultModel: () => process.env.OPENAI_MODEL || 'gpt-4o-mini',
+  // A custom base URL may not need a key (vLLM, LM Studio, internal gateways)
+  isConfigured: () => !!(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL),
+  supportsJsonMode: true,
+});
+
+// llama.cpp's server speaks the OpenAI chat API under /v1
+const llamacpp = createOpenAICompatibleProvider({
+  id: 'llamacpp',
+  label: 'llama.cpp server',
+  baseUrl: () => `${trimSlash(process.env.LLAMACPP_BASE_URL || 'http://localhost:8080')}/v1`,
+  defaultModel: () => process.env.LLAMACPP_MODEL || 'default',
+  isConfigured: () => !!process.env.LLAMACPP_BASE_URL,
+  supportsJsonMode: true,
+});
+
+// ============================================
+// Ollama (native /api/chat)
+// ============================================
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string };
+}
+
+const ollama: LLMProvider = {
+  id: 'ollama',
+  label: 'Ollama',
+  get defaultModel() {
+    return process.env.OLLAMA_MODEL || 'llama3.1';
+  },
+  isConfigured: () => !!process.env.OLLAMA_BASE_URL,
+
+  async complete(messages, settings, options) {
+    const model = settings.model || this.defaultModel;
+    const baseUrl = trimSlash(process.env.OLLAMA_BASE_URL || 'http://localhost:11434');
+
+    const data = await postJson<OllamaChatResponse>(`${baseUrl}/api/chat`, {
+      model,
+      messages,
+      stream: false,
+      ...(options.json ? { format: 'json' } : {}),
+      options: {
+        temperature: settings.temperature,
+        num_predict: settings.maxTokens,
+        // Ollama's default context is too small for a comment chunk
+        num_ctx: Number(process.env.OLLAMA_NUM_CTX) || 8192,
+      },
+    });
+
+    const content = data.message?.content;
+    if (!content) {
+      throw new LLMError('Ollama response contained no content.', 502);
+    }
+
+    return { content, model: data.model || model };
+  },
+};
+
+// ============================================
+// Registry
+// ============================================
+
+const PROVIDERS: LLMProvider[] = [openrouter, openai, ollama, llamacpp];
+
+export function getProvider(id: LLMProviderId): LLMProvider | undefined {
+  return PROVIDERS.find(p => p.id === id);
+}
+
+export function getDefaultProvider(): LLMProvider | null {
+  const preferred = getProvider(process.env.LLM_PROVIDER as LLMProviderId);
+  if (preferred?.isConfigured()) return preferred;
+  return PROVIDERS.find(p => p.isConfigured()) || null;
+}
+
+export function getProviderStatuses(): LLMProviderStatus[] {
+  return PROVIDERS.map(p => ({
+    id: p.id,
+    label: p.label,
+    configured: p.isConfigured(),
+    defaultModel: p.defaultModel,
+  }));
+}
@@ -0,0 +1,156 @@
+// ============================================
+// THREADMINER - Local Model (in-browser)
+// https://github.com/Sigmabrogz/REDDITMINER
+// Sentiment + zero-shot labels via transformers.js,
+// with the pattern analyzer as the fallback
+// ============================================
+
+// Models are read from public/models/<model-id>/ first. Set
+// NEXT_PUBLIC_ALLOW_REMOTE_MODELS=true to download them from the
+// Hugging Face hub on first use (cached by the browser afterwards).
+const MODEL_PATH = process.env.NEXT_PUBLIC_LOCAL_MODEL_PATH || '/models/';
+const ALLOW_REMOTE = process.env.NEXT_PUBLIC_ALLOW_REMOTE_MODELS === 'true';
+
+// Model loading can take a while on first run; inference itself is fast
+const LOAD_TIMEOUT_MS = 120000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface LocalModelConfig {
+  modelPath: string;
+  allowRemote: boolean;
+  sentimentModel: string;
+  zeroShotModel: string;
+  // Hypotheses fed to the zero-shot model, keyed by signal category
+  labels: {
+    pain: string;
+    intent: string;
+    solution: string;
+  };
+  maxChars: number;
+}
+
+export interface LocalClassification {
+  sentiment: {
+    label: 'positive' | 'negative';
+    score: number;
+  };
+  labels: {
+    pain: number;
+    intent: number;
+    solution: number;
+  };
+}
+
+export interface LocalModelRequest {
+  id: number;
+  config: LocalModelConfig;
+  texts: string[];
+}
+
+export type LocalModelResponse =
+  | { type: 'progress'; id: number; step: string; percent: number }
+  | { type: 'result'; id: number; results: LocalClassification[] }
+  | { type: 'error'; id: number; message: string };
+
+export const LOCAL_MODEL_CONFIG: LocalModelConfig = {
+  modelPath: MODEL_PATH,
+  allowRemote: ALLOW_REMOTE,
+  sentimentModel: 'Xenova/distilbert-base-uncased-finetuned-sst-2-english',
+  zeroShotModel: 'Xenova/mobilebert-uncased-mnli',
+  labels: {
+    pain: 'a complaint or problem',
+    intent: 'asking what to buy or use',
+    solution: 'recommending a product or fix',
+  },
+  maxChars: 512,
+};
+
+// ============================================
+// Worker Client
+// ============================================
+
+let worker: Worker | null = null;
+let requestId = 0;
+
+export function isLocalModelSupported(): boolean {
+  return typeof window !== 'undefined' && typeof Worker !== 'undefined';
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./local-model.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+}
+
+/**
+ * Classify comment bodies with the local models. Resolves to null when the
+ * models can't be loaded (missing files, no Worker support, timeout) so
+ * callers can fall back to pattern-based results.
+ */
+export async function classifyWithLocalModel(
+  texts: string[],
+  options: {
+    onProgress?: (progress: { step: string; percent: number }) => void;
+    config?: LocalModelConfig;
+  } = {}
+): Promise<LocalClassification[] | null> {
+  if (!isLocalModelSupported() || texts.length === 0) return null;
+
+  const { onProgress, config = LOCAL_MODEL_CONFIG } = options;
+  const id = ++requestId;
+  const target = getWorker();
+
+  return new Promise((resolve) => {
+    let timer = setTimeout(handleTimeout, LOAD_TIMEOUT_MS);
+
+    function finish(results: LocalClassification[] | null, reason?: string) {
+      clearTimeout(timer);
+      target.removeEventListener('message', handleMessage);
+      target.removeEventListener('error', handleError);
+      if (reason) console.warn(`Local model unavailable, using patterns: ${reason}`);
+      resolve(results);
+    }
+
+    // A stuck worker would keep burning CPU and could answer late
+    function handleTimeout() {
+      if (worker === target) {
+        worker.terminate();
+        worker = null;
+      }
+      finish(null, 'Local model timed out');
+    }
+
+    function handleMessage(event: MessageEvent<LocalModelResponse>) {
+      const message = event.data;
+      if (message.id !== id) return;
+      if (message.type === 'progress') {
+        // Progress on this request means it's alive; restart the clock
+        clearTimeout(timer);
+        timer = setTimeout(handleTimeout, LOAD_TIMEOUT_MS);
+        onProgress?.({ step: message.step, percent: message.percent });
+        return;
+      }
+
+      if (message.type === 'result') {
+        finish(message.results);
+      } else {
+        finish(null, message.message);
+      }
+    }
+
+    function handleError(event: ErrorEvent) {
+      // A crashed worker can't be reused
+      worker?.terminate();
+      worker = null;
+      finish(null, event.message || 'Worker crashed');
+    }
+
+    target.addEventListener('message', handleMessage);
+    target.addEventListener('error', handleError);
+    target.postMessage({ id, config, texts } satisfies LocalModelRequest);
+  });
+}
@@ -0,0 +1,110 @@
+// ============================================
+// THREADMINER - Local Model Worker
+// https://github.com/Sigmabrogz/REDDITMINER
+// Runs transformers.js pipelines off the main thread
+// ============================================
+
+import { pipeline, env } from '@xenova/transformers';
+import type {
+  LocalModelConfig,
+  LocalClassification,
+  LocalModelRequest,
+  LocalModelResponse,
+} from './local-model';
+
+// The generic pipeline() typings are a union of every task; narrow to what we call
+type SentimentPipeline = (text: string) => Promise<{ label: string; score: number }[]>;
+type ZeroShotPipeline = (
+  text: string,
+  labels: string[],
+  options: { multi_label: boolean }
+) => Promise<{ labels: string[]; scores: number[] }>;
+
+let sentimentPipe: SentimentPipeline | null = null;
+let zeroShotPipe: ZeroShotPipeline | null = null;
+let loadedFor: string | null = null;
+
+function post(message: LocalModelResponse) {
+  self.postMessage(message);
+}
+
+async function loadPipelines(id: number, config: LocalModelConfig) {
+  const key = JSON.stringify(config);
+  if (sentimentPipe && zeroShotPipe && loadedFor === key) return;
+
+  env.localModelPath = config.modelPath;
+  env.allowLocalModels = true;
+  env.allowRemoteModels = config.allowRemote;
+  env.useBrowserCache = true;
+
+  post({ type: 'progress', id, step: 'Loading sentiment model...', percent: 0 });
+  sentimentPipe = (await pipeline('sentiment-analysis', config.sentimentModel, {
+    quantized: true,
+  })) as unknown as SentimentPipeline;
+
+  post({ type: 'progress', id, step: 'Loading zero-shot model...', percent: 0 });
+  zeroShotPipe = (await pipeline('zero-shot-classification', config.zeroShotModel, {
+    quantized: true,
+  })) as unknown as ZeroShotPipeline;
+
+  loadedFor = key;
+}
+
+async function classify(id: number, config: LocalModelConfig, texts: string[]): Promise<LocalClassification[]> {
+  await loadPipelines(id, config);
+
+  const labelText = Object.values(config.labels);
+  const labelKeys = Object.keys(config.labels) as (keyof LocalModelConfig['labels'])[];
+  const results: LocalClassification[] = [];
+
+  for (let i = 0; i < texts.length; i++) {
+    // Both models were trained on short inputs - long comments only slow things down
+    const text = texts[i].slice(0, config.maxChars);
+
+    const [sentiment] = await sentimentPipe!(text);
+    const zeroShot = await zeroShotPipe!(text, labelText, { multi_label: true });
+
+    const labels = { pain: 0, intent: 0, solution: 0 };
+    zeroShot.labels.forEach((label, index) => {
+      labels[labelKeys[labelText.indexOf(label)]] = zeroShot.scores[index];
+    });
+
+    results.push({
+      sentiment: {
+        label: sentiment.label === 'POSITIVE' ? 'positive' : 'negative',
+        score: sentiment.score,
+      },
+      labels,
+    });
+
+    if (i % 10 === 0) {
+      post({
+        type: 'progress',
+        id,
+        step: `Running local model... (${i + 1}/${texts.length})`,
+        percent: (i / texts.length) * 100,
+      });
+    }
+  }
+
+  return results;
+}
+
+self.onmessage = async (event: MessageEvent<LocalModelRequest>) => {
+  const { id, config, texts } = event.data;
+
+  try {
+    const results = await classify(id, config, texts);
+    post({ type: 'result', id, results });
+  } catch (error) {
+    // Drop half-loaded pipelines so the next request retries from scratch
+    sentimentPipe = null;
+    zeroShotPipe = null;
+    loadedFor = null;
+    post({
+      type: 'error',
+      id,
+      message: error instanceof Error ? error.message : 'Local model failed',
+    });
+  }
+};
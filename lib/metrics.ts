@@ -0,0 +1,115 @@
+// ============================================
+// THREADMINER - Engagement Metrics
+// https://github.com/Sigmabrogz/REDDITMINER
+// Reply timing and activity shape, per comment and
+// per thread, measured over the mined comments
+// ============================================
+
+import { CommentMetrics, NormalizedComment, NormalizedThread, ThreadMetrics } from './schemas';
+
+const HOUR_SECONDS = 60 * 60;
+const CURVE_HOURS = 7 * 24;
+
+export type UnmeasuredComment = Omit<NormalizedComment, 'metrics'>;
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Fill in `metrics` on every comment and compute the thread's. Replies
+ * that weren't mined (depth filters, "load more" stubs) don't count, so
+ * a Quick Scan reports fewer replies than a Deep Dive of the same thread.
+ */
+export function measureEngagement(
+  thread: NormalizedThread,
+  comments: UnmeasuredComment[]
+): { comments: NormalizedComment[]; metrics: ThreadMetrics } {
+  const byId = new Map(comments.map(c => [c.id, c]));
+  const replies = new Map<string, UnmeasuredComment[]>();
+  for (const comment of comments) {
+    const parentId = comment.parentId.slice(3);
+    if (comment.parentId.startsWith('t1_') && byId.has(parentId)) {
+      replies.set(parentId, [...(replies.get(parentId) || []), comment]);
+    }
+  }
+
+  const sizes = new Map<string, number>();
+  const subtreeSize = (id: string): number => {
+    const cached = sizes.get(id);
+    if (cached !== undefined) return cached;
+    const size = 1 + (replies.get(id) || []).reduce((sum, reply) => sum + subtreeSize(reply.id), 0);
+    sizes.set(id, size);
+    return size;
+  };
+
+  const earliest = (items: UnmeasuredComment[]) =>
+    items.length > 0 ? Math.min(...items.map(c => c.createdUtc)) : null;
+
+  const medianScore = median(comments.map(c => c.score)) ?? 0;
+
+  const measured = comments.map(comment => {
+    const children = replies.get(comment.id) || [];
+    const firstReply = earliest(children);
+    const parent = comment.parentId.startsWith('t1_') ? byId.get(comment.parentId.slice(3)) : undefined;
+    const parentCreated = comment.parentId.startsWith('t3_') ? thread.createdUtc : parent?.createdUtc;
+
+    const metrics: CommentMetrics = {
+      replyCount: children.length,
+      subtreeSize: subtreeSize(comment.id),
+      // Clocks drift by a second or two between Reddit's servers
+      firstReplySeconds: firstReply === null ? null : Math.max(0, firstReply - comment.createdUtc),
+      sinceParentSeconds: parentCreated === undefined ? null : Math.max(0, comment.createdUtc - parentCreated),
+      relativeScore: round(comment.score / Math.max(1, medianScore), 2),
+    };
+    return { ...comment, metrics };
+  });
+
+  // Activity curve and half-life, in hours after posting
+  const ages = comments.map(c => Math.max(0, c.createdUtc - thread.createdUtc) / HOUR_SECONDS);
+  const lastHour = Math.min(CURVE_HOURS, Math.floor(Math.max(-1, ...ages)) + 1);
+  const commentsPerHour = new Array<number>(lastHour).fill(0);
+  let lateComments = 0;
+  for (const age of ages) {
+    if (age < CURVE_HOURS) {
+      commentsPerHour[Math.floor(age)]++;
+    } else {
+      lateComments++;
+    }
+  }
+  const halfLife = median(ages);
+
+  // Addressed to OP: top-level comments and replies to OP's own comments
+  const addressedToOp = comments.filter(c =>
+    !c.isOP && (c.parentId.startsWith('t3_') || byId.get(c.parentId.slice(3))?.isOP)
+  );
+  const opResponseTimes = addressedToOp
+    .map(c => {
+      const opReply = earliest((replies.get(c.id) || []).filter(r => r.isOP));
+      return opReply === null ? null : Math.max(0, opReply - c.createdUtc);
+    })
+    .filter(seconds => seconds !== null);
+
+  const firstComment = earliest(comments.filter(c => c.parentId.startsWith('t3_')));
+
+  return {
+    comments: measured,
+    metrics: {
+      medianScore,
+      firstCommentSeconds: firstComment === null ? null : Math.max(0, firstComment - thread.createdUtc),
+      commentsPerHour,
+      lateComments,
+      activityHalfLifeHours: halfLife === null ? null : round(halfLife, 1),
+      opResponseRate: addressedToOp.length > 0 ? opResponseTimes.length / addressedToOp.length : null,
+      medianOpResponseSeconds: median(opResponseTimes),
+    },
+  };
+}
@@ -0,0 +1,288 @@
+// ============================================
+// THREADMINER - Keyword Monitor
+// https://github.com/Sigmabrogz/REDDITMINER
+// Polls saved searches through Reddit's search
+// and comment listings into one feed
+// ============================================
+
+import {
+  RedditRawResponse,
+  RedditRawPost,
+  RedditRawComment,
+  SavedSearch,
+  SavedSearches,
+  SearchHit,
+} from './schemas';
+import { buildListingJsonUrl, fetchRedditJson, enrichCommentBody, decodeEntities } from './reddit';
+import { classifySignals } from './ai-analysis';
+import { getSavedSearches, saveSearches, shortId } from './utils';
+
+export const SEARCH_INTERVALS = [15, 30, 60, 180]; // minutes
+const TICK_MS = 60 * 1000;
+const PAGE_SIZE = 100;
+const MAX_SEEN_IDS = 2000; // per search
+const MAX_FEED = 300;
+
+export interface SearchMonitorState extends SavedSearches {
+  pollingId: string | null;
+}
+
+export interface SearchMonitor {
+  getState: () => SearchMonitorState;
+  getServerState: () => SearchMonitorState;
+  subscribe: (listener: () => void) => () => void;
+  add: (search: Pick<SavedSearch, 'keywords' | 'subreddits' | 'intervalMinutes'>) => void;
+  remove: (searchId: string) => void;
+  markViewed: () => void;
+  pollNow: (searchId: string) => Promise<void>;
+  start: () => () => void;
+}
+
+const SERVER_STATE: SearchMonitorState = { searches: [], feed: [], lastViewedAt: null, pollingId: null };
+
+// ============================================
+// Query Building + Matching
+// ============================================
+
+// Multi-word keywords are searched as phrases
+export function buildSearchQuery(keywords: string[]): string {
+  return keywords.map(k => (/\s/.test(k) ? `"${k}"` : k)).join(' OR ');
+}
+
+function keywordRegex(keyword: string): RegExp {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // \b only where the keyword itself starts/ends with a word character ("C++" has no end boundary)
+  const start = /^\w/.test(keyword) ? '\\b' : '';
+  const end = /\w$/.test(keyword) ? '\\b' : '';
+  return new RegExp(`${start}${escaped}${end}`, 'i');
+}
+
+export function matchKeywords(text: string, keywords: string[]): string[] {
+  return keywords.filter(k => keywordRegex(k).test(text));
+}
+
+export function describeSearch(search: SavedSearch): string {
+  const where = search.subreddits.length > 0
+    ? search.subreddits.map(s => `r/${s}`).join(', ')
+    : 'all of Reddit';
+  return `${search.keywords.join(', ')} in ${where}`;
+}
+
+// ============================================
+// Fetching
+// ============================================
+
+// Listing JSON is entity-escaped; decode before matching so `AT&T` can hit
+function postHit(search: SavedSearch, post: RedditRawPost, foundAt: string): SearchHit {
+  const title = decodeEntities(post.title);
+  const body = decodeEntities(post.selftext);
+  const text = `${title}\n${body}`;
+  return {
+    id: post.name,
+    searchId: search.id,
+    kind: 'post',
+    keywords: matchKeywords(text, search.keywords),
+    subreddit: post.subreddit,
+    author: post.author,
+    title,
+    body,
+    score: post.score,
+    permalink: `https://www.reddit.com${post.permalink}`,
+    createdAt: new Date(post.created_utc * 1000).toISOString(),
+    foundAt,
+    ...classifySignals(text),
+  };
+}
+
+function commentHit(search: SavedSearch, comment: RedditRawComment, keywords: string[], foundAt: string): SearchHit {
+  return {
+    id: comment.name,
+    searchId: search.id,
+    kind: 'comment',
+    keywords,
+    subreddit: comment.subreddit || '',
+    author: comment.author,
+    title: decodeEntities(comment.link_title || ''),
+    body: decodeEntities(comment.body),
+    score: comment.score,
+    permalink: `https://www.reddit.com${comment.permalink}`,
+    createdAt: new Date(comment.created_utc * 1000).toISOString(),
+    foundAt,
+    // A quoted complaint is the parent's signal, not this comment's
+    ...classifySignals(enrichCommentBody(comment.body).plainText),
+  };
+}
+
+/**
+ * Posts come from search.json (restricted to the subreddits when given).
+ * Reddit's JSON search doesn't cover comments, so with subreddits set we
+ * also scan their newest comments for the keywords ourselves.
+ */
+async function fetchSearchHits(search: SavedSearch): Promise<SearchHit[]> {
+  const foundAt = new Date().toISOString();
+  const multireddit = search.subreddits.join('+') || null;
+
+  const posts = await fetchRedditJson<RedditRawResponse>(
+    buildListingJsonUrl(
+      {
+        url: '',
+        subreddit: multireddit,
+        sort: 'search',
+        timeframe: null,
+        query: buildSearchQuery(search.keywords),
+        searchSort: 'new',
+      },
+      { limit: PAGE_SIZE }
+    ),
+    'Subreddit not found. Check the spelling, or it may have been banned.'
+  );
+
+  const hits = posts.data.children
+    .filter(child => child.kind === 't3')
+    .map(child => postHit(search, child.data as RedditRawPost, foundAt));
+
+  if (multireddit) {
+    const comments = await fetchRedditJson<RedditRawResponse>(
+      `https://www.reddit.com/r/${multireddit}/comments.json?limit=${PAGE_SIZE}`
+    );
+    for (const child of comments.data.children) {
+      if (child.kind !== 't1') continue;
+      const comment = child.data as RedditRawComment;
+      const keywords = matchKeywords(decodeEntities(comment.body), search.keywords);
+      if (keywords.length > 0) hits.push(commentHit(search, comment, keywords, foundAt));
+    }
+  }
+
+  return hits;
+}
+
+function isDue(search: SavedSearch, now: number): boolean {
+  if (!search.lastPolledAt) return true;
+  return now - new Date(search.lastPolledAt).getTime() >= search.intervalMinutes * 60 * 1000;
+}
+
+// ============================================
+// Monitor Store
+// ============================================
+
+// Same shape as the watchlist: one poll at a time, checked every TICK_MS
+export function createSearchMonitor(): SearchMonitor {
+  const listeners = new Set<() => void>();
+  let state: SearchMonitorState = { ...getSavedSearches(), pollingId: null };
+  let ticking = false;
+  let polls: Promise<void> = Promise.resolve();
+  const queued = new Set<string>(); // waiting or polling
+
+  function update(patch: Partial<SearchMonitorState>) {
+    state = { ...state, ...patch };
+    if (patch.searches || patch.feed || patch.lastViewedAt !== undefined) {
+      saveSearches({ searches: state.searches, feed: state.feed, lastViewedAt: state.lastViewedAt });
+    }
+    listeners.forEach(listener => listener());
+  }
+
+  function patchSearch(searchId: string, patch: (search: SavedSearch) => Partial<SavedSearch>) {
+    update({
+      searches: state.searches.map(s => (s.id === searchId ? { ...s, ...patch(s) } : s)),
+    });
+  }
+
+  async function poll(searchId: string) {
+    const search = state.searches.find(s => s.id === searchId);
+    if (!search) return;
+
+    update({ pollingId: searchId });
+    try {
+      // Search results reach back weeks; only what's posted after the
+      // search was saved belongs in the feed
+      const seen = new Set(search.seenIds);
+      const unseen = (await fetchSearchHits(search)).filter(hit => !seen.has(hit.id));
+      const fresh = unseen.filter(hit => hit.createdAt > search.createdAt);
+
+      patchSearch(searchId, s => ({
+        lastPolledAt: new Date().toISOString(),
+        lastError: null,
+        seenIds: [...s.seenIds, ...unseen.map(hit => hit.id)].slice(-MAX_SEEN_IDS),
+      }));
+      if (fresh.length > 0) {
+        update({ feed: [...fresh, ...state.feed].slice(0, MAX_FEED) });
+      }
+    } catch (error) {
+      patchSearch(searchId, () => ({
+        lastPolledAt: new Date().toISOString(),
+        lastError: error instanceof Error ? error.message : 'Search failed',
+      }));
+    } finally {
+      update({ pollingId: null });
+    }
+  }
+
+  function enqueuePoll(searchId: string): Promise<void> {
+    if (queued.has(searchId)) return polls;
+    queued.add(searchId);
+    polls = polls.then(() => poll(searchId)).finally(() => queued.delete(searchId));
+    return polls;
+  }
+
+  async function tick() {
+    if (ticking) return;
+    ticking = true;
+    try {
+      const now = Date.now();
+      for (const search of state.searches.filter(s => isDue(s, now))) {
+        await enqueuePoll(search.id);
+      }
+    } finally {
+      ticking = false;
+    }
+  }
+
+  return {
+    getState: () => state,
+    getServerState: () => SERVER_STATE,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    add({ keywords, subreddits, intervalMinutes }) {
+      const search: SavedSearch = {
+        id: shortId(),
+        keywords,
+        subreddits,
+        intervalMinutes,
+        createdAt: new Date().toISOString(),
+        lastPolledAt: null,
+        lastError: null,
+        seenIds: [],
+      };
+      update({ searches: [...state.searches, search] });
+      enqueuePoll(search.id);
+    },
+
+    remove(searchId) {
+      update({
+        searches: state.searches.filter(s => s.id !== searchId),
+        feed: state.feed.filter(hit => hit.searchId !== searchId),
+      });
+    },
+
+    markViewed() {
+      update({ lastViewedAt: new Date().toISOString() });
+    },
+
+    pollNow: enqueuePoll,
+
+    // Returns a stop function for useEffect cleanup
+    start() {
+      tick();
+      const timer = setInterval(tick, TICK_MS);
+      return () => clearInterval(timer);
+    },
+  };
+}
+
+export const searchMonitor = createSearchMonitor();
@@ -4,13 +4,26 @@
 // Sharp insights for builders, not fluff
 // ============================================
 
-import { NormalizedComment } from './schemas';
+import {
+  NormalizedComment,
+  LLMMessage,
+  LLMSettings,
+  LLMStatusResponse,
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMProviderStatus,
+} from './schemas';
+import { mapWithConcurrency } from './utils';
 
-// API key must be set via environment variable
-// Create .env.local with: NEXT_PUBLIC_OPENROUTER_API_KEY=your-key
-// Get your free key at: https://openrouter.ai/keys
-const OPENROUTER_API_KEY = process.env.NEXT_PUBLIC_OPENROUTER_API_KEY || '';
-const MODEL = 'xiaomi/mimo-v2-flash:free';
+// Calls go through /api/llm so provider keys stay on the server.
+// Configure a provider in .env.local (see lib/llm.ts), e.g.
+// OPENROUTER_API_KEY=your-key  or  OLLAMA_BASE_URL=http://localhost:11434
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: null,
+  model: '',
+  temperature: 0.2,
+  maxTokens: 2500,
+};
 
 // ============================================
 // Founder-Focused Insight Types
@@ -41,7 +54,7 @@ export interface CompetitorIntel {
   name: string;
   sentiment: 'loved' | 'hated' | 'meh';
   weakness: string;
-  commentIndex: number;
+  commentIndex: number; // index into comments, -1 when none is cited
 }
 
 export interface RedFlag {
@@ -55,6 +68,18 @@ export interface ShillWarning {
   comment: NormalizedComment;
 }
 
+export interface PersonaTag {
+  role: string;
+  context: string;
+  pain: string;
+  comment: NormalizedComment;
+}
+
+export interface ObjectionTag {
+  reason: string;
+  comment: NormalizedComment;
+}
+
 export interface AIInsight {
   // The ONE thing a founder should know
   tldr: string;
@@ -76,47 +101,174 @@ export interface AIInsight {
   
   // Suspicious activity
   shills: ShillWarning[];
+  
+  // Who is talking and why they won't buy (one tag per comment, clustered later)
+  personas: PersonaTag[];
+  objections: ObjectionTag[];
+  
+  // Which backend produced this
+  generatedBy: {
+    provider: string;
+    model: string;
+  };
+  
+  // Entries dropped during validation (bad shape or unknown comment id)
+  warnings: string[];
 }
 
 // ============================================
-// AI Analysis Function
+// /api/llm Client
 // ============================================
 
-export async function analyzeWithAI(
-  comments: NormalizedComment[],
-  threadTitle: string,
-  onProgress?: (step: string) => void
-): Promise<AIInsight | null> {
-  if (!OPENROUTER_API_KEY) {
-    console.log('OpenRouter API key not configured.');
+export async function getAIStatus(): Promise<LLMStatusResponse | null> {
+  try {
+    const response = await fetch('/api/llm');
+    if (!response.ok) return null;
+    return await response.json();
+  } catch {
     return null;
   }
+}
 
-  try {
-    onProgress?.('Scanning for founder insights...');
-    
-    // Take top 50 comments by score
-    const topComments = [...comments]
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 50);
+// The chosen provider if it's configured, else whatever the server defaults to
+export function resolveProvider(
+  status: LLMStatusResponse | null,
+  settings: Pick<LLMSettings, 'provider'> = DEFAULT_LLM_SETTINGS
+): LLMProviderStatus | null {
+  if (!status) return null;
+  const chosen = status.providers.find(p => p.id === settings.provider && p.configured);
+  return chosen || status.providers.find(p => p.id === status.defaultProvider) || null;
+}
+
+export async function isAIConfigured(settings?: Pick<LLMSettings, 'provider'>): Promise<boolean> {
+  return resolveProvider(await getAIStatus(), settings) !== null;
+}
+
+export async function completeChat(
+  messages: LLMMessage[],
+  settings: LLMSettings,
+  options: { json?: boolean } = {}
+): Promise<{ content: string; model: string }> {
+  const request: LLMCompletionRequest = { ...settings, messages, json: options.json };
+  const response = await fetch('/api/llm', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const result: LLMCompletionResponse = await response.json();
+  
+  if (!result.success || !result.content) {
+    throw new Error(result.error || `LLM request failed (${response.status})`);
+  }
+  
+  return { content: result.content, model: result.model || settings.model };
+}
+
+// ============================================
+// Chunking (map-reduce over the whole thread)
+// ============================================
+
+// ~4 characters per token is close enough for English prose
+const CHARS_PER_TOKEN = 4;
+// Leaves room for the prompt + response in an 8k context window
+const CHUNK_TOKEN_BUDGET = 5000;
+const MAX_COMMENT_CHARS = 3000;
+const PARENT_EXCERPT_CHARS = 160;
+const CHUNK_CONCURRENCY = 2;
+// Per category, so the reduce prompt stays bounded on huge threads
+const MAX_REDUCE_CANDIDATES = 25;
+
+export interface CommentChunk {
+  comments: NormalizedComment[];
+  text: string;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function parentCommentId(comment: NormalizedComment): string | null {
+  return comment.parentId.startsWith('t1_') ? comment.parentId.slice(3) : null;
+}
+
+function formatComment(
+  comment: NormalizedComment,
+  byId: Map<string, NormalizedComment>,
+  inChunk: Set<string>
+): string {
+  const parentId = parentCommentId(comment);
+  const lines: string[] = [];
+  
+  // Parent lives in another chunk - include an excerpt so the reply still makes sense
+  if (parentId && !inChunk.has(parentId)) {
+    const parent = byId.get(parentId);
+    if (parent) {
+      lines.push(`(context) [${parent.id}] u/${parent.author}: "${parent.body.slice(0, PARENT_EXCERPT_CHARS)}"`);
+    }
+  }
+  
+  const tags = [
+    `score: ${comment.score}`,
+    `u/${comment.author}`,
+    ...(comment.isOP ? ['OP'] : []),
+    ...(parentId ? [`reply to [${parentId}]`] : []),
+  ];
+  lines.push(`[${comment.id}] (${tags.join(', ')}): "${comment.body.slice(0, MAX_COMMENT_CHARS)}"`);
+  
+  return lines.join('\n');
+}
+
+/**
+ * Split comments into token-budgeted chunks. Comments stay in thread order so
+ * reply chains land together; a reply whose parent fell into an earlier chunk
+ * carries a short excerpt of it. Comment ids are the stable references.
+ */
+export function chunkComments(
+  comments: NormalizedComment[],
+  tokenBudget = CHUNK_TOKEN_BUDGET
+): CommentChunk[] {
+  const byId = new Map(comments.map(c => [c.id, c]));
+  const chunks: CommentChunk[] = [];
+  let current: NormalizedComment[] = [];
+  let parts: string[] = [];
+  let tokens = 0;
+  let inChunk = new Set<string>();
+  
+  for (const comment of comments) {
+    let formatted = formatComment(comment, byId, inChunk);
+    let cost = estimateTokens(formatted);
     
-    // Format comments
-    const commentsText = topComments
-      .map((c, i) => `[${i + 1}] (score: ${c.score}, u/${c.author}): "${c.body.slice(0, 400)}"`)
-      .join('\n\n');
+    if (current.length > 0 && tokens + cost > tokenBudget) {
+      chunks.push({ comments: current, text: parts.join('\n\n') });
+      current = [];
+      parts = [];
+      tokens = 0;
+      inChunk = new Set();
+      // Re-format: the parent is no longer in this chunk
+      formatted = formatComment(comment, byId, inChunk);
+      cost = estimateTokens(formatted);
+    }
     
-    const prompt = `You are a sharp startup analyst. A founder is evaluating this Reddit thread for product-market fit signals.
-
-THREAD: "${threadTitle}"
+    current.push(comment);
+    parts.push(formatted);
+    tokens += cost;
+    inChunk.add(comment.id);
+  }
+  
+  if (current.length > 0) {
+    chunks.push({ comments: current, text: parts.join('\n\n') });
+  }
+  
+  return chunks;
+}
 
-COMMENTS:
-${commentsText}
+// ============================================
+// Prompts
+// ============================================
 
-Extract ACTIONABLE insights. Be ruthless - only flag what matters for building/selling a product.
+const SYSTEM_PROMPT = 'You are a ruthless startup analyst. Extract only actionable insights that help founders find product-market fit. No fluff, no generic advice. Respond with valid JSON only.';
 
-Return this exact JSON structure:
-{
-  "tldr": "One killer insight a founder should act on TODAY (be specific, not generic)",
+const FINAL_FIELDS = `  "tldr": "One killer insight a founder should act on TODAY (be specific, not generic)",
   "marketSignals": {
     "demandStrength": "hot|warm|cold",
     "demandReason": "Why this demand level (1 sentence)",
@@ -125,23 +277,38 @@ Return this exact JSON structure:
     "urgencyReason": "Why this urgency (1 sentence)"
   },
   "goldNuggets": [
-    {"index": 1, "insight": "Exact problem to solve", "actionable": "What to build/do about it"}
+    {"id": "abc123", "insight": "Exact problem to solve", "actionable": "What to build/do about it"}
   ],
   "buyerSignals": [
-    {"index": 2, "quote": "Key phrase showing buying intent", "stage": "ready|researching|curious", "followUp": "How founder could reach this person"}
+    {"id": "def456", "quote": "Key phrase showing buying intent", "stage": "ready|researching|curious", "followUp": "How founder could reach this person"}
   ],
   "competitors": [
-    {"name": "ProductX", "sentiment": "loved|hated|meh", "weakness": "Gap founder can exploit"}
+    {"id": "ghi789", "name": "ProductX", "sentiment": "loved|hated|meh", "weakness": "Gap founder can exploit"}
   ],
   "redFlags": [
-    {"index": 3, "issue": "Why this market might be bad", "severity": "dealbreaker|caution|minor"}
+    {"id": "jkl012", "issue": "Why this market might be bad", "severity": "dealbreaker|caution|minor"}
   ],
   "shills": [
-    {"index": 4, "reason": "Why this comment is suspicious"}
-  ]
-}
+    {"id": "mno345", "reason": "Why this comment is suspicious"}
+  ]`;
+
+// Per-comment tags, clustered client-side - merging them in the reduce pass
+// would hit the candidate cap and lose the frequencies we need
+const AUDIENCE_SCHEMA = `"personas": [
+    {"id": "pqr678", "role": "freelance designer", "context": "solo, pays out of pocket", "pain": "Main problem they describe"}
+  ],
+  "objections": [
+    {"id": "stu901", "reason": "too expensive"}
+  ]`;
+
+const AUDIENCE_RULES = `- personas: Only commenters who describe themselves (job, company size, situation). "role" is 1-3 generic words so similar people share a label ("developer", not "senior Go developer at a bank").
+- objections: Reasons people give for NOT buying or switching. "reason" is 2-4 generic words ("too expensive", "privacy concerns", "learning curve") so repeats share a label.`;
+
+const FINAL_SCHEMA = `{\n${FINAL_FIELDS}\n}`;
+const SINGLE_PASS_SCHEMA = `{\n${FINAL_FIELDS},\n  ${AUDIENCE_SCHEMA}\n}`;
 
-RULES:
+const RULES = `RULES:
+- "id" is the bracketed comment id the item comes from. Never invent ids.
 - tldr: ONE actionable sentence. "Users want better UX" = useless. "D2C brands need Instagram-first agencies under $2k/month" = gold.
 - goldNuggets: Max 5. Problems people will PAY to solve. Skip generic complaints.
 - buyerSignals: Only people actively looking to spend money. Include their exact words.
@@ -151,103 +318,551 @@ RULES:
 - If a category has nothing valuable, return empty array []. Don't pad with weak signals.
 - Return ONLY valid JSON, no markdown.`;
 
-    onProgress?.('AI analyzing market signals...');
-    
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://threadminer.app',
-        'X-Title': 'ThreadMiner',
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a ruthless startup analyst. Extract only actionable insights that help founders find product-market fit. No fluff, no generic advice. Respond with valid JSON only.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.2,
-        max_tokens: 2500,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('OpenRouter API error:', error);
-      return null;
-    }
+function singlePassPrompt(threadTitle: string, chunk: CommentChunk): string {
+  return `A founder is evaluating this Reddit thread for product-market fit signals.
 
-    onProgress?.('Extracting actionable intel...');
+THREAD: "${threadTitle}"
+
+COMMENTS (each starts with its [id]; "(context)" lines are parent excerpts):
+${chunk.text}
+
+Extract ACTIONABLE insights. Be ruthless - only flag what matters for building/selling a product.
+
+Return this exact JSON structure:
+${SINGLE_PASS_SCHEMA}
+
+${RULES}
+${AUDIENCE_RULES}`;
+}
+
+function mapPrompt(threadTitle: string, chunk: CommentChunk, index: number, total: number): string {
+  return `A founder is evaluating this Reddit thread for product-market fit signals. You're reading part ${index + 1} of ${total}; another pass will merge all parts.
+
+THREAD: "${threadTitle}"
+
+COMMENTS (each starts with its [id]; "(context)" lines are parent excerpts from another part - don't cite them):
+${chunk.text}
+
+Return this exact JSON structure:
+{
+  "summary": "2-3 sentences: the strongest founder-relevant signals in this part",
+  "demand": {"strength": "hot|warm|cold", "prices": ["$X mentioned"], "urgency": "high|medium|low"},
+  "goldNuggets": [{"id": "abc123", "insight": "...", "actionable": "..."}],
+  "buyerSignals": [{"id": "def456", "quote": "...", "stage": "ready|researching|curious", "followUp": "..."}],
+  "competitors": [{"id": "ghi789", "name": "...", "sentiment": "loved|hated|meh", "weakness": "..."}],
+  "redFlags": [{"id": "jkl012", "issue": "...", "severity": "dealbreaker|caution|minor"}],
+  "shills": [{"id": "mno345", "reason": "..."}],
+  ${AUDIENCE_SCHEMA}
+}
+
+${RULES}
+${AUDIENCE_RULES}`;
+}
+
+function reducePrompt(
+  threadTitle: string,
+  commentCount: number,
+  partials: ChunkExtraction[],
+  candidates: Candidates
+): string {
+  const summaries = partials
+    .map((p, i) => `Part ${i + 1}: ${p.summary || '(nothing notable)'} [demand: ${p.demand?.strength || '?'}, urgency: ${p.demand?.urgency || '?'}, prices: ${(p.demand?.prices || []).join(', ') || 'none'}]`)
+    .join('\n');
+  
+  return `A founder is evaluating this Reddit thread for product-market fit signals. The ${commentCount} comments were analyzed in ${partials.length} parts. Merge the part results into one final verdict for the WHOLE thread.
+
+THREAD: "${threadTitle}"
+
+PART SUMMARIES:
+${summaries}
+
+CANDIDATE ITEMS (JSON, each tied to a comment id):
+${JSON.stringify(candidates)}
+
+Merge duplicates, keep the strongest items, and weigh the tldr and marketSignals across ALL parts, not just the first.
+
+Return this exact JSON structure:
+${FINAL_SCHEMA}
+
+${RULES}
+- Only use ids that appear in CANDIDATE ITEMS.`;
+}
+
+// ============================================
+// Validation
+// ============================================
+
+interface ParsedItem {
+  id: string;
+  [key: string]: string;
+}
+
+interface ChunkExtraction {
+  summary?: string;
+  demand?: { strength?: string; prices?: string[]; urgency?: string };
+  goldNuggets: ParsedItem[];
+  buyerSignals: ParsedItem[];
+  competitors: ParsedItem[];
+  redFlags: ParsedItem[];
+  shills: ParsedItem[];
+  personas: ParsedItem[];
+  objections: ParsedItem[];
+}
+
+type Candidates = Pick<ChunkExtraction, CandidateKey>;
+
+interface FinalExtraction extends Omit<ChunkExtraction, 'summary' | 'demand'> {
+  tldr: string;
+  marketSignals: MarketSignals;
+}
+
+type CandidateKey = 'goldNuggets' | 'buyerSignals' | 'competitors' | 'redFlags' | 'shills';
+const CANDIDATE_KEYS: CandidateKey[] = ['goldNuggets', 'buyerSignals', 'competitors', 'redFlags', 'shills'];
+
+type AudienceKey = 'personas' | 'objections';
+type ItemKey = CandidateKey | AudienceKey;
+
+// 'string' = required non-empty string, 'string?' = may be blank, array = allowed enum values
+type FieldSpec = 'string' | 'string?' | readonly string[];
+
+const DEMAND_LEVELS = ['hot', 'warm', 'cold'] as const;
+const URGENCY_LEVELS = ['high', 'medium', 'low'] as const;
+
+const ITEM_SPECS: Record<ItemKey, Record<string, FieldSpec>> = {
+  goldNuggets: { insight: 'string', actionable: 'string' },
+  buyerSignals: { quote: 'string', stage: ['ready', 'researching', 'curious'], followUp: 'string' },
+  competitors: { name: 'string', sentiment: ['loved', 'hated', 'meh'], weakness: 'string' },
+  redFlags: { issue: 'string', severity: ['dealbreaker', 'caution', 'minor'] },
+  shills: { reason: 'string' },
+  personas: { role: 'string', context: 'string?', pain: 'string?' },
+  objections: { reason: 'string' },
+};
+
+// Competitors are about products, not a specific comment - the id is optional
+const ID_OPTIONAL: ItemKey[] = ['competitors'];
+
+interface Validated<T> {
+  value: T;
+  errors: string[]; // worth a repair round
+  dropped: string[]; // entries citing ids outside the input - removed, not repaired
+}
+
+// What a caller gets back: every problem left, as warnings
+interface ValidatedCompletion<T> {
+  value: T;
+  errors: string[];
+  model: string;
+}
+
+type Issues = Pick<Validated<unknown>, 'errors' | 'dropped'>;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Models sometimes echo "[abc123]" or the "t1_" fullname
+function normalizeId(id: unknown): string {
+  return String(id ?? '').replace(/^\[|\]$/g, '').replace(/^t1_/, '').trim();
+}
+
+function checkField(value: unknown, spec: FieldSpec, path: string, errors: string[]): string | null {
+  if (spec === 'string?' && (value === undefined || value === null || value === '')) {
+    return '';
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${path} must be a non-empty string`);
+    return null;
+  }
+  if (Array.isArray(spec) && !spec.includes(value)) {
+    errors.push(`${path} must be one of ${spec.join('|')} (got "${value}")`);
+    return null;
+  }
+  return value;
+}
+
+function validateItems(
+  key: ItemKey,
+  value: unknown,
+  validIds: Set<string>,
+  issues: Issues
+): ParsedItem[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.errors.push(`${key} must be an array`);
+    return [];
+  }
+  
+  const items: ParsedItem[] = [];
+  
+  value.forEach((raw, index) => {
+    const path = `${key}[${index}]`;
+    if (!isObject(raw)) {
+      issues.errors.push(`${path} must be an object`);
+      return;
+    }
     
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+    const itemErrors: string[] = [];
+    const item: ParsedItem = { id: normalizeId(raw.id) };
     
-    if (!content) {
-      console.error('No content in AI response');
-      return null;
+    // A made-up id can't be repaired into a real one, so don't ask
+    if (item.id && !validIds.has(item.id)) {
+      issues.dropped.push(`${path}.id "${item.id}" is not a comment id from the input`);
+      return;
     }
-
-    // Parse JSON (handle markdown code blocks)
-    let jsonStr = content;
-    if (content.includes('```')) {
-      const match = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-      jsonStr = match ? match[1] : content;
+    if (!item.id && !ID_OPTIONAL.includes(key)) {
+      itemErrors.push(`${path}.id is missing`);
     }
     
-    const parsed = JSON.parse(jsonStr.trim());
+    for (const [field, spec] of Object.entries(ITEM_SPECS[key])) {
+      const checked = checkField(raw[field], spec, `${path}.${field}`, itemErrors);
+      if (checked !== null) item[field] = checked;
+    }
     
-    // Map to typed result
-    const result: AIInsight = {
-      tldr: parsed.tldr || 'No clear actionable insight found.',
-      
+    if (itemErrors.length > 0) {
+      issues.errors.push(...itemErrors);
+      return;
+    }
+    items.push(item);
+  });
+  
+  return items;
+}
+
+function validateCandidates(
+  value: Record<string, unknown>,
+  validIds: Set<string>,
+  issues: Issues
+): Candidates {
+  return {
+    goldNuggets: validateItems('goldNuggets', value.goldNuggets, validIds, issues),
+    buyerSignals: validateItems('buyerSignals', value.buyerSignals, validIds, issues),
+    competitors: validateItems('competitors', value.competitors, validIds, issues),
+    redFlags: validateItems('redFlags', value.redFlags, validIds, issues),
+    shills: validateItems('shills', value.shills, validIds, issues),
+  };
+}
+
+function validateAudience(
+  value: Record<string, unknown>,
+  validIds: Set<string>,
+  issues: Issues
+): Pick<ChunkExtraction, AudienceKey> {
+  return {
+    personas: validateItems('personas', value.personas, validIds, issues),
+    objections: validateItems('objections', value.objections, validIds, issues),
+  };
+}
+
+function validateChunkExtraction(value: unknown, validIds: Set<string>): Validated<ChunkExtraction> {
+  const issues: Issues = { errors: [], dropped: [] };
+  if (!isObject(value)) {
+    return {
+      value: { goldNuggets: [], buyerSignals: [], competitors: [], redFlags: [], shills: [], personas: [], objections: [] },
+      errors: ['Response must be a JSON object'],
+      dropped: [],
+    };
+  }
+  
+  const demand = isObject(value.demand) ? value.demand : {};
+  
+  return {
+    value: {
+      summary: typeof value.summary === 'string' ? value.summary : undefined,
+      demand: {
+        strength: typeof demand.strength === 'string' ? demand.strength : undefined,
+        urgency: typeof demand.urgency === 'string' ? demand.urgency : undefined,
+        prices: Array.isArray(demand.prices) ? demand.prices.filter((p): p is string => typeof p === 'string') : [],
+      },
+      ...validateCandidates(value, validIds, issues),
+      ...validateAudience(value, validIds, issues),
+    },
+    ...issues,
+  };
+}
+
+function validateFinalExtraction(value: unknown, validIds: Set<string>): Validated<FinalExtraction> {
+  const issues: Issues = { errors: [], dropped: [] };
+  const { errors } = issues;
+  const obj = isObject(value) ? value : {};
+  if (!isObject(value)) errors.push('Response must be a JSON object');
+  
+  const signals = isObject(obj.marketSignals) ? obj.marketSignals : {};
+  if (!isObject(obj.marketSignals)) errors.push('marketSignals must be an object');
+  
+  const field = (v: unknown, spec: FieldSpec, path: string, fallback: string) =>
+    checkField(v, spec, path, errors) ?? fallback;
+  
+  return {
+    value: {
+      tldr: field(obj.tldr, 'string', 'tldr', 'No clear actionable insight found.'),
       marketSignals: {
-        demandStrength: parsed.marketSignals?.demandStrength || 'cold',
-        demandReason: parsed.marketSignals?.demandReason || 'Insufficient data',
-        priceRange: parsed.marketSignals?.priceRange || 'unclear',
-        urgency: parsed.marketSignals?.urgency || 'low',
-        urgencyReason: parsed.marketSignals?.urgencyReason || 'No urgency signals detected',
+        demandStrength: field(signals.demandStrength, DEMAND_LEVELS, 'marketSignals.demandStrength', 'cold') as MarketSignals['demandStrength'],
+        demandReason: field(signals.demandReason, 'string', 'marketSignals.demandReason', 'Insufficient data'),
+        priceRange: field(signals.priceRange, 'string', 'marketSignals.priceRange', 'unclear'),
+        urgency: field(signals.urgency, URGENCY_LEVELS, 'marketSignals.urgency', 'low') as MarketSignals['urgency'],
+        urgencyReason: field(signals.urgencyReason, 'string', 'marketSignals.urgencyReason', 'No urgency signals detected'),
       },
+      ...validateCandidates(obj, validIds, issues),
+      ...validateAudience(obj, validIds, issues),
+    },
+    ...issues,
+  };
+}
+
+function parseJsonContent(content: string): unknown {
+  // Handle markdown code blocks
+  let jsonStr = content;
+  if (content.includes('```')) {
+    const match = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+    jsonStr = match ? match[1] : content;
+  }
+  
+  // Tolerate prose before/after the object
+  const start = jsonStr.indexOf('{');
+  const end = jsonStr.lastIndexOf('}');
+  if (start > 0 || (end !== -1 && end < jsonStr.length - 1)) {
+    jsonStr = jsonStr.slice(start, end + 1);
+  }
+  
+  return JSON.parse(jsonStr.trim());
+}
+
+const MAX_REPAIR_ERRORS = 20;
+
+/**
+ * Ask for JSON, validate it, and give the model one chance to fix invalid
+ * output. Entries citing unknown ids are dropped without asking. If the
+ * repair call fails, the first response's valid entries are kept; bad
+ * entries left after repair are dropped too. Everything dropped is
+ * reported via `errors` rather than guessed at.
+ */
+async function completeValidated<T>(
+  messages: LLMMessage[],
+  settings: LLMSettings,
+  validate: (value: unknown) => Validated<T>
+): Promise<ValidatedCompletion<T>> {
+  const first = await completeChat(messages, settings, { json: true });
+  
+  let firstResult: Validated<T> | null = null;
+  let errors: string[];
+  try {
+    firstResult = validate(parseJsonContent(first.content));
+    if (firstResult.errors.length === 0) {
+      return { value: firstResult.value, errors: firstResult.dropped, model: first.model };
+    }
+    errors = firstResult.errors;
+  } catch (error) {
+    errors = [`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`];
+  }
+  
+  const listed = errors.slice(0, MAX_REPAIR_ERRORS).map(e => `- ${e}`).join('\n');
+  try {
+    const repaired = await completeChat(
+      [
+        ...messages,
+        { role: 'assistant', content: first.content },
+        {
+          role: 'user',
+          content: `Your response failed validation:\n${listed}\n\nReturn the corrected JSON only, same structure. Only cite ids that appear in the input; drop entries you can't cite.`,
+        },
+      ],
+      settings,
+      { json: true }
+    );
+    
+    const result = validate(parseJsonContent(repaired.content));
+    return { value: result.value, errors: [...result.errors, ...result.dropped], model: repaired.model };
+  } catch (error) {
+    // Unparseable twice - nothing trustworthy to show
+    if (!firstResult) throw error;
+    console.warn('AI repair round failed, keeping the valid entries:', error);
+    return {
+      value: firstResult.value,
+      errors: [...firstResult.errors, ...firstResult.dropped],
+      model: first.model,
+    };
+  }
+}
+
+function collectCandidates(
+  partials: ChunkExtraction[],
+  byId: Map<string, NormalizedComment>
+): Candidates {
+  const scoreOf = (item: ParsedItem) => byId.get(item.id)?.score ?? 0;
+  const candidates = {} as Candidates;
+  
+  for (const key of CANDIDATE_KEYS) {
+    candidates[key] = partials
+      .flatMap(p => p[key])
+      .sort((a, b) => scoreOf(b) - scoreOf(a))
+      .slice(0, MAX_REDUCE_CANDIDATES);
+  }
+  
+  return candidates;
+}
+
+function toInsight(
+  parsed: FinalExtraction,
+  comments: NormalizedComment[],
+  generatedBy: AIInsight['generatedBy'],
+  warnings: string[]
+): AIInsight {
+  const byId = new Map(comments.map(c => [c.id, c]));
+  // Validation already dropped unknown ids; this only satisfies the types
+  const cite = (item: ParsedItem) => byId.get(item.id)!;
+  
+  return {
+    tldr: parsed.tldr,
+    marketSignals: parsed.marketSignals,
+    
+    goldNuggets: parsed.goldNuggets.slice(0, 5).map(item => ({
+      insight: item.insight,
+      actionable: item.actionable,
+      comment: cite(item),
+    })),
+    
+    buyerSignals: parsed.buyerSignals.map(item => ({
+      quote: item.quote,
+      stage: item.stage as BuyerSignal['stage'],
+      followUp: item.followUp,
+      comment: cite(item),
+    })),
+    
+    competitors: parsed.competitors.map(item => ({
+      name: item.name,
+      sentiment: item.sentiment as CompetitorIntel['sentiment'],
+      weakness: item.weakness,
+      commentIndex: item.id ? comments.findIndex(c => c.id === item.id) : -1,
+    })),
+    
+    redFlags: parsed.redFlags.map(item => ({
+      issue: item.issue,
+      severity: item.severity as RedFlag['severity'],
+      comment: cite(item),
+    })),
+    
+    shills: parsed.shills.map(item => ({
+      reason: item.reason,
+      comment: cite(item),
+    })),
+    
+    personas: parsed.personas.map(item => ({
+      role: item.role,
+      context: item.context,
+      pain: item.pain,
+      comment: cite(item),
+    })),
+    
+    objections: parsed.objections.map(item => ({
+      reason: item.reason,
+      comment: cite(item),
+    })),
+    
+    generatedBy,
+    warnings,
+  };
+}
+
+// ============================================
+// AI Analysis Function
+// ============================================
+
+export async function analyzeWithAI(
+  comments: NormalizedComment[],
+  threadTitle: string,
+  onProgress?: (step: string) => void,
+  settings: LLMSettings = DEFAULT_LLM_SETTINGS
+): Promise<AIInsight | null> {
+  const provider = resolveProvider(await getAIStatus(), settings);
+  if (!provider) {
+    console.log('No LLM provider configured.');
+    return null;
+  }
+  if (comments.length === 0) return null;
+
+  const llm = { ...settings, provider: provider.id };
+  const byId = new Map(comments.map(c => [c.id, c]));
+
+  try {
+    onProgress?.('Scanning for founder insights...');
+    
+    const chunks = chunkComments(comments);
+    let final: ValidatedCompletion<FinalExtraction>;
+    const warnings: string[] = [];
+    
+    if (chunks.length === 1) {
+      onProgress?.('AI analyzing market signals...');
+      final = await completeValidated(
+        [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: singlePassPrompt(threadTitle, chunks[0]) },
+        ],
+        llm,
+        (value) => validateFinalExtraction(value, new Set(chunks[0].comments.map(c => c.id)))
+      );
+    } else {
+      // Map: extract candidates from every chunk
+      let started = 0;
+      const partials = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, index) => {
+        onProgress?.(`Analyzing chunk ${++started}/${chunks.length}...`);
+        try {
+          const result = await completeValidated(
+            [
+              { role: 'system', content: SYSTEM_PROMPT },
+              { role: 'user', content: mapPrompt(threadTitle, chunk, index, chunks.length) },
+            ],
+            llm,
+            (value) => validateChunkExtraction(value, new Set(chunk.comments.map(c => c.id)))
+          );
+          warnings.push(...result.errors.map(e => `Chunk ${index + 1}: ${e}`));
+          return result.value;
+        } catch (error) {
+          // One bad chunk shouldn't sink the whole analysis
+          console.error(`Chunk ${index + 1}/${chunks.length} failed:`, error);
+          warnings.push(`Chunk ${index + 1} was skipped: the model never returned valid JSON`);
+          return null;
+        }
+      });
       
-      goldNuggets: (parsed.goldNuggets || []).slice(0, 5).map((g: { index: number; insight: string; actionable: string }) => ({
-        insight: g.insight,
-        actionable: g.actionable,
-        comment: topComments[g.index - 1] || topComments[0],
-      })),
-      
-      buyerSignals: (parsed.buyerSignals || []).map((b: { index: number; quote: string; stage: string; followUp: string }) => ({
-        quote: b.quote,
-        stage: b.stage as 'ready' | 'researching' | 'curious',
-        followUp: b.followUp,
-        comment: topComments[b.index - 1] || topComments[0],
-      })),
+      const succeeded = partials.filter((p): p is ChunkExtraction => p !== null);
+      if (succeeded.length === 0) {
+        throw new Error('Every chunk failed to analyze');
+      }
       
-      competitors: (parsed.competitors || []).map((c: { name: string; sentiment: string; weakness: string; index?: number }) => ({
-        name: c.name,
-        sentiment: c.sentiment as 'loved' | 'hated' | 'meh',
-        weakness: c.weakness,
-        commentIndex: c.index || 0,
-      })),
+      // Reduce: merge chunk results into one verdict
+      onProgress?.(`Merging ${succeeded.length} chunk results...`);
+      const candidates = collectCandidates(succeeded, byId);
+      const candidateIds = new Set(CANDIDATE_KEYS.flatMap(key => candidates[key].map(item => item.id)));
       
-      redFlags: (parsed.redFlags || []).map((r: { index: number; issue: string; severity: string }) => ({
-        issue: r.issue,
-        severity: r.severity as 'dealbreaker' | 'caution' | 'minor',
-        comment: topComments[r.index - 1] || topComments[0],
-      })),
+      final = await completeValidated(
+        [
+          { role: 'system', content: SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: reducePrompt(threadTitle, comments.length, succeeded, candidates),
+          },
+        ],
+        llm,
+        (value) => validateFinalExtraction(value, candidateIds)
+      );
       
-      shills: (parsed.shills || []).map((s: { index: number; reason: string }) => ({
-        reason: s.reason,
-        comment: topComments[s.index - 1] || topComments[0],
-      })),
-    };
+      // Audience tags skip the reduce pass - every chunk's tags count
+      final.value.personas = succeeded.flatMap(p => p.personas);
+      final.value.objections = succeeded.flatMap(p => p.objections);
+    }
 
-    return result;
+    onProgress?.('Extracting actionable intel...');
+    
+    if (final.errors.length > 0) {
+      console.warn('AI output had invalid entries, dropped:', final.errors);
+    }
+    
+    return toInsight(
+      final.value,
+      comments,
+      { provider: provider.label, model: final.model },
+      [...warnings, ...final.errors]
+    );
   } catch (error) {
     console.error('AI analysis failed:', error);
     return null;
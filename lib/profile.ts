@@ -0,0 +1,249 @@
+// ============================================
+// THREADMINER - User Profile Mining
+// https://github.com/Sigmabrogz/REDDITMINER
+// Page through /user/name/comments and /submitted
+// and summarize where and how an account posts
+// ============================================
+
+import {
+  RedditRawResponse,
+  RedditRawPost,
+  RedditRawComment,
+  RedditRawUser,
+  NormalizedThread,
+  NormalizedProfile,
+  ProfileComment,
+  ProfileProgress,
+  ProfileSection,
+  ProfileStats,
+  ProfileUser,
+} from './schemas';
+import {
+  parseUserUrl,
+  fetchRedditJson,
+  normalizeComment,
+  normalizePost,
+  escapeCSV,
+  RedditAPIError,
+} from './reddit';
+import { extractDomain } from './utils';
+
+const PAGE_SIZE = 100;
+const TOP_ITEMS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reddit-hosted media says nothing about what an account promotes
+const MEDIA_DOMAIN_REGEX = /(^|\.)(redd\.it|reddit\.com|redditmedia\.com|imgur\.com)$/;
+
+const USER_NOT_FOUND = 'User not found. Check the spelling, or the account may be deleted.';
+
+export interface MineProfileOptions {
+  maxItems: number; // per section
+  onProgress?: (progress: ProfileProgress) => void;
+}
+
+// ============================================
+// Fetching
+// ============================================
+
+async function fetchUser(username: string): Promise<ProfileUser> {
+  const about = await fetchRedditJson<{ data: RedditRawUser }>(
+    `https://www.reddit.com/user/${username}/about.json`,
+    USER_NOT_FOUND
+  );
+  const user = about.data;
+  const createdMs = user.created_utc ? user.created_utc * 1000 : null;
+
+  return {
+    name: user.name,
+    createdAt: createdMs ? new Date(createdMs).toISOString() : null,
+    accountAgeDays: createdMs ? Math.floor((Date.now() - createdMs) / DAY_MS) : null,
+    linkKarma: user.link_karma ?? 0,
+    commentKarma: user.comment_karma ?? 0,
+    isSuspended: !!user.is_suspended,
+  };
+}
+
+async function fetchUserItems<T>(
+  username: string,
+  section: 'comments' | 'submitted',
+  maxItems: number,
+  onProgress?: (progress: ProfileProgress) => void
+): Promise<{ items: T[]; pages: number; truncated: boolean }> {
+  const items: T[] = [];
+  let after: string | null = null;
+  let pages = 0;
+
+  onProgress?.({ section, done: 0, total: maxItems });
+  do {
+    const params = new URLSearchParams({
+      limit: Math.min(PAGE_SIZE, maxItems - items.length).toString(),
+      sort: 'new',
+      raw_json: '1',
+    });
+    if (after) params.set('after', after);
+
+    const listing: RedditRawResponse = await fetchRedditJson<RedditRawResponse>(
+      `https://www.reddit.com/user/${username}/${section}.json?${params}`,
+      USER_NOT_FOUND
+    );
+    pages++;
+
+    for (const child of listing.data?.children || []) {
+      items.push(child.data as T);
+    }
+    onProgress?.({ section, done: Math.min(items.length, maxItems), total: maxItems });
+
+    after = listing.data?.after ?? null;
+  } while (after && items.length < maxItems);
+
+  return { items: items.slice(0, maxItems), pages, truncated: !!after };
+}
+
+// ============================================
+// Normalization + Stats
+// ============================================
+
+function toProfileComment(raw: RedditRawComment): ProfileComment {
+  return {
+    // Profile listings carry no depth - they're out of thread context -
+    // and come from raw_json=1, so bodies aren't entity-escaped
+    ...normalizeComment({ ...raw, depth: raw.depth ?? 0 }, raw.link_id.replace(/^t3_/, ''), { escaped: false }),
+    subreddit: raw.subreddit || '',
+    threadTitle: raw.link_title || '',
+    threadPermalink: raw.link_permalink || '',
+  };
+}
+
+function monthOf(iso: string): string {
+  return iso.slice(0, 7);
+}
+
+export function computeProfileStats(comments: ProfileComment[], posts: NormalizedThread[]): ProfileStats {
+  const subreddits = new Map<string, { comments: number; posts: number; score: number }>();
+  const months = new Map<string, { comments: number; posts: number }>();
+  const domains = new Map<string, number>();
+
+  const subreddit = (name: string) => {
+    const entry = subreddits.get(name) || { comments: 0, posts: 0, score: 0 };
+    subreddits.set(name, entry);
+    return entry;
+  };
+  const month = (iso: string) => {
+    const key = monthOf(iso);
+    const entry = months.get(key) || { comments: 0, posts: 0 };
+    months.set(key, entry);
+    return entry;
+  };
+
+  for (const comment of comments) {
+    const entry = subreddit(comment.subreddit);
+    entry.comments++;
+    entry.score += comment.score;
+    month(comment.createdAt).comments++;
+  }
+
+  for (const post of posts) {
+    const entry = subreddit(post.subreddit);
+    entry.posts++;
+    entry.score += post.score;
+    month(post.createdAt).posts++;
+
+    if (!post.isSelf) {
+      const domain = extractDomain(post.url).replace(/^www\./, '');
+      if (!MEDIA_DOMAIN_REGEX.test(domain)) {
+        domains.set(domain, (domains.get(domain) || 0) + 1);
+      }
+    }
+  }
+
+  const byScore = <T extends { id: string; score: number }>(items: T[]) =>
+    [...items].sort((a, b) => b.score - a.score).slice(0, TOP_ITEMS).map(item => item.id);
+
+  return {
+    totalComments: comments.length,
+    totalPosts: posts.length,
+    commentScore: comments.reduce((sum, c) => sum + c.score, 0),
+    postScore: posts.reduce((sum, p) => sum + p.score, 0),
+    subreddits: [...subreddits.entries()]
+      .map(([name, stats]) => ({ name, ...stats }))
+      .sort((a, b) => (b.comments + b.posts) - (a.comments + a.posts) || b.score - a.score),
+    activity: [...months.entries()]
+      .map(([key, stats]) => ({ month: key, ...stats }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+    linkDomains: [...domains.entries()]
+      .map(([domain, count]) => ({ domain, posts: count }))
+      .sort((a, b) => b.posts - a.posts),
+    topCommentIds: byScore(comments),
+    topPostIds: byScore(posts),
+  };
+}
+
+// ============================================
+// Main Profile Miner
+// ============================================
+
+export async function mineProfile(
+  url: string,
+  options: MineProfileOptions
+): Promise<NormalizedProfile> {
+  const parsed = parseUserUrl(url);
+  if (!parsed) {
+    throw new RedditAPIError(
+      'Invalid profile URL. Paste a reddit.com/user/name link.',
+      0,
+      'parse'
+    );
+  }
+
+  const { username, section } = parsed;
+  const user = await fetchUser(username);
+  if (user.isSuspended) {
+    throw new RedditAPIError(`u/${user.name} is suspended - Reddit hides its history.`, 403, 'forbidden');
+  }
+
+  const comments = section === 'submitted'
+    ? { items: [], pages: 0, truncated: false }
+    : await fetchUserItems<RedditRawComment>(user.name, 'comments', options.maxItems, options.onProgress);
+  const posts = section === 'comments'
+    ? { items: [], pages: 0, truncated: false }
+    : await fetchUserItems<RedditRawPost>(user.name, 'submitted', options.maxItems, options.onProgress);
+
+  const profileComments = comments.items.map(toProfileComment);
+  const profilePosts = posts.items.map(normalizePost);
+
+  return {
+    user,
+    comments: profileComments,
+    posts: profilePosts,
+    stats: computeProfileStats(profileComments, profilePosts),
+    meta: {
+      fetchedAt: new Date().toISOString(),
+      section: section as ProfileSection,
+      pagesFetched: comments.pages + posts.pages,
+      truncated: comments.truncated || posts.truncated,
+    },
+  };
+}
+
+// ============================================
+// Export Formatters
+// ============================================
+
+// Comments and posts in one sheet, newest first
+export function profileToCSV(profile: NormalizedProfile): string {
+  const headers = ['type', 'id', 'subreddit', 'thread_title', 'title_or_body', 'score', 'created_at', 'permalink'];
+
+  const rows = [
+    ...profile.comments.map(c => ({
+      createdAt: c.createdAt,
+      cells: ['comment', c.id, c.subreddit, c.threadTitle, c.body, c.score.toString(), c.createdAt, c.permalink],
+    })),
+    ...profile.posts.map(p => ({
+      createdAt: p.createdAt,
+      cells: ['post', p.id, p.subreddit, p.title, p.isSelf ? p.body : p.url, p.score.toString(), p.createdAt, p.permalink],
+    })),
+  ].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return [headers.join(','), ...rows.map(r => r.cells.map(escapeCSV).join(','))].join('\n');
+}
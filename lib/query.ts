@@ -0,0 +1,242 @@
+// ============================================
+// THREADMINER - Comment Query Language
+// https://github.com/Sigmabrogz/REDDITMINER
+// `author:foo score:>10 is:op has:link "pricing"`
+// parsed once, applied in memory to mined comments
+// ============================================
+
+import {
+  NormalizedComment,
+  NormalizedData,
+  RedditRawChild,
+  RedditRawComment,
+  RedditRawResponse,
+  CommentQueryField,
+  CommentQueryOperator,
+  CommentQueryTerm,
+  ParsedCommentQuery,
+} from './schemas';
+
+const FIELDS: CommentQueryField[] = ['text', 'author', 'score', 'depth', 'words', 'is', 'has', 'after', 'before', 'lang'];
+const NUMERIC_FIELDS: CommentQueryField[] = ['score', 'depth', 'words'];
+const DATE_FIELDS: CommentQueryField[] = ['after', 'before'];
+
+const IS_VALUES = ['op', 'root', 'edited', 'deleted', 'stickied', 'mod', 'controversial'] as const;
+const HAS_VALUES = ['link', 'mention', 'quote', 'code', 'award', 'replies'] as const;
+
+// Optional `-`, optional `field:`, then a "quoted phrase" or a bare word
+const TOKEN_REGEX = /(-)?(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+const NUMBER_REGEX = /^(>=|<=|>|<|=)?(-?\d+)$/;
+const DATE_REGEX = /^\d{4}-\d{2}(-\d{2})?$/;
+
+export const QUERY_EXAMPLES = ['is:op', 'has:link', 'score:>10', 'depth:0', '-is:deleted', 'after:2024-01-01'];
+
+// ============================================
+// Parsing
+// ============================================
+
+function parseTerm(field: CommentQueryField, raw: string, negated: boolean): CommentQueryTerm | string {
+  if (NUMERIC_FIELDS.includes(field)) {
+    const match = raw.match(NUMBER_REGEX);
+    if (!match) return `"${field}:${raw}" needs a number, e.g. ${field}:>5`;
+    return { field, operator: (match[1] || '=') as CommentQueryOperator, value: match[2], negated };
+  }
+
+  if (DATE_FIELDS.includes(field)) {
+    if (!DATE_REGEX.test(raw) || Number.isNaN(Date.parse(raw))) {
+      return `"${field}:${raw}" needs a date, e.g. ${field}:2024-01-31`;
+    }
+    return { field, operator: field === 'after' ? '>=' : '<', value: raw, negated };
+  }
+
+  const value = raw.toLowerCase();
+  if (field === 'is' && !(IS_VALUES as readonly string[]).includes(value)) {
+    return `Unknown "is:${raw}". Use one of: ${IS_VALUES.join(', ')}`;
+  }
+  if (field === 'has' && !(HAS_VALUES as readonly string[]).includes(value)) {
+    return `Unknown "has:${raw}". Use one of: ${HAS_VALUES.join(', ')}`;
+  }
+
+  return {
+    field,
+    operator: '=',
+    value: field === 'author' ? value.replace(/^\/?u\//, '') : value,
+    negated,
+  };
+}
+
+/**
+ * Space-separated terms, all of which must match. `-` negates a term.
+ * Tokens that don't parse are reported in `errors` and left out, so a
+ * typo narrows nothing instead of emptying the result.
+ */
+export function parseCommentQuery(source: string): ParsedCommentQuery {
+  const terms: CommentQueryTerm[] = [];
+  const errors: string[] = [];
+
+  for (const match of source.matchAll(TOKEN_REGEX)) {
+    const [token, minus, name, quoted, bare] = match;
+    const raw = quoted ?? bare ?? '';
+    const negated = !!minus;
+
+    if (!name) {
+      // `author: foo` - the space leaves the field on its own
+      if (/^[a-z]+:$/i.test(raw)) {
+        errors.push(`"${raw}" is missing a value`);
+        continue;
+      }
+      if (raw) terms.push({ field: 'text', operator: '=', value: raw.toLowerCase(), negated });
+      continue;
+    }
+
+    const field = name.toLowerCase() as CommentQueryField;
+    if (!FIELDS.includes(field)) {
+      // "https://..." in a bare search is text, not an unknown filter
+      if (raw.startsWith('//')) {
+        terms.push({ field: 'text', operator: '=', value: token.replace(/^-/, '').toLowerCase(), negated });
+      } else {
+        errors.push(`Unknown filter "${name}:". Use one of: ${FIELDS.join(', ')}`);
+      }
+      continue;
+    }
+    if (!raw) {
+      errors.push(`"${name}:" is missing a value`);
+      continue;
+    }
+
+    const term = parseTerm(field, raw, negated);
+    if (typeof term === 'string') {
+      errors.push(term);
+    } else {
+      terms.push(term);
+    }
+  }
+
+  return { source, terms, errors };
+}
+
+// ============================================
+// Matching
+// ============================================
+
+function compare(actual: number, operator: CommentQueryOperator, expected: number): boolean {
+  switch (operator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+}
+
+// `repliedTo` holds ids of comments with at least one mined reply
+function matchesTerm(comment: NormalizedComment, term: CommentQueryTerm, repliedTo: Set<string>): boolean {
+  switch (term.field) {
+    case 'text':
+      return comment.plainText.toLowerCase().includes(term.value)
+        || comment.body.toLowerCase().includes(term.value);
+    case 'author':
+      return comment.author.toLowerCase() === term.value;
+    case 'score':
+      return compare(comment.score, term.operator, Number(term.value));
+    case 'depth':
+      return compare(comment.depth, term.operator, Number(term.value));
+    case 'words':
+      return compare(comment.wordCount, term.operator, Number(term.value));
+    case 'after':
+    case 'before':
+      return compare(comment.createdUtc * 1000, term.operator, Date.parse(term.value));
+    case 'lang':
+      return comment.language === term.value;
+    case 'is':
+      switch (term.value) {
+        case 'op': return comment.isOP;
+        case 'root': return comment.parentId.startsWith('t3_');
+        case 'edited': return comment.edited;
+        case 'deleted': return comment.author === '[deleted]' || comment.body === '[deleted]' || comment.body === '[removed]';
+        case 'stickied': return comment.isStickied;
+        case 'mod': return comment.isDistinguished;
+        case 'controversial': return comment.controversiality > 0;
+      }
+      return false;
+    case 'has':
+      switch (term.value) {
+        case 'link': return comment.links.length > 0;
+        case 'mention': return comment.mentions.users.length + comment.mentions.subreddits.length > 0;
+        case 'quote': return comment.quotes.length > 0;
+        case 'code': return comment.codeBlocks.length > 0;
+        case 'award': return comment.awards > 0;
+        case 'replies': return repliedTo.has(comment.id);
+      }
+      return false;
+  }
+}
+
+export function filterComments(comments: NormalizedComment[], query: ParsedCommentQuery): NormalizedComment[] {
+  if (query.terms.length === 0) return comments;
+
+  const repliedTo = new Set(comments.map(c => c.parentId.slice(3)));
+  return comments.filter(comment =>
+    query.terms.every(term => matchesTerm(comment, term, repliedTo) !== term.negated)
+  );
+}
+
+/**
+ * Narrow a mined thread to the comments matching `source`. Returns the
+ * same object when nothing applies, so callers can memoize on it.
+ * Replies whose parent was filtered out become roots of the comment tree.
+ */
+export function applyCommentQuery(data: NormalizedData, source: string): NormalizedData {
+  const query = parseCommentQuery(source);
+  if (query.terms.length === 0) return data;
+
+  const comments = filterComments(data.comments, query);
+  return {
+    ...data,
+    comments,
+    meta: {
+      ...data.meta,
+      totalComments: comments.length,
+      maxDepth: comments.reduce((max, c) => Math.max(max, c.depth), 0),
+      query: source.trim(),
+    },
+  };
+}
+
+/**
+ * Prune a raw `[post, comments]` pair to the given comments. Raw JSON is
+ * nested, so ancestors of a kept comment stay in to keep it reachable.
+ * "Load more" stubs are dropped - they can't match anything.
+ */
+export function filterRawThread(
+  raw: [RedditRawResponse, RedditRawResponse],
+  keepIds: Set<string>
+): [RedditRawResponse, RedditRawResponse] {
+  function prune(children: RedditRawChild[]): RedditRawChild[] {
+    const kept: RedditRawChild[] = [];
+
+    for (const child of children) {
+      if (child.kind !== 't1') continue;
+      const comment = child.data as RedditRawComment;
+      const listing = comment.replies || null;
+      const replies = listing ? prune(listing.data.children) : [];
+
+      if (keepIds.has(comment.id) || replies.length > 0) {
+        kept.push({
+          ...child,
+          data: {
+            ...comment,
+            replies: listing && replies.length > 0
+              ? { ...listing, data: { ...listing.data, children: replies } }
+              : '',
+          },
+        });
+      }
+    }
+
+    return kept;
+  }
+
+  const [post, comments] = raw;
+  return [post, { ...comments, data: { ...comments.data, children: prune(comments.data.children) } }];
+}
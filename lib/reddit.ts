@@ -5,44 +5,204 @@
 
 import {
   RedditRawResponse,
+  RedditRawChild,
   RedditRawComment,
   RedditRawPost,
   RedditRawMore,
+  RedditMoreChildrenResponse,
   NormalizedThread,
   NormalizedComment,
   NormalizedData,
   DepthLevel,
+  CommentFocus,
+  ExpandMoreOptions,
+  ExpandProgress,
   FetchThreadRequest,
   FetchThreadResponse,
+  ResolveUrlResponse,
+  RedditErrorType,
+  ListingSource,
+  ListingSort,
+  ListingTimeframe,
+  ProfileSection,
+  ThreadPostType,
+  ThreadImage,
+  ThreadVideo,
+  ThreadPoll,
+  ThreadCrosspost,
+  CommentLink,
+  CommentEnrichment,
+  CommentTreeNode,
+  NormalizedCommentTree,
 } from './schemas';
+import { applyCommentQuery, filterRawThread } from './query';
+import { measureEngagement, UnmeasuredComment } from './metrics';
+import { mapWithConcurrency, extractDomain, formatDuration } from './utils';
+import { redditScheduler } from './scheduler';
 
 // ============================================
 // URL Parsing & Validation
 // ============================================
 
-const REDDIT_URL_REGEX = /^https?:\/\/(www\.|old\.|new\.)?reddit\.com\/r\/[\w]+\/comments\/[\w]+/;
+// Every host that serves the same pages as www.reddit.com
+const REDDIT_HOST = String.raw`(?:www\.|old\.|new\.|m\.|sh\.|np\.)?reddit\.com`;
 
-export function isValidRedditUrl(url: string): boolean {
-  return REDDIT_URL_REGEX.test(url);
-}
+// /r/x/comments/id, /comments/id, optional slug and comment id
+// (new Reddit writes /comments/id/comment/commentId instead of a slug)
+const THREAD_URL_REGEX = new RegExp(
+  String.raw`^https?:\/\/${REDDIT_HOST}(?:\/r\/(\w+))?\/comments\/(\w+)(?:\/([^/?#]*)(?:\/(\w+))?)?`,
+  'i'
+);
+const SHORT_URL_REGEX = /^https?:\/\/(?:www\.)?redd\.it\/(\w+)\/?(?:[?#].*)?$/i;
+// App share links (/r/x/s/AbC123) only say where they point via a redirect
+const SHARE_URL_REGEX = new RegExp(String.raw`^https?:\/\/${REDDIT_HOST}\/r\/\w+\/s\/\w+\/?(?:[?#].*)?$`, 'i');
 
-export function parseRedditUrl(url: string): {
-  subreddit: string;
+export interface ParsedRedditUrl {
+  subreddit: string; // '' for redd.it and /comments/id links
   postId: string;
   slug: string;
-} | null {
+  commentId: string | null; // set for comment permalinks
+  context: number | null; // ?context=N ancestors to show above the comment
+}
+
+export function isValidRedditUrl(url: string): boolean {
+  return parseRedditUrl(url) !== null || isShareUrl(url);
+}
+
+export function isShareUrl(url: string): boolean {
+  return SHARE_URL_REGEX.test(url.trim());
+}
+
+export function parseRedditUrl(url: string): ParsedRedditUrl | null {
+  const trimmed = url.trim();
+  
+  const short = trimmed.match(SHORT_URL_REGEX);
+  if (short) {
+    return { subreddit: '', postId: short[1], slug: '', commentId: null, context: null };
+  }
+  
+  const match = trimmed.match(THREAD_URL_REGEX);
+  if (!match) return null;
+  
+  let context: number | null = null;
   try {
-    const match = url.match(/reddit\.com\/r\/([\w]+)\/comments\/([\w]+)(?:\/([^/?]+))?/);
-    if (!match) return null;
-    
-    return {
-      subreddit: match[1],
-      postId: match[2],
-      slug: match[3] || '',
-    };
+    const value = parseInt(new URL(trimmed).searchParams.get('context') || '', 10);
+    context = Number.isFinite(value) && value >= 0 ? value : null;
   } catch {
-    return null;
+    // Unparseable query string - the path is still usable
+  }
+  
+  return {
+    subreddit: match[1] || '',
+    postId: match[2],
+    slug: match[3] === 'comment' ? '' : match[3] || '',
+    commentId: match[4] || null,
+    context,
+  };
+}
+
+// Parent comments kept above a focused comment when the link has no ?context=
+const DEFAULT_FOCUS_CONTEXT = 3;
+
+// What normalizeThread should narrow to, for comment permalinks only
+export function getCommentFocus(url: string): CommentFocus | undefined {
+  const parsed = parseRedditUrl(url);
+  if (!parsed?.commentId) return undefined;
+  return { commentId: parsed.commentId, context: parsed.context ?? DEFAULT_FOCUS_CONTEXT };
+}
+
+/**
+ * Rewrite any thread or comment link (mobile and short hosts, new-Reddit
+ * comment paths, tracking params) to https://www.reddit.com/r/x/comments/id/slug/
+ * plus the comment id and ?context when present. Share links need
+ * resolveRedditUrl first. Returns null for anything that isn't a thread.
+ */
+export function canonicalizeRedditUrl(url: string): string | null {
+  const parsed = parseRedditUrl(url);
+  if (!parsed) return null;
+  
+  const base = parsed.subreddit
+    ? `https://www.reddit.com/r/${parsed.subreddit}/comments/${parsed.postId}/`
+    : `https://www.reddit.com/comments/${parsed.postId}/`;
+  if (!parsed.commentId) {
+    return parsed.slug ? `${base}${parsed.slug}/` : base;
   }
+  
+  // Reddit ignores the slug, but a comment id needs something in its place
+  const permalink = `${base}${parsed.slug || '_'}/${parsed.commentId}/`;
+  return parsed.context !== null ? `${permalink}?context=${parsed.context}` : permalink;
+}
+
+// Subreddit listings (/r/x, /r/x/top?t=month) and searches (/r/x/search?q=, /search?q=)
+const LISTING_URL_REGEX = /^https?:\/\/(www\.|old\.|new\.|m\.|sh\.|np\.)?reddit\.com\/(?:r\/([\w]+)\/?(?:(hot|new|top|rising|controversial|search)\/?)?|(search)\/?)(?:[?#].*)?$/;
+
+const LISTING_TIMEFRAMES: ListingTimeframe[] = ['hour', 'day', 'week', 'month', 'year', 'all'];
+
+export function isListingUrl(url: string): boolean {
+  return parseListingUrl(url) !== null;
+}
+
+export function parseListingUrl(url: string): ListingSource | null {
+  const match = url.trim().match(LISTING_URL_REGEX);
+  if (!match) return null;
+  
+  const params = new URL(url.trim()).searchParams;
+  const subreddit = match[2] || null;
+  const sort = (match[3] || match[4] || 'hot') as ListingSort;
+  const query = params.get('q');
+  
+  // A search page without a query has nothing to mine
+  if (sort === 'search' && !query) return null;
+  
+  const t = params.get('t') as ListingTimeframe | null;
+  const timeframe = t && LISTING_TIMEFRAMES.includes(t) && (sort === 'top' || sort === 'controversial' || sort === 'search')
+    ? t
+    : null;
+  
+  return {
+    url: url.trim(),
+    subreddit,
+    sort,
+    timeframe,
+    query: sort === 'search' ? query : null,
+    searchSort: sort === 'search' ? params.get('sort') : null,
+  };
+}
+
+// /user/name, /u/name and their /comments and /submitted tabs
+const USER_URL_REGEX = /^https?:\/\/(www\.|old\.|new\.|m\.|sh\.|np\.)?reddit\.com\/(?:user|u)\/([\w-]+)\/?(?:(overview|comments|submitted)\/?)?(?:[?#].*)?$/;
+
+export function isUserUrl(url: string): boolean {
+  return parseUserUrl(url) !== null;
+}
+
+export function parseUserUrl(url: string): { username: string; section: ProfileSection } | null {
+  const match = url.trim().match(USER_URL_REGEX);
+  if (!match) return null;
+  return { username: match[2], section: (match[3] || 'overview') as ProfileSection };
+}
+
+export function buildListingJsonUrl(
+  source: ListingSource,
+  options: { after?: string | null; limit?: number } = {}
+): string {
+  const base = source.subreddit
+    ? `https://www.reddit.com/r/${source.subreddit}/${source.sort}.json`
+    : 'https://www.reddit.com/search.json';
+  
+  const params = new URLSearchParams();
+  if (source.sort === 'search' && source.query) {
+    params.set('q', source.query);
+    params.set('type', 'link');
+    if (source.subreddit) params.set('restrict_sr', '1');
+    if (source.searchSort) params.set('sort', source.searchSort);
+  }
+  if (source.timeframe) params.set('t', source.timeframe);
+  if (options.limit) params.set('limit', options.limit.toString());
+  if (options.after) params.set('after', options.after);
+  
+  const queryString = params.toString();
+  return queryString ? `${base}?${queryString}` : base;
 }
 
 export function buildJsonUrl(
@@ -53,13 +213,24 @@ export function buildJsonUrl(
     depth?: number;
   } = {}
 ): string {
-  // Clean the URL and add .json
-  let cleanUrl = url.split('?')[0]; // Remove query params
-  if (!cleanUrl.endsWith('/')) cleanUrl += '/';
-  cleanUrl = cleanUrl.replace(/\/$/, '.json');
+  // Comment permalinks fetch just that subtree plus its parents, not the whole thread
+  const parsed = parseRedditUrl(url);
+  const focus = getCommentFocus(url);
+  let cleanUrl: string;
+  if (parsed) {
+    const base = parsed.subreddit
+      ? `https://www.reddit.com/r/${parsed.subreddit}/comments/${parsed.postId}`
+      : `https://www.reddit.com/comments/${parsed.postId}`;
+    cleanUrl = focus ? `${base}/_/${focus.commentId}.json` : `${base}.json`;
+  } else {
+    cleanUrl = url.split('?')[0]; // Remove query params
+    if (!cleanUrl.endsWith('/')) cleanUrl += '/';
+    cleanUrl = cleanUrl.replace(/\/$/, '.json');
+  }
   
   // Add query params
   const params = new URLSearchParams();
+  if (focus) params.set('context', focus.context.toString());
   if (options.sort) params.set('sort', options.sort);
   if (options.limit) params.set('limit', options.limit.toString());
   if (options.depth) params.set('depth', options.depth.toString());
@@ -76,18 +247,50 @@ export class RedditAPIError extends Error {
   constructor(
     message: string,
     public statusCode: number,
-    public errorType: 'rate_limit' | 'not_found' | 'forbidden' | 'server_error' | 'network' | 'parse'
+    public errorType: RedditErrorType
   ) {
     super(message);
     this.name = 'RedditAPIError';
   }
 }
 
+export function redditErrorFromStatus(
+  status: number,
+  notFoundMessage: string = 'Thread not found. It may have been deleted, or the URL is incorrect.'
+): RedditAPIError {
+  switch (status) {
+    case 404:
+      return new RedditAPIError(notFoundMessage, 404, 'not_found');
+    case 403:
+      return new RedditAPIError(
+        'Access denied. This subreddit may be private, quarantined, or banned.',
+        403,
+        'forbidden'
+      );
+    case 429:
+      // The scheduler already backed off and retried; report the remaining wait
+      return new RedditAPIError(
+        `Reddit rate limit hit. Please wait ${redditScheduler.waitSeconds() || 60} seconds and try again.`,
+        429,
+        'rate_limit'
+      );
+    default:
+      return new RedditAPIError(
+        `Reddit returned an error (${status}). Try again later.`,
+        status,
+        'server_error'
+      );
+  }
+}
+
 // ============================================
 // Fetch Raw Thread Data (Server-side only)
-// Note: Client-side uses direct browser fetch in page.tsx
+// Note: Browsers use fetchThreadClientSide below
 // ============================================
 
+// Reddit throttles requests without a descriptive User-Agent
+const SERVER_USER_AGENT = 'web:threadminer:0.1.0 (+https://github.com/Sigmabrogz/REDDITMINER)';
+
 export async function fetchRawThread(
   url: string,
   options: {
@@ -97,41 +300,23 @@ export async function fetchRawThread(
 ): Promise<[RedditRawResponse, RedditRawResponse]> {
   const jsonUrl = buildJsonUrl(url, options);
   
-  const response = await fetch(jsonUrl, {
+  const response = await redditScheduler.schedule(jsonUrl, {
     headers: {
       'Accept': 'application/json',
       'Accept-Language': 'en-US,en;q=0.9',
       'Referer': 'https://www.reddit.com/',
+      'User-Agent': SERVER_USER_AGENT,
     },
   });
   
+  return parseThreadResponse(response);
+}
+
+async function parseThreadResponse(
+  response: Response
+): Promise<[RedditRawResponse, RedditRawResponse]> {
   if (!response.ok) {
-    switch (response.status) {
-      case 404:
-        throw new RedditAPIError(
-          'Thread not found. It may have been deleted, or the URL is incorrect.',
-          404,
-          'not_found'
-        );
-      case 403:
-        throw new RedditAPIError(
-          'Access denied. This subreddit may be private, quarantined, or banned.',
-          403,
-          'forbidden'
-        );
-      case 429:
-        throw new RedditAPIError(
-          'Reddit rate limit hit. Please wait 60 seconds and try again.',
-          429,
-          'rate_limit'
-        );
-      default:
-        throw new RedditAPIError(
-          `Reddit returned an error (${response.status}). Try again later.`,
-          response.status,
-          'server_error'
-        );
-    }
+    throw redditErrorFromStatus(response.status);
   }
   
   const data = await response.json();
@@ -147,11 +332,721 @@ export async function fetchRawThread(
   return data as [RedditRawResponse, RedditRawResponse];
 }
 
+// Fetch any other Reddit .json endpoint (listings, morechildren) from browser or server
+export async function fetchRedditJson<T>(
+  jsonUrl: string,
+  notFoundMessage?: string
+): Promise<T> {
+  const response = await redditScheduler.schedule(jsonUrl, {
+    headers: typeof window === 'undefined'
+      ? { 'Accept': 'application/json', 'User-Agent': SERVER_USER_AGENT }
+      : { 'Accept': 'application/json' },
+    credentials: 'omit',
+  });
+  
+  if (!response.ok) {
+    throw redditErrorFromStatus(response.status, notFoundMessage);
+  }
+  
+  try {
+    return (await response.json()) as T;
+  } catch {
+    throw new RedditAPIError('Invalid response from Reddit.', 0, 'parse');
+  }
+}
+
+// ============================================
+// Browser Fetch
+// Reddit allows CORS from most browsers; when it doesn't
+// (extensions, strict privacy modes) we go through /api/thread
+// ============================================
+
+export async function fetchThreadClientSide(
+  url: string,
+  options: { sort: string; limit: number }
+): Promise<[RedditRawResponse, RedditRawResponse]> {
+  const jsonUrl = buildJsonUrl(url, options);
+  
+  const response = await redditScheduler.schedule(jsonUrl, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+      'Accept-Language': 'en-US,en;q=0.9',
+    },
+    credentials: 'omit',
+  });
+  
+  return parseThreadResponse(response);
+}
+
+// fetch() rejects with a bare TypeError when CORS or the network blocks it
+export function isBlockedRequestError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+export async function fetchThreadViaServer(
+  request: FetchThreadRequest
+): Promise<{ raw: [RedditRawResponse, RedditRawResponse]; data: NormalizedData }> {
+  let result: FetchThreadResponse;
+  
+  try {
+    const response = await fetch('/api/thread', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    result = await response.json();
+  } catch {
+    throw new RedditAPIError(
+      'Could not reach Reddit from the browser or the ThreadMiner server. Check your connection.',
+      0,
+      'network'
+    );
+  }
+  
+  if (!result.success || !result.data || !result.raw) {
+    throw new RedditAPIError(
+      result.error || 'The ThreadMiner server could not fetch this thread.',
+      0,
+      result.errorType && result.errorType !== 'invalid_request' ? result.errorType : 'server_error'
+    );
+  }
+  
+  return { raw: result.raw, data: result.data };
+}
+
+// ============================================
+// Share Link Resolution
+// ============================================
+
+// Follows the share link's redirect; server-side only, browsers can't read it cross-origin
+export async function resolveShareUrl(url: string): Promise<string> {
+  const response = await redditScheduler.schedule(url.trim(), {
+    headers: { 'User-Agent': SERVER_USER_AGENT },
+    redirect: 'manual',
+  });
+  response.body?.cancel().catch(() => {});
+  
+  const location = response.headers.get('location');
+  const target = location ? new URL(location, 'https://www.reddit.com').toString() : null;
+  
+  if (!target || !parseRedditUrl(target)) {
+    throw response.status === 404 || (response.status >= 300 && response.status < 400)
+      ? new RedditAPIError('This share link doesn\'t point to a Reddit thread.', 404, 'not_found')
+      : redditErrorFromStatus(response.status, 'Share link not found. It may have expired.');
+  }
+  
+  return target;
+}
+
+async function resolveShareUrlViaServer(url: string): Promise<string> {
+  let result: ResolveUrlResponse;
+  
+  try {
+    const response = await fetch(`/api/resolve?url=${encodeURIComponent(url.trim())}`);
+    result = await response.json();
+  } catch {
+    throw new RedditAPIError('Could not reach the ThreadMiner server to resolve this share link.', 0, 'network');
+  }
+  
+  if (!result.success || !result.url) {
+    throw new RedditAPIError(
+      result.error || 'Could not resolve this share link.',
+      0,
+      result.errorType && result.errorType !== 'invalid_request' ? result.errorType : 'server_error'
+    );
+  }
+  
+  return result.url;
+}
+
+// Canonical thread/comment URL for anything the user pastes, resolving share links
+export async function resolveRedditUrl(url: string): Promise<string> {
+  let target = url;
+  
+  if (isShareUrl(url)) {
+    target = typeof window === 'undefined'
+      ? await resolveShareUrl(url)
+      : await resolveShareUrlViaServer(url);
+  }
+  
+  const canonical = canonicalizeRedditUrl(target);
+  if (!canonical) {
+    throw new RedditAPIError(
+      'Invalid Reddit URL. Please paste a link to a Reddit thread or comment.',
+      0,
+      'parse'
+    );
+  }
+  return canonical;
+}
+
+// ============================================
+// Expand "load more comments" stubs
+// Uses /api/morechildren to pull in the replies Reddit
+// leaves out of the initial response, then merges them
+// into the raw tree so normalizeThread sees one listing.
+// ============================================
+
+const MORECHILDREN_URL = 'https://www.reddit.com/api/morechildren.json';
+const MORECHILDREN_MAX_BATCH = 100;
+
+const DEFAULT_EXPAND_OPTIONS: Required<ExpandMoreOptions> = {
+  maxRequests: 20,
+  concurrency: 2,
+  batchSize: MORECHILDREN_MAX_BATCH,
+};
+
+export function buildMoreChildrenUrl(
+  linkId: string,
+  children: string[],
+  sort?: string
+): string {
+  const params = new URLSearchParams({
+    api_type: 'json',
+    link_id: linkId,
+    children: children.join(','),
+    limit_children: 'false',
+  });
+  if (sort) params.set('sort', sort);
+  return `${MORECHILDREN_URL}?${params.toString()}`;
+}
+
+async function fetchMoreChildren(
+  linkId: string,
+  children: string[],
+  sort?: string
+): Promise<RedditRawChild[]> {
+  const data = await fetchRedditJson<RedditMoreChildrenResponse>(
+    buildMoreChildrenUrl(linkId, children, sort)
+  );
+  return data.json?.data?.things || [];
+}
+
+interface PendingStub {
+  more: RedditRawMore;
+  container: RedditRawChild[];
+}
+
+export async function expandMoreComments(
+  raw: [RedditRawResponse, RedditRawResponse],
+  options: ExpandMoreOptions & {
+    depth?: DepthLevel;
+    sort?: string;
+    onProgress?: (progress: ExpandProgress) => void;
+  } = {}
+): Promise<{ raw: [RedditRawResponse, RedditRawResponse]; progress: ExpandProgress }> {
+  const { maxRequests, concurrency } = { ...DEFAULT_EXPAND_OPTIONS, ...options };
+  // mapWithConcurrency starts no workers for a NaN limit, so nothing would be fetched
+  if (!(maxRequests >= 1 && concurrency >= 1 && Number.isFinite(maxRequests) && Number.isFinite(concurrency))) {
+    throw new Error('expandMoreComments: maxRequests and concurrency must be positive numbers');
+  }
+  const batchSize = Math.min(options.batchSize || MORECHILDREN_MAX_BATCH, MORECHILDREN_MAX_BATCH);
+  const maxDepth = depthLimit(options.depth || 'full');
+  
+  const expanded = structuredClone(raw);
+  const [postListing, commentsListing] = expanded;
+  const linkId = (postListing.data.children[0]?.data as RedditRawPost | undefined)?.name;
+  const progress: ExpandProgress = { expanded: 0, total: 0, requests: 0 };
+  
+  if (!linkId || !commentsListing.data?.children) {
+    return { raw: expanded, progress };
+  }
+  
+  // Index every comment by fullname so fetched replies can find their parent
+  const commentsByName = new Map<string, RedditRawComment>();
+  const pending: PendingStub[] = [];
+  
+  function collect(children: RedditRawChild[]) {
+    for (const child of children) {
+      if (child.kind === 'more') {
+        const more = child.data as RedditRawMore;
+        // "Continue this thread" stubs have no IDs and can't be fetched here
+        if (more.children?.length && more.depth <= maxDepth) {
+          pending.push({ more, container: children });
+          progress.total += more.count || more.children.length;
+        }
+      } else if (child.kind === 't1') {
+        const comment = child.data as RedditRawComment;
+        commentsByName.set(comment.name, comment);
+        if (comment.replies && typeof comment.replies !== 'string') {
+          collect(comment.replies.data.children);
+        }
+      }
+    }
+  }
+  
+  function containerFor(parentId: string): RedditRawChild[] | null {
+    if (parentId === linkId) return commentsListing.data.children;
+    
+    const parent = commentsByName.get(parentId);
+    if (!parent) return null;
+    
+    if (!parent.replies || typeof parent.replies === 'string') {
+      parent.replies = {
+        kind: 'Listing',
+        data: { children: [], after: null, before: null },
+      };
+    }
+    return parent.replies.data.children;
+  }
+  
+  collect(commentsListing.data.children);
+  options.onProgress?.({ ...progress });
+  
+  while (pending.length > 0 && progress.requests < maxRequests) {
+    // Take every outstanding stub off the queue; the ones we can't fit
+    // into this round's request budget are put back untouched.
+    const round = pending.splice(0, pending.length);
+    const ids: string[] = [];
+    for (const { more } of round) ids.push(...more.children);
+    
+    const batches: string[][] = [];
+    for (let i = 0; i < ids.length && batches.length < maxRequests - progress.requests; i += batchSize) {
+      batches.push(ids.slice(i, i + batchSize));
+    }
+    
+    // null marks a batch that failed or was skipped after a 429
+    let rateLimited = false;
+    const results = await mapWithConcurrency(batches, concurrency, async (batch) => {
+      if (rateLimited) return null;
+      try {
+        return await fetchMoreChildren(linkId, batch, options.sort);
+      } catch (error) {
+        if (error instanceof RedditAPIError && error.errorType === 'rate_limit') {
+          rateLimited = true;
+        }
+        return null;
+      } finally {
+        progress.requests++;
+      }
+    });
+    const requested = new Set(batches.flat());
+    const resolved = new Set(batches.filter((_, i) => results[i] !== null).flat());
+    
+    // Things come back flat and parent-first, so a single pass can attach them
+    for (const things of results) {
+      for (const thing of things || []) {
+        if (thing.kind === 't1') {
+          const comment = thing.data as RedditRawComment;
+          if (commentsByName.has(comment.name)) continue;
+          
+          const container = containerFor(comment.parent_id);
+          if (!container) continue;
+          
+          container.push(thing);
+          commentsByName.set(comment.name, comment);
+          progress.expanded++;
+        } else if (thing.kind === 'more') {
+          const more = thing.data as RedditRawMore;
+          const container = containerFor(more.parent_id);
+          if (!container) continue;
+          
+          container.push(thing);
+          if (more.children?.length && more.depth <= maxDepth) {
+            pending.push({ more, container });
+          }
+        }
+      }
+    }
+    
+    // Only drop IDs whose batch came back. Unrequested and failed ones stay
+    // in their stub (moved after the new replies) so moreCommentsAvailable
+    // still counts them. Stubs with unrequested IDs stay queued
+    for (const stub of round) {
+      const index = stub.container.findIndex(c => c.data === stub.more);
+      if (index === -1) continue;
+      const [child] = stub.container.splice(index, 1);
+      
+      const remaining = stub.more.children.filter(id => !resolved.has(id));
+      if (remaining.length === 0) continue;
+      
+      stub.more.count = Math.max(remaining.length, stub.more.count - (stub.more.children.length - remaining.length));
+      stub.more.children = remaining;
+      stub.container.push(child);
+      if (remaining.some(id => !requested.has(id))) pending.push(stub);
+    }
+    
+    progress.total = Math.max(progress.total, progress.expanded);
+    options.onProgress?.({ ...progress });
+    
+    if (rateLimited) break;
+  }
+  
+  return { raw: expanded, progress };
+}
+
+// ============================================
+// Comment Enrichment
+// Splits a comment's markdown into the author's own words,
+// quoted text and code, and pulls out links and mentions
+// ============================================
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' ',
+};
+
+// Bodies are fetched without raw_json=1, so they come entity-escaped.
+// Out-of-range code points stay as written - fromCodePoint would throw
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    if (!(point <= 0x10ffff)) return entity;
+    // Reddit pads empty lines with zero-width spaces
+    return point === 0x200b ? '' : String.fromCodePoint(point);
+  });
+}
+
+const MARKDOWN_LINK_REGEX = /\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/g;
+const BARE_URL_REGEX = /https?:\/\/[^\s<>()[\]]+/g;
+const USER_MENTION_REGEX = /(?:^|[^\w/])\/?u\/([\w-]{3,20})/g;
+const SUBREDDIT_MENTION_REGEX = /(?:^|[^\w/])\/?r\/(\w{2,21})/g;
+
+function uniqueIgnoringCase(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function extractLinks(text: string): CommentLink[] {
+  const links: CommentLink[] = [];
+  const seen = new Set<string>();
+  const add = (url: string, linkText: string | null) => {
+    if (seen.has(url)) return;
+    seen.add(url);
+    links.push({ url, domain: extractDomain(url).replace(/^www\./, ''), text: linkText });
+  };
+  
+  for (const [, linkText, url] of text.matchAll(MARKDOWN_LINK_REGEX)) {
+    add(url, linkText && linkText !== url ? linkText : null);
+  }
+  for (const [url] of text.replace(MARKDOWN_LINK_REGEX, ' ').matchAll(BARE_URL_REGEX)) {
+    add(url.replace(/[.,!?;:'"*_]+$/, ''), null);
+  }
+  
+  return links;
+}
+
+// Inline markdown to plain text; links keep their URL so promo checks still see it
+function stripInlineMarkdown(line: string): string {
+  return line
+    .replace(/^\s{0,3}#{1,6}\s+/, '')
+    .replace(/^\s*[-*+]\s+/, '')
+    .replace(/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/, '')
+    .replace(MARKDOWN_LINK_REGEX, (_, text: string, url: string) => (!text || text === url ? url : `${text} (${url})`))
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/>!(.+?)!</g, '$1')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)/g, '$1$2')
+    .replace(/(^|\W)_(?!\s)(.+?)_(?!\w)/g, '$1$2')
+    .replace(/\^\((.+?)\)/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>~^|])/g, '$1');
+}
+
+// Stopwords frequent in one language and rare in the others
+const LANGUAGE_STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'was', 'to', 'of', 'that', 'it', 'you', 'this', 'with', 'for', 'have', 'not', 'but', 'what', 'they', 'be', 'my'],
+  es: ['el', 'los', 'las', 'que', 'y', 'es', 'por', 'con', 'para', 'una', 'lo', 'pero', 'muy', 'más', 'como', 'está', 'del', 'yo', 'su', 'también'],
+  fr: ['le', 'les', 'et', 'est', 'des', 'une', 'pas', 'pour', 'dans', 'je', 'vous', 'ce', 'qui', 'sur', 'avec', 'mais', 'très', 'au', 'du', 'sont'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'zu', 'mit', 'ein', 'eine', 'auch', 'auf', 'sie', 'den', 'dem', 'aber', 'sehr', 'für', 'wie'],
+  pt: ['os', 'não', 'um', 'uma', 'com', 'para', 'em', 'do', 'da', 'mas', 'muito', 'você', 'isso', 'é', 'são', 'eu', 'tem', 'mais', 'ao', 'seu'],
+  it: ['il', 'che', 'di', 'è', 'non', 'per', 'sono', 'mi', 'ma', 'anche', 'questo', 'molto', 'della', 'gli', 'perché', 'ho', 'io', 'come', 'una', 'nel'],
+  nl: ['het', 'een', 'en', 'niet', 'van', 'dat', 'ik', 'je', 'op', 'te', 'zijn', 'met', 'voor', 'maar', 'ook', 'wel', 'er', 'naar', 'heb', 'dit'],
+};
+
+// Non-Latin scripts, mapped to their most common language on Reddit
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/[\u3040-\u30ff]/, 'ja'],
+  [/[\uac00-\ud7af]/, 'ko'],
+  [/[\u4e00-\u9fff]/, 'zh'],
+  [/[\u0400-\u04ff]/, 'ru'],
+  [/[\u0600-\u06ff]/, 'ar'],
+  [/[\u0590-\u05ff]/, 'he'],
+  [/[\u0900-\u097f]/, 'hi'],
+  [/[\u0370-\u03ff]/, 'el'],
+  [/[\u0e00-\u0e7f]/, 'th'],
+];
+
+const MIN_LANGUAGE_WORDS = 3;
+const MIN_STOPWORD_HITS = 2;
+
+export function detectLanguage(text: string): string {
+  for (const [script, language] of SCRIPT_LANGUAGES) {
+    if (script.test(text)) return language;
+  }
+  
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  if (words.length < MIN_LANGUAGE_WORDS) return 'und';
+  
+  let best = 'und';
+  let bestHits = MIN_STOPWORD_HITS - 1;
+  for (const [language, stopwords] of Object.entries(LANGUAGE_STOPWORDS)) {
+    const set = new Set(stopwords);
+    const hits = words.filter(word => set.has(word)).length;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * Split a comment body into the author's own words, quoted blocks and code
+ * blocks, then derive links, mentions, word count and language from the own
+ * words only - a quoted complaint belongs to the parent, not the reply.
+ * Pass `escaped: false` for raw_json=1 bodies, which would otherwise decode
+ * a literal "&amp;" twice.
+ */
+export function enrichCommentBody(body: string, { escaped = true }: { escaped?: boolean } = {}): CommentEnrichment {
+  const lines = (escaped ? decodeEntities(body) : body).replace(/\r\n?/g, '\n').split('\n');
+  const own: string[] = [];
+  const quotes: string[] = [];
+  const codeBlocks: string[] = [];
+  
+  let fence: string[] | null = null;
+  let indented: string[] | null = null;
+  let quote: string[] | null = null;
+  
+  const closeIndented = () => {
+    if (indented) codeBlocks.push(indented.join('\n').trimEnd());
+    indented = null;
+  };
+  const closeQuote = () => {
+    if (quote) quotes.push(quote.join('\n').trim());
+    quote = null;
+  };
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    
+    if (fence) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        codeBlocks.push(fence.join('\n'));
+        fence = null;
+      } else {
+        fence.push(line);
+      }
+      continue;
+    }
+    if (/^\s*(```|~~~)/.test(line)) {
+      closeIndented();
+      closeQuote();
+      fence = [];
+      continue;
+    }
+    
+    // Four-space code needs a blank line (or another code line) above it
+    if (/^( {4}|\t)/.test(line) && line.trim() && (indented || !lines[i - 1]?.trim())) {
+      closeQuote();
+      indented = indented || [];
+      indented.push(line.replace(/^( {4}|\t)/, ''));
+      continue;
+    }
+    if (indented && !line.trim()) {
+      indented.push('');
+      continue;
+    }
+    closeIndented();
+    
+    if (/^\s*>/.test(line)) {
+      quote = quote || [];
+      quote.push(line.replace(/^\s*(>\s?)+/, ''));
+      continue;
+    }
+    if (quote && line.trim()) {
+      // Markdown's lazy continuation: a quote runs until a blank line
+      quote.push(line);
+      continue;
+    }
+    closeQuote();
+    
+    own.push(line);
+  }
+  if (fence) codeBlocks.push((fence as string[]).join('\n'));
+  closeIndented();
+  closeQuote();
+  
+  const ownMarkdown = own.join('\n');
+  const plainText = own
+    .map(stripInlineMarkdown)
+    .join('\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  const words = plainText.replace(BARE_URL_REGEX, ' ').match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) || [];
+  
+  return {
+    plainText,
+    links: extractLinks(ownMarkdown),
+    mentions: {
+      users: uniqueIgnoringCase([...ownMarkdown.matchAll(USER_MENTION_REGEX)].map(m => m[1])),
+      subreddits: uniqueIgnoringCase([...ownMarkdown.matchAll(SUBREDDIT_MENTION_REGEX)].map(m => m[1])),
+    },
+    quotes,
+    codeBlocks,
+    wordCount: words.length,
+    language: detectLanguage(plainText.replace(BARE_URL_REGEX, ' ')),
+  };
+}
+
 // ============================================
 // Normalize Thread Data
 // ============================================
 
-function normalizePost(raw: RedditRawPost): NormalizedThread {
+// Thread JSON is fetched without raw_json=1, so media URLs come HTML-escaped
+function decodeMediaUrl(url: string): string {
+  return url.replace(/&amp;/g, '&');
+}
+
+const IMAGE_URL_REGEX = /\.(jpe?g|png|gif|webp)(\?.*)?$/i;
+
+function normalizeImages(raw: RedditRawPost): ThreadImage[] {
+  if (raw.gallery_data && raw.media_metadata) {
+    const metadata = raw.media_metadata;
+    return raw.gallery_data.items.flatMap(item => {
+      const media = metadata[item.media_id];
+      const source = media?.status === 'valid' ? media.s : undefined;
+      const url = source?.u || source?.gif || source?.mp4;
+      if (!source || !url) return [];
+      return [{
+        url: decodeMediaUrl(url),
+        width: source.x,
+        height: source.y,
+        caption: item.caption || null,
+        link: item.outbound_url || null,
+      }];
+    });
+  }
+  
+  if (raw.post_hint === 'image' || IMAGE_URL_REGEX.test(raw.url)) {
+    const source = raw.preview?.images[0]?.source;
+    return [{
+      url: decodeMediaUrl(raw.url),
+      width: source?.width ?? null,
+      height: source?.height ?? null,
+      caption: null,
+      link: null,
+    }];
+  }
+  
+  return [];
+}
+
+function normalizeVideo(raw: RedditRawPost): ThreadVideo | null {
+  const media = raw.secure_media || raw.media;
+  const hosted = media?.reddit_video;
+  if (hosted) {
+    return {
+      url: decodeMediaUrl(hosted.fallback_url),
+      hlsUrl: hosted.hls_url ? decodeMediaUrl(hosted.hls_url) : null,
+      provider: 'reddit',
+      duration: hosted.duration ?? null,
+      width: hosted.width ?? null,
+      height: hosted.height ?? null,
+      isGif: !!hosted.is_gif,
+    };
+  }
+  
+  // gifv / imgur links Reddit transcoded for playback
+  const transcoded = raw.preview?.reddit_video_preview;
+  if (transcoded) {
+    return {
+      url: decodeMediaUrl(transcoded.fallback_url),
+      hlsUrl: null,
+      provider: 'reddit',
+      duration: transcoded.duration ?? null,
+      width: transcoded.width ?? null,
+      height: transcoded.height ?? null,
+      isGif: !!transcoded.is_gif,
+    };
+  }
+  
+  if (media?.oembed && raw.post_hint === 'rich:video') {
+    return {
+      url: raw.url,
+      hlsUrl: null,
+      provider: media.oembed.provider_name || media.type || null,
+      duration: null,
+      width: null,
+      height: null,
+      isGif: false,
+    };
+  }
+  
+  return null;
+}
+
+function normalizePoll(raw: RedditRawPost): ThreadPoll | null {
+  const poll = raw.poll_data;
+  if (!poll) return null;
+  
+  return {
+    options: poll.options.map(option => ({
+      id: option.id,
+      text: option.text,
+      votes: option.vote_count ?? null,
+    })),
+    totalVotes: poll.total_vote_count,
+    endsAt: poll.voting_end_timestamp ? new Date(poll.voting_end_timestamp).toISOString() : null,
+  };
+}
+
+function normalizeCrosspost(raw: RedditRawPost): ThreadCrosspost | null {
+  const parent = raw.crosspost_parent_list?.[0];
+  if (!parent) return null;
+  
+  return {
+    id: parent.id,
+    title: parent.title,
+    subreddit: parent.subreddit,
+    author: parent.author,
+    score: parent.score,
+    commentCount: parent.num_comments,
+    permalink: `https://reddit.com${parent.permalink}`,
+  };
+}
+
+function classifyPost(
+  raw: RedditRawPost,
+  images: ThreadImage[],
+  video: ThreadVideo | null,
+  poll: ThreadPoll | null
+): ThreadPostType {
+  if (poll) return 'poll';
+  if (raw.is_gallery) return 'gallery';
+  if (video?.provider === 'reddit') return 'video';
+  if (images.length > 0) return 'image';
+  if (raw.is_self) return 'text';
+  return video ? 'video' : 'link';
+}
+
+export function normalizePost(raw: RedditRawPost): NormalizedThread {
+  // A crosspost is an empty shell - its media lives on the original
+  const source = raw.crosspost_parent_list?.[0] || raw;
+  const images = normalizeImages(source);
+  const video = normalizeVideo(source);
+  const poll = normalizePoll(source);
+  const domain = source.is_self ? null : source.domain || extractDomain(source.url).replace(/^www\./, '');
+  
+  const postType = classifyPost(source, images, video, poll);
+  
+  const isExternal = postType === 'link' || (postType === 'video' && video?.provider !== 'reddit');
+  const oembed = (source.secure_media || source.media)?.oembed;
+  const previewImage = source.preview?.images[0]?.source.url;
+  
   return {
     id: raw.id,
     title: raw.title,
@@ -173,10 +1068,28 @@ function normalizePost(raw: RedditRawPost): NormalizedThread {
     isArchived: raw.archived,
     flair: raw.link_flair_text,
     authorFlair: raw.author_flair_text,
+    postType,
+    domain,
+    images,
+    video,
+    poll,
+    link: isExternal && domain
+      ? {
+          url: source.url,
+          domain,
+          title: oembed?.title || null,
+          image: previewImage ? decodeMediaUrl(previewImage) : oembed?.thumbnail_url || null,
+        }
+      : null,
+    crosspostOf: normalizeCrosspost(raw),
   };
 }
 
-function normalizeComment(raw: RedditRawComment, threadId: string): NormalizedComment {
+export function normalizeComment(
+  raw: RedditRawComment,
+  threadId: string,
+  options: { escaped?: boolean } = {}
+): UnmeasuredComment {
   const editedAt = typeof raw.edited === 'number' 
     ? new Date(raw.edited * 1000).toISOString() 
     : null;
@@ -201,21 +1114,25 @@ function normalizeComment(raw: RedditRawComment, threadId: string): NormalizedCo
     isScoreHidden: raw.score_hidden,
     controversiality: raw.controversiality,
     awards: raw.total_awards_received || 0,
+    ...enrichCommentBody(raw.body || '[deleted]', options),
   };
 }
 
-// Recursively flatten comments from nested structure
+// Deepest comment depth (0-based) kept for each depth filter
+function depthLimit(depthFilter: DepthLevel): number {
+  return depthFilter === 'top' ? 0 : depthFilter === 'level2' ? 1 : Infinity;
+}
+
+// Recursively flatten comments from nested structure, keeping raw depth <= maxDepth
 function flattenComments(
   listing: RedditRawResponse,
   threadId: string,
-  depthFilter: DepthLevel,
+  maxDepth: number,
   minScore: number = 0
-): { comments: NormalizedComment[]; moreCount: number } {
-  const comments: NormalizedComment[] = [];
+): { comments: UnmeasuredComment[]; moreCount: number } {
+  const comments: UnmeasuredComment[] = [];
   let moreCount = 0;
   
-  const maxDepth = depthFilter === 'top' ? 0 : depthFilter === 'level2' ? 1 : Infinity;
-  
   function processChildren(children: typeof listing.data.children) {
     for (const child of children) {
       if (child.kind === 'more') {
@@ -248,7 +1165,7 @@ function flattenComments(
           const nested = flattenComments(
             commentData.replies,
             threadId,
-            depthFilter,
+            maxDepth,
             minScore
           );
           comments.push(...nested.comments);
@@ -283,12 +1200,67 @@ function countNestedComments(listing: RedditRawResponse): number {
   return count;
 }
 
+// The focused comment and its ancestors, root first
+function findCommentPath(listing: RedditRawResponse, commentId: string): RedditRawComment[] | null {
+  for (const child of listing.data?.children || []) {
+    if (child.kind !== 't1') continue;
+    
+    const comment = child.data as RedditRawComment;
+    if (comment.id === commentId) return [comment];
+    
+    if (comment.replies && typeof comment.replies !== 'string') {
+      const path = findCommentPath(comment.replies, commentId);
+      if (path) return [comment, ...path];
+    }
+  }
+  return null;
+}
+
+/**
+ * Only the focused comment's subtree plus up to `context` ancestors. Ancestors
+ * and the focused comment ignore minScore - they're why the link was shared.
+ * The depth filter counts from the focused comment.
+ */
+function flattenFocusedComments(
+  listing: RedditRawResponse,
+  threadId: string,
+  focus: CommentFocus,
+  depthFilter: DepthLevel,
+  minScore?: number
+): { comments: UnmeasuredComment[]; moreCount: number; ancestorIds: string[] } {
+  const path = findCommentPath(listing, focus.commentId);
+  if (!path) {
+    throw new RedditAPIError(
+      'The linked comment was not found in this thread. It may have been deleted or removed.',
+      404,
+      'not_found'
+    );
+  }
+  
+  const target = path[path.length - 1];
+  const ancestors = focus.context > 0 ? path.slice(0, -1).slice(-focus.context) : [];
+  const replies = target.replies && typeof target.replies !== 'string'
+    ? flattenComments(target.replies, threadId, target.depth + depthLimit(depthFilter), minScore)
+    : { comments: [], moreCount: 0 };
+  
+  return {
+    comments: [
+      ...ancestors.map(c => normalizeComment(c, threadId)),
+      normalizeComment(target, threadId),
+      ...replies.comments,
+    ],
+    moreCount: replies.moreCount,
+    ancestorIds: ancestors.map(c => c.id),
+  };
+}
+
 export function normalizeThread(
   raw: [RedditRawResponse, RedditRawResponse],
   options: {
     depth: DepthLevel;
     maxComments?: number;
     minScore?: number;
+    focus?: CommentFocus;
   }
 ): NormalizedData {
   const [postListing, commentsListing] = raw;
@@ -306,13 +1278,28 @@ export function normalizeThread(
   const thread = normalizePost(postChild.data as RedditRawPost);
   
   // Extract and flatten comments
-  const { comments, moreCount } = flattenComments(
-    commentsListing,
-    thread.id,
-    options.depth,
-    options.minScore
-  );
+  let focus: NormalizedData['meta']['focus'];
+  let flattened: { comments: UnmeasuredComment[]; moreCount: number };
+  
+  if (options.focus) {
+    const focused = flattenFocusedComments(commentsListing, thread.id, options.focus, options.depth, options.minScore);
+    flattened = focused;
+    focus = { ...options.focus, ancestorIds: focused.ancestorIds };
+  } else {
+    flattened = flattenComments(commentsListing, thread.id, depthLimit(options.depth), options.minScore);
+  }
   
+  return finishNormalized(thread, flattened.comments, flattened.moreCount, options, focus);
+}
+
+// Truncate to maxComments, measure engagement and fill in meta
+function finishNormalized(
+  thread: NormalizedThread,
+  comments: UnmeasuredComment[],
+  moreCount: number,
+  options: { depth: DepthLevel; maxComments?: number },
+  focus?: NormalizedData['meta']['focus']
+): NormalizedData {
   // Apply max comments limit
   let finalComments = comments;
   let truncated = false;
@@ -324,10 +1311,11 @@ export function normalizeThread(
   
   // Calculate max depth in results
   const maxDepth = finalComments.reduce((max, c) => Math.max(max, c.depth), 0);
+  const engagement = measureEngagement(thread, finalComments);
   
   return {
     thread,
-    comments: finalComments,
+    comments: engagement.comments,
     meta: {
       fetchedAt: new Date().toISOString(),
       totalComments: finalComments.length,
@@ -335,10 +1323,155 @@ export function normalizeThread(
       depthFilter: options.depth,
       truncated,
       moreCommentsAvailable: moreCount + (truncated ? comments.length - finalComments.length : 0),
+      metrics: engagement.metrics,
+      ...(focus ? { focus } : {}),
     },
   };
 }
 
+// ============================================
+// Offline Import (saved Raw or Clean JSON)
+// ============================================
+
+export interface ImportedThread {
+  raw: [RedditRawResponse, RedditRawResponse] | null; // null for Clean JSON imports
+  data: NormalizedData;
+}
+
+function isRawListing(value: unknown): value is RedditRawResponse {
+  const listing = value as RedditRawResponse | null;
+  return typeof listing === 'object' && listing !== null
+    && listing.kind === 'Listing'
+    && Array.isArray(listing.data?.children);
+}
+
+// The [post, comments] pair the Raw JSON export writes
+function isRawThreadPair(value: unknown): value is [RedditRawResponse, RedditRawResponse] {
+  return Array.isArray(value)
+    && value.length === 2
+    && isRawListing(value[0])
+    && isRawListing(value[1])
+    && value[0].data.children[0]?.kind === 't3';
+}
+
+// The NormalizedData the Clean JSON export writes
+function isNormalizedData(value: unknown): value is NormalizedData {
+  const data = value as NormalizedData | null;
+  return typeof data === 'object' && data !== null
+    && typeof data.thread?.id === 'string'
+    && typeof data.thread.title === 'string'
+    && typeof data.meta === 'object' && data.meta !== null
+    && Array.isArray(data.comments)
+    && data.comments.every(c =>
+      typeof c?.id === 'string'
+      && typeof c.parentId === 'string'
+      && typeof c.body === 'string'
+      && typeof c.depth === 'number'
+      && typeof c.score === 'number'
+    );
+}
+
+/**
+ * Clean JSON has no raw tree to re-flatten, so depth and minScore are
+ * re-applied to the flat list the same way flattenComments would: a dropped
+ * comment takes its replies with it. Focused exports keep their ancestors
+ * and linked comment, and depth counts from the linked comment.
+ */
+function refilterNormalized(
+  data: NormalizedData,
+  options: { depth: DepthLevel; maxComments?: number; minScore?: number }
+): NormalizedData {
+  const focus = data.meta.focus;
+  const pinned = new Set(focus ? [...focus.ancestorIds, focus.commentId] : []);
+  const baseDepth = focus ? data.comments.find(c => c.id === focus.commentId)?.depth ?? 0 : 0;
+  const maxDepth = baseDepth + depthLimit(options.depth);
+  const minScore = options.minScore ?? 0;
+  
+  const allIds = new Set(data.comments.map(c => c.id));
+  const kept = new Set<string>();
+  const comments: NormalizedComment[] = [];
+  
+  // Exports are in tree order, so parents are decided before their replies
+  for (const comment of data.comments) {
+    const parentId = comment.parentId.replace(/^t1_/, '');
+    const parentDropped = comment.parentId.startsWith('t1_') && allIds.has(parentId) && !kept.has(parentId);
+    
+    if (!pinned.has(comment.id)) {
+      if (parentDropped || comment.depth > maxDepth) continue;
+      if (comment.author !== '[deleted]' && comment.score < minScore) continue;
+    }
+    
+    kept.add(comment.id);
+    comments.push(comment);
+  }
+  
+  return finishNormalized(data.thread, comments, data.meta.moreCommentsAvailable ?? 0, options, focus);
+}
+
+type ThreadMediaField = 'postType' | 'domain' | 'images' | 'video' | 'poll' | 'link' | 'crosspostOf';
+
+// Clean JSON saved before threads carried media fields
+function withMediaDefaults(
+  thread: Omit<NormalizedThread, ThreadMediaField> & Partial<Pick<NormalizedThread, ThreadMediaField>>
+): NormalizedThread {
+  return {
+    postType: thread.isSelf ? 'text' : 'link',
+    domain: thread.isSelf ? null : extractDomain(thread.url).replace(/^www\./, ''),
+    images: [],
+    video: null,
+    poll: null,
+    link: null,
+    crosspostOf: null,
+    ...thread,
+  };
+}
+
+// ...or before comments were enriched
+function withEnrichment(comment: NormalizedComment): NormalizedComment {
+  return typeof comment.plainText === 'string' ? comment : { ...comment, ...enrichCommentBody(comment.body) };
+}
+
+/**
+ * Load a saved Raw JSON (`[post, comments]` listings) or Clean JSON export.
+ * Raw dumps run through normalizeThread with the current options; Clean JSON
+ * is re-filtered. Either way the thread can be re-analyzed after Reddit
+ * deletes or locks it.
+ */
+export function importThreadJson(
+  text: string,
+  options: { depth: DepthLevel; maxComments?: number; minScore?: number }
+): ImportedThread {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new RedditAPIError('This is not valid JSON.', 0, 'parse');
+  }
+  
+  if (isRawThreadPair(parsed)) {
+    return { raw: parsed, data: normalizeThread(parsed, options) };
+  }
+  
+  if (isNormalizedData(parsed)) {
+    // Tree exports nest replies under their roots; bring them back to the flat list
+    const comments = parsed.comments.some(c => Array.isArray((c as Partial<CommentTreeNode>).children))
+      ? flattenCommentTree(parsed.comments as CommentTreeNode[])
+      : parsed.comments;
+    const data = {
+      ...parsed,
+      thread: withMediaDefaults(parsed.thread),
+      comments: comments.map(withEnrichment),
+    };
+    return { raw: null, data: refilterNormalized(data, options) };
+  }
+  
+  throw new RedditAPIError(
+    'Unrecognized JSON. Import a Raw JSON, Clean JSON or Tree JSON export of a single thread.',
+    0,
+    'parse'
+  );
+}
+
 // ============================================
 // Main Fetch Function (combines fetch + normalize)
 // ============================================
@@ -352,26 +1485,47 @@ export async function fetchThread(
       return {
         success: false,
         error: 'Invalid Reddit URL. Please paste a link to a Reddit thread (should contain /r/subreddit/comments/).',
+        errorType: 'invalid_request',
       };
     }
     
+    // Share links, redd.it, mobile hosts → one canonical URL
+    const url = await resolveRedditUrl(request.url);
+    
+    const focus = getCommentFocus(url);
+    
     // Fetch raw data
-    const raw = await fetchRawThread(request.url, {
+    let raw = await fetchRawThread(url, {
       sort: request.sort,
       limit: request.maxComments ? Math.min(request.maxComments * 2, 500) : 500,
     });
     
+    // Pull in replies hidden behind "load more comments"
+    if (request.expandMore) {
+      const result = await expandMoreComments(raw, {
+        ...request.expandOptions,
+        // Focused depth counts from the linked comment, so let normalize apply it
+        depth: focus ? 'full' : request.depth,
+        sort: request.sort,
+      });
+      raw = result.raw;
+    }
+    
     // Normalize
     const normalized = normalizeThread(raw, {
       depth: request.depth,
       maxComments: request.maxComments,
       minScore: request.minScore,
+      focus,
     });
     
+    // Comment filter - raw is pruned to the same comments
+    const data = request.query ? applyCommentQuery(normalized, request.query) : normalized;
+    
     return {
       success: true,
-      data: normalized,
-      raw,
+      data,
+      raw: data === normalized ? raw : filterRawThread(raw, new Set(data.comments.map(c => c.id))),
       cached: false,
     };
   } catch (error) {
@@ -380,6 +1534,15 @@ export async function fetchThread(
       return {
         success: false,
         error: error.message,
+        errorType: error.errorType,
+      };
+    }
+    
+    if (isBlockedRequestError(error)) {
+      return {
+        success: false,
+        error: 'Could not reach Reddit. Check your connection and try again.',
+        errorType: 'network',
       };
     }
     
@@ -391,10 +1554,124 @@ export async function fetchThread(
   }
 }
 
+// ============================================
+// Comment Tree
+// ============================================
+
+/**
+ * Nest the flat comment list under its parents. Roots are top-level
+ * comments, or the first ancestor kept above a focused comment - any
+ * comment whose parent wasn't mined. Order within each level follows the
+ * flat list, which is already Reddit's sort order.
+ */
+export function buildCommentTree(data: NormalizedData): NormalizedCommentTree {
+  const nodes = new Map<string, CommentTreeNode>();
+  for (const comment of data.comments) {
+    nodes.set(comment.id, {
+      ...comment,
+      children: [],
+      replyCount: 0,
+      subtreeSize: 1,
+      subtreeScore: comment.score,
+      subtreeMaxDepth: comment.depth,
+    });
+  }
+  
+  const roots: CommentTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId.startsWith('t1_') ? nodes.get(node.parentId.slice(3)) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  
+  const rollUp = (node: CommentTreeNode) => {
+    node.replyCount = node.children.length;
+    for (const child of node.children) {
+      rollUp(child);
+      node.subtreeSize += child.subtreeSize;
+      node.subtreeScore += child.subtreeScore;
+      node.subtreeMaxDepth = Math.max(node.subtreeMaxDepth, child.subtreeMaxDepth);
+    }
+  };
+  roots.forEach(rollUp);
+  
+  return { thread: data.thread, comments: roots, meta: data.meta };
+}
+
+const TREE_FIELDS = new Set(['children', 'replyCount', 'subtreeSize', 'subtreeScore', 'subtreeMaxDepth']);
+
+// Depth-first, parents before their replies - the order the flat list uses
+export function flattenCommentTree(nodes: CommentTreeNode[]): NormalizedComment[] {
+  return nodes.flatMap(node => {
+    const comment = Object.fromEntries(
+      Object.entries(node).filter(([key]) => !TREE_FIELDS.has(key))
+    ) as NormalizedComment;
+    return [comment, ...flattenCommentTree(node.children || [])];
+  });
+}
+
+export function findCommentNode(nodes: CommentTreeNode[], commentId: string): CommentTreeNode | undefined {
+  for (const node of nodes) {
+    if (node.id === commentId) return node;
+    const found = findCommentNode(node.children, commentId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
 // ============================================
 // Export Formatters
 // ============================================
 
+// Poll share of the total, or null while Reddit hides per-option counts
+export function pollShare(poll: ThreadPoll, votes: number | null): number | null {
+  if (votes === null || poll.totalVotes === 0) return null;
+  return Math.round((votes / poll.totalVotes) * 100);
+}
+
+function threadMediaToMarkdown(thread: NormalizedThread): string {
+  let md = '';
+  
+  if (thread.crosspostOf) {
+    const source = thread.crosspostOf;
+    md += `*Crossposted from [r/${source.subreddit}: ${source.title}](${source.permalink}) • ${source.score} points • ${source.commentCount} comments*\n\n`;
+  }
+  
+  if (thread.link) {
+    md += `**Link:** [${thread.link.title || thread.link.url}](${thread.link.url}) (${thread.link.domain})\n\n`;
+  }
+  
+  thread.images.forEach((image, index) => {
+    const alt = image.caption || `Image ${index + 1}`;
+    md += image.link ? `[![${alt}](${image.url})](${image.link})\n` : `![${alt}](${image.url})\n`;
+  });
+  if (thread.images.length > 0) md += '\n';
+  
+  if (thread.video && thread.video.provider === 'reddit') {
+    const duration = thread.video.duration ? ` (${formatDuration(thread.video.duration)})` : '';
+    md += `**${thread.video.isGif ? 'GIF' : 'Video'}${duration}:** [MP4, no audio](${thread.video.url})`;
+    md += thread.video.hlsUrl ? ` • [HLS stream](${thread.video.hlsUrl})\n\n` : '\n\n';
+  }
+  
+  if (thread.poll) {
+    const { poll } = thread;
+    const closed = poll.endsAt && new Date(poll.endsAt).getTime() < Date.now();
+    md += `**Poll** • ${poll.totalVotes} votes`;
+    if (poll.endsAt) md += ` • ${closed ? 'closed' : 'closes'} ${new Date(poll.endsAt).toLocaleDateString()}`;
+    md += '\n\n| Option | Votes | Share |\n|---|---:|---:|\n';
+    for (const option of poll.options) {
+      const share = pollShare(poll, option.votes);
+      md += `| ${option.text.replace(/\|/g, '\\|')} | ${option.votes ?? 'hidden'} | ${share === null ? '-' : `${share}%`} |\n`;
+    }
+    md += '\n';
+  }
+  
+  return md;
+}
+
 export function toMarkdown(data: NormalizedData): string {
   const { thread, comments, meta } = data;
   
@@ -405,6 +1682,8 @@ export function toMarkdown(data: NormalizedData): string {
   md += `**r/${thread.subreddit}** • ${thread.score} points • ${thread.commentCount} comments\n`;
   md += `Posted by u/${thread.author} • ${new Date(thread.createdAt).toLocaleDateString()}\n\n`;
   
+  md += threadMediaToMarkdown(thread);
+  
   // Post body
   if (thread.body) {
     md += `---\n\n${thread.body}\n\n`;
@@ -412,34 +1691,45 @@ export function toMarkdown(data: NormalizedData): string {
   
   md += `---\n\n## Comments (${meta.totalComments} shown)\n\n`;
   
-  // Build comment tree
-  const topLevel = comments.filter(c => c.parentId.startsWith('t3_'));
+  if (meta.query) {
+    md += `*Filtered by \`${meta.query}\`*\n\n`;
+  }
+  if (meta.search) {
+    md += `*Only comments matching ${meta.search}*\n\n`;
+  }
   
-  function renderComment(comment: NormalizedComment, indent: number = 0): string {
+  if (meta.focus) {
+    const linked = comments.find(c => c.id === meta.focus!.commentId);
+    md += `*Focused on one reply chain`;
+    if (meta.focus.ancestorIds.length > 0) md += ` with ${meta.focus.ancestorIds.length} parent comment${meta.focus.ancestorIds.length === 1 ? '' : 's'} for context`;
+    md += linked ? ` • [view on Reddit](${linked.permalink})*\n\n` : '*\n\n';
+  }
+  
+  function renderComment(node: CommentTreeNode, indent: number = 0): string {
     const prefix = '  '.repeat(indent);
-    const replies = comments.filter(c => c.parentId === `t1_${comment.id}`);
     
-    let result = `${prefix}> **u/${comment.author}** • ${comment.score} points`;
-    if (comment.isOP) result += ' • OP';
+    let result = `${prefix}> **u/${node.author}** • ${node.score} points`;
+    if (node.isOP) result += ' • OP';
+    if (node.id === meta.focus?.commentId) result += ' • linked comment';
     result += '\n';
     
     // Add comment body with proper indentation
-    const bodyLines = comment.body.split('\n');
+    const bodyLines = node.body.split('\n');
     for (const line of bodyLines) {
       result += `${prefix}> ${line}\n`;
     }
     result += '\n';
     
     // Render replies
-    for (const reply of replies) {
+    for (const reply of node.children) {
       result += renderComment(reply, indent + 1);
     }
     
     return result;
   }
   
-  for (const comment of topLevel) {
-    md += renderComment(comment);
+  for (const root of buildCommentTree(data).comments) {
+    md += renderComment(root);
   }
   
   // Footer
@@ -448,7 +1738,18 @@ export function toMarkdown(data: NormalizedData): string {
   return md;
 }
 
+// Every row stays on one line - listingToCSV splits on newlines
+export function escapeCSV(str: string): string {
+  str = str.replace(/\n/g, ' ');
+  if (str.includes(',') || str.includes('"')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+// The first row is the post itself; media columns are only filled there
 export function toCSV(data: NormalizedData): string {
+  const { thread } = data;
   const headers = [
     'id',
     'author',
@@ -460,19 +1761,91 @@ export function toCSV(data: NormalizedData): string {
     'is_op',
     'awards',
     'permalink',
+    'type',
+    'post_type',
+    'domain',
+    'media_urls',
+    'poll',
+    'crosspost_of',
+    'plain_text',
+    'links',
+    'user_mentions',
+    'subreddit_mentions',
+    'quotes',
+    'code_blocks',
+    'word_count',
+    'language',
+    'reply_count',
+    'subtree_size',
+    'first_reply_seconds',
+    'since_parent_seconds',
+    'relative_score',
+    'op_response_rate',
+    'median_op_response_seconds',
+    'activity_half_life_hours',
+    'comments_per_hour',
+    'late_comments',
   ];
   
-  const escapeCSV = (str: string) => {
-    if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-      return `"${str.replace(/"/g, '""')}"`;
-    }
-    return str;
-  };
+  const enrichmentCells = (e: CommentEnrichment) => [
+    escapeCSV(e.plainText),
+    escapeCSV(e.links.map(link => link.url).join(' ')),
+    e.mentions.users.join(' '),
+    e.mentions.subreddits.join(' '),
+    escapeCSV(e.quotes.join(' | ')),
+    escapeCSV(e.codeBlocks.join(' | ')),
+    e.wordCount.toString(),
+    e.language,
+  ];
+  
+  const mediaUrls = [
+    ...thread.images.map(image => image.url),
+    ...(thread.video ? [thread.video.url] : []),
+    ...(thread.link ? [thread.link.url] : []),
+  ];
+  const poll = thread.poll
+    ? thread.poll.options.map(o => (o.votes === null ? o.text : `${o.text}: ${o.votes}`)).join('; ')
+    : '';
+  
+  const optional = (value: number | null) => (value === null ? '' : value.toString());
+  const { metrics } = data.meta;
+  
+  // Thread-level metrics only fill the post row
+  const postRow = [
+    thread.id,
+    thread.author,
+    escapeCSV(`${thread.title}${thread.body ? ` - ${thread.body}` : ''}`),
+    thread.score.toString(),
+    '',
+    '',
+    thread.createdAt,
+    'true',
+    '',
+    thread.permalink,
+    'post',
+    thread.postType,
+    thread.domain || '',
+    escapeCSV(mediaUrls.join(' ')),
+    escapeCSV(poll),
+    thread.crosspostOf?.permalink || '',
+    ...enrichmentCells(enrichCommentBody(thread.body)),
+    data.comments.filter(c => c.parentId.startsWith('t3_')).length.toString(),
+    (data.comments.length + 1).toString(),
+    optional(metrics.firstCommentSeconds),
+    '',
+    '',
+    optional(metrics.opResponseRate),
+    optional(metrics.medianOpResponseSeconds),
+    optional(metrics.activityHalfLifeHours),
+    // Hour 0 first; `;` keeps the curve in one cell
+    metrics.commentsPerHour.join(';'),
+    metrics.lateComments.toString(),
+  ].join(',');
   
   const rows = data.comments.map(c => [
     c.id,
     c.author,
-    escapeCSV(c.body.replace(/\n/g, ' ')),
+    escapeCSV(c.body),
     c.score.toString(),
     c.depth.toString(),
     c.parentId,
@@ -480,9 +1853,26 @@ export function toCSV(data: NormalizedData): string {
     c.isOP ? 'true' : 'false',
     c.awards.toString(),
     c.permalink,
+    'comment',
+    '',
+    '',
+    '',
+    '',
+    '',
+    ...enrichmentCells(c),
+    c.metrics.replyCount.toString(),
+    c.metrics.subtreeSize.toString(),
+    optional(c.metrics.firstReplySeconds),
+    optional(c.metrics.sinceParentSeconds),
+    c.metrics.relativeScore.toString(),
+    '',
+    '',
+    '',
+    '',
+    '',
   ].join(','));
   
-  return [headers.join(','), ...rows].join('\n');
+  return [headers.join(','), postRow, ...rows].join('\n');
 }
 
 // ============================================
@@ -518,7 +1908,7 @@ export function extractBasicSignals(comments: NormalizedComment[]): BasicSignals
   const solutions: BasicSignals['solutions'] = [];
 
   for (const comment of comments) {
-    const bodyLower = comment.body.toLowerCase();
+    const bodyLower = comment.plainText.toLowerCase();
     
     // Check for pain points
     const painMatches = PAIN_KEYWORDS.filter(k => bodyLower.includes(k));
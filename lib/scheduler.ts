@@ -0,0 +1,224 @@
+// ============================================
+// THREADMINER - Request Scheduler
+// https://github.com/Sigmabrogz/REDDITMINER
+// Queues Reddit calls, obeys x-ratelimit-* headers
+// and retries 429/5xx with jittered backoff
+// ============================================
+
+export interface SchedulerState {
+  queued: number;
+  active: number; // includes requests waiting out a backoff
+  retrying: number;
+  completed: number;
+  failed: number;
+  rateLimitRemaining: number | null; // null until Reddit sends the headers
+  rateLimitResetAt: number | null; // epoch ms
+  pausedUntil: number | null; // epoch ms, set by 429s or an exhausted budget
+}
+
+export interface SchedulerOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  reserve: number; // pause until reset once this few requests are left
+}
+
+export interface RequestScheduler {
+  schedule: (url: string, init?: RequestInit) => Promise<Response>;
+  getState: () => SchedulerState;
+  subscribe: (listener: () => void) => () => void;
+  waitSeconds: () => number;
+}
+
+interface QueuedRequest {
+  url: string;
+  init?: RequestInit;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 2,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+  reserve: 1,
+};
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+const INITIAL_STATE: SchedulerState = {
+  queued: 0,
+  active: 0,
+  retrying: 0,
+  completed: 0,
+  failed: 0,
+  rateLimitRemaining: null,
+  rateLimitResetAt: null,
+  pausedUntil: null,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function headerNumber(response: Response, name: string): number | null {
+  const value = parseFloat(response.headers.get(name) ?? '');
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Every call waits its turn: at most `concurrency` in flight, nothing sent
+ * while paused. Reddit reports its budget as x-ratelimit-remaining and
+ * x-ratelimit-reset (seconds); running low pauses the whole queue until the
+ * window resets. 429/5xx responses are retried with jittered exponential
+ * backoff, and a 429 pauses everyone, not just the request that hit it.
+ * Network errors are not retried - callers treat them as CORS blocks.
+ * Once retries run out the last response is returned for the caller to map.
+ */
+export function createRequestScheduler(overrides: Partial<SchedulerOptions> = {}): RequestScheduler {
+  const options = { ...DEFAULT_SCHEDULER_OPTIONS, ...overrides };
+  const queue: QueuedRequest[] = [];
+  const listeners = new Set<() => void>();
+  let state = INITIAL_STATE;
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // A new object per change so useSyncExternalStore sees it
+  function update(patch: Partial<SchedulerState>) {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+  }
+
+  function pauseUntil(time: number) {
+    if (time > (state.pausedUntil ?? 0)) update({ pausedUntil: time });
+  }
+
+  function readRateLimit(response: Response) {
+    const remaining = headerNumber(response, 'x-ratelimit-remaining');
+    const reset = headerNumber(response, 'x-ratelimit-reset');
+    if (remaining === null || reset === null) {
+      // The window we knew about is over and this response didn't start a new one
+      if (state.rateLimitResetAt !== null && state.rateLimitResetAt <= Date.now()) {
+        update({ rateLimitRemaining: null, rateLimitResetAt: null });
+      }
+      return;
+    }
+
+    const resetAt = Date.now() + reset * 1000;
+    update({ rateLimitRemaining: remaining, rateLimitResetAt: resetAt });
+    if (remaining <= options.reserve) pauseUntil(resetAt);
+  }
+
+  function retryDelay(attempt: number, response: Response): number {
+    const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+    // Somewhere between half and all of the backoff, so parallel retries spread out
+    const jittered = backoff / 2 + Math.random() * (backoff / 2);
+    const retryAfter = headerNumber(response, 'retry-after');
+    return retryAfter !== null ? Math.max(jittered, retryAfter * 1000) : jittered;
+  }
+
+  // When requests may go out again: after a 429 pause, or once the window
+  // resets if the budget is down to the reserve. null means now. Pure -
+  // waitSeconds() runs during render. A window that has already reset
+  // doesn't block; the next response reports the new budget
+  function blockedUntil(): number | null {
+    const now = Date.now();
+    if (state.pausedUntil !== null && state.pausedUntil > now) return state.pausedUntil;
+
+    const { rateLimitRemaining, rateLimitResetAt } = state;
+    if (rateLimitRemaining === null || rateLimitResetAt === null || rateLimitRemaining > options.reserve) return null;
+    return rateLimitResetAt > now ? rateLimitResetAt : null;
+  }
+
+  async function untilUnpaused() {
+    for (let until = blockedUntil(); until !== null; until = blockedUntil()) {
+      await sleep(until - Date.now());
+    }
+  }
+
+  async function run(request: QueuedRequest) {
+    try {
+      for (let attempt = 0; ; attempt++) {
+        // Spend the budget up front so pump() holds the queue before
+        // parallel requests overshoot it
+        if (state.rateLimitRemaining !== null) {
+          update({ rateLimitRemaining: Math.max(0, state.rateLimitRemaining - 1) });
+        }
+
+        const response = await fetch(request.url, request.init);
+        readRateLimit(response);
+
+        if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= options.maxRetries) {
+          update(response.ok ? { completed: state.completed + 1 } : { failed: state.failed + 1 });
+          request.resolve(response);
+          return;
+        }
+
+        // Free the connection; the body of a failed attempt is never read
+        response.body?.cancel().catch(() => {});
+
+        const delay = retryDelay(attempt, response);
+        if (response.status === 429) pauseUntil(Date.now() + delay);
+
+        update({ retrying: state.retrying + 1 });
+        await sleep(delay);
+        await untilUnpaused();
+        update({ retrying: state.retrying - 1 });
+      }
+    } catch (error) {
+      update({ failed: state.failed + 1 });
+      request.reject(error);
+    } finally {
+      update({ active: state.active - 1 });
+      pump();
+    }
+  }
+
+  function pump() {
+    if (wakeTimer) {
+      clearTimeout(wakeTimer);
+      wakeTimer = null;
+    }
+
+    while (queue.length > 0 && state.active < options.concurrency) {
+      const until = blockedUntil();
+      if (until !== null) {
+        wakeTimer = setTimeout(pump, until - Date.now());
+        return;
+      }
+
+      const next = queue.shift()!;
+      update({ queued: queue.length, active: state.active + 1, pausedUntil: null });
+      run(next);
+    }
+  }
+
+  return {
+    schedule(url, init) {
+      return new Promise<Response>((resolve, reject) => {
+        queue.push({ url, init, resolve, reject });
+        update({ queued: queue.length });
+        pump();
+      });
+    },
+
+    getState: () => state,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    // Seconds until requests flow again (0 when they already do)
+    waitSeconds() {
+      const until = blockedUntil();
+      return until === null ? 0 : Math.ceil((until - Date.now()) / 1000);
+    },
+  };
+}
+
+// One queue for every Reddit call - the rate limit is per client, not per feature
+export const redditScheduler = createRequestScheduler();
@@ -3,11 +3,14 @@
 // ============================================
 
 // Output format modes
-export type OutputFormat = 'raw' | 'clean' | 'markdown' | 'insights';
+export type OutputFormat = 'raw' | 'clean' | 'tree' | 'markdown' | 'insights' | 'analytics';
 
 // Depth levels for comment fetching
 export type DepthLevel = 'top' | 'level2' | 'full';
 
+// Steps shown while a mining run is in progress
+export type LoadingStep = 'idle' | 'fetching' | 'expanding' | 'normalizing' | 'analyzing';
+
 // ============================================
 // Reddit Raw Types (what Reddit API returns)
 // ============================================
@@ -46,8 +49,68 @@ export interface RedditRawPost {
   spoiler: boolean;
   locked: boolean;
   archived: boolean;
+  stickied: boolean;
   link_flair_text: string | null;
   author_flair_text: string | null;
+  // Media and link fields - absent on older posts and some listings
+  domain?: string;
+  post_hint?: string; // 'image' | 'link' | 'hosted:video' | 'rich:video' | 'self'
+  is_video?: boolean;
+  is_gallery?: boolean;
+  gallery_data?: RedditRawGalleryData | null;
+  media_metadata?: Record<string, RedditRawMediaMetadata> | null;
+  poll_data?: RedditRawPollData | null;
+  crosspost_parent?: string; // fullname of the original post
+  crosspost_parent_list?: RedditRawPost[];
+  secure_media?: RedditRawMedia | null;
+  media?: RedditRawMedia | null;
+  preview?: RedditRawPreview;
+}
+
+// Gallery order and captions; the images themselves live in media_metadata
+export interface RedditRawGalleryData {
+  items: {
+    media_id: string;
+    id: number;
+    caption?: string;
+    outbound_url?: string;
+  }[];
+}
+
+export interface RedditRawMediaMetadata {
+  status: string; // 'valid' | 'failed' | 'unprocessed'
+  e?: string; // 'Image' | 'AnimatedImage' | 'RedditVideo'
+  m?: string; // mime type
+  s?: { u?: string; gif?: string; mp4?: string; x: number; y: number };
+}
+
+export interface RedditRawPollData {
+  options: { id: string; text: string; vote_count?: number }[]; // per-option counts hidden until voting ends
+  total_vote_count: number;
+  voting_end_timestamp: number; // ms
+}
+
+export interface RedditRawMedia {
+  type?: string; // oembed provider host, e.g. 'youtube.com'
+  reddit_video?: {
+    fallback_url: string;
+    hls_url?: string;
+    duration?: number;
+    width?: number;
+    height?: number;
+    is_gif?: boolean;
+  };
+  oembed?: {
+    provider_name?: string;
+    title?: string;
+    thumbnail_url?: string;
+  };
+}
+
+export interface RedditRawPreview {
+  images: { source: { url: string; width: number; height: number } }[];
+  reddit_video_preview?: { fallback_url: string; duration?: number; width?: number; height?: number; is_gif?: boolean };
+  enabled?: boolean;
 }
 
 export interface RedditRawComment {
@@ -70,6 +133,10 @@ export interface RedditRawComment {
   controversiality: number;
   total_awards_received: number;
   replies: '' | RedditRawResponse;
+  // Only on comment listings (/r/x/comments), where there's no thread around them
+  subreddit?: string;
+  link_title?: string;
+  link_permalink?: string;
 }
 
 export interface RedditRawMore {
@@ -81,6 +148,16 @@ export interface RedditRawMore {
   children: string[];
 }
 
+// Response shape of /api/morechildren.json?api_type=json
+export interface RedditMoreChildrenResponse {
+  json: {
+    errors: unknown[];
+    data?: {
+      things: RedditRawChild[];
+    };
+  };
+}
+
 // ============================================
 // Normalized Types (our clean schema)
 // ============================================
@@ -106,6 +183,56 @@ export interface NormalizedThread {
   isArchived: boolean;
   flair: string | null;
   authorFlair: string | null;
+  postType: ThreadPostType;
+  domain: string | null; // null for text posts
+  images: ThreadImage[]; // gallery order
+  video: ThreadVideo | null;
+  poll: ThreadPoll | null;
+  link: ThreadLink | null; // external link posts
+  crosspostOf: ThreadCrosspost | null;
+}
+
+export type ThreadPostType = 'text' | 'link' | 'image' | 'gallery' | 'video' | 'poll';
+
+export interface ThreadImage {
+  url: string;
+  width: number | null;
+  height: number | null;
+  caption: string | null;
+  link: string | null; // gallery items can point somewhere else
+}
+
+export interface ThreadVideo {
+  url: string; // Reddit-hosted: video-only MP4 fallback; embeds: the page URL
+  hlsUrl: string | null; // Reddit-hosted, with audio
+  provider: string | null; // 'reddit', 'YouTube', ...
+  duration: number | null; // seconds
+  width: number | null;
+  height: number | null;
+  isGif: boolean;
+}
+
+export interface ThreadPoll {
+  options: { id: string; text: string; votes: number | null }[];
+  totalVotes: number;
+  endsAt: string | null; // ISO string
+}
+
+export interface ThreadLink {
+  url: string;
+  domain: string;
+  title: string | null; // from the embed, when Reddit has one
+  image: string | null; // preview thumbnail
+}
+
+export interface ThreadCrosspost {
+  id: string;
+  title: string;
+  subreddit: string;
+  author: string;
+  score: number;
+  commentCount: number;
+  permalink: string;
 }
 
 export interface NormalizedComment {
@@ -128,8 +255,64 @@ export interface NormalizedComment {
   isScoreHidden: boolean;
   controversiality: number;
   awards: number;
+  // Enrichment - everything below describes the author's own words;
+  // quoted lines and code blocks are split out first
+  plainText: string; // markdown stripped, entities decoded, links as "text (url)"
+  links: CommentLink[];
+  mentions: { users: string[]; subreddits: string[] }; // u/ and r/ names, without the prefix
+  quotes: string[]; // '>' blocks, usually the parent being replied to
+  codeBlocks: string[];
+  wordCount: number;
+  language: string; // ISO 639-1 code, 'und' when too short or unrecognized
+  metrics: CommentMetrics;
 }
 
+// Engagement, measured over the mined comments only - see lib/metrics.ts
+export interface CommentMetrics {
+  replyCount: number; // direct replies
+  subtreeSize: number; // this comment and every reply below it
+  firstReplySeconds: number | null; // until the earliest reply, null without replies
+  sinceParentSeconds: number | null; // after the parent comment, or the post for top-level; null when the parent wasn't mined
+  relativeScore: number; // score divided by the thread's median comment score (floored at 1)
+}
+
+export interface ThreadMetrics {
+  medianScore: number;
+  firstCommentSeconds: number | null; // post to earliest comment
+  commentsPerHour: number[]; // index = hours after posting, first week only
+  lateComments: number; // posted more than a week after the post
+  activityHalfLifeHours: number | null; // hours until half the comments had arrived
+  opResponseRate: number | null; // 0-1 share of comments addressed to OP that OP replied to
+  medianOpResponseSeconds: number | null;
+}
+
+export interface CommentLink {
+  url: string;
+  domain: string;
+  text: string | null; // markdown link text, null for bare URLs
+}
+
+// A comment with its replies nested under it, plus rollups of everything below
+export interface CommentTreeNode extends NormalizedComment {
+  children: CommentTreeNode[];
+  replyCount: number; // direct replies
+  subtreeSize: number; // this comment and every reply below it
+  subtreeScore: number; // summed score of the same
+  subtreeMaxDepth: number; // deepest comment depth in the subtree
+}
+
+// NormalizedData with the comment list nested; comments holds the roots
+export interface NormalizedCommentTree {
+  thread: NormalizedThread;
+  comments: CommentTreeNode[];
+  meta: NormalizedData['meta'];
+}
+
+export type CommentEnrichment = Pick<
+  NormalizedComment,
+  'plainText' | 'links' | 'mentions' | 'quotes' | 'codeBlocks' | 'wordCount' | 'language'
+>;
+
 export interface NormalizedData {
   thread: NormalizedThread;
   comments: NormalizedComment[];
@@ -140,6 +323,174 @@ export interface NormalizedData {
     depthFilter: DepthLevel;
     truncated: boolean;
     moreCommentsAvailable: number;
+    focus?: CommentFocus & { ancestorIds: string[] }; // set when mined from a comment permalink
+    query?: string; // comment filter applied after mining, see lib/query.ts
+    metrics: ThreadMetrics;
+    search?: string; // text search the comments were narrowed to, see lib/search.ts
+  };
+}
+
+// Mine one comment's subtree plus `context` ancestors instead of the whole thread
+export interface CommentFocus {
+  commentId: string;
+  context: number;
+}
+
+// ============================================
+// Comment Query Types (filters over mined comments)
+// ============================================
+
+export type CommentQueryField =
+  | 'text'
+  | 'author'
+  | 'score'
+  | 'depth'
+  | 'words'
+  | 'is'
+  | 'has'
+  | 'after'
+  | 'before'
+  | 'lang';
+
+export type CommentQueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+// One `field:value` token; bare words and "quoted phrases" are `text` terms
+export interface CommentQueryTerm {
+  field: CommentQueryField;
+  operator: CommentQueryOperator;
+  value: string;
+  negated: boolean; // leading `-`
+}
+
+export interface ParsedCommentQuery {
+  source: string;
+  terms: CommentQueryTerm[]; // all must match
+  errors: string[]; // tokens that were skipped
+}
+
+// Find-in-thread over comment bodies and authors
+export interface ThreadSearch {
+  text: string;
+  regex: boolean; // treat `text` as a regular expression
+  caseSensitive: boolean;
+}
+
+export interface SearchMatch {
+  index: number; // position among all matches, in reading order
+  commentId: string;
+  field: 'author' | 'body';
+  start: number;
+  end: number;
+}
+
+// ============================================
+// Listing Types (subreddit / search harvests)
+// ============================================
+
+export type ListingSort = 'hot' | 'new' | 'top' | 'rising' | 'controversial' | 'search';
+
+export type ListingTimeframe = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+export interface ListingSource {
+  url: string;
+  subreddit: string | null; // null for sitewide search
+  sort: ListingSort;
+  timeframe: ListingTimeframe | null;
+  query: string | null; // search query, if sort === 'search'
+  searchSort: string | null; // relevance/top/new/comments for search listings
+}
+
+export interface ListingProgress {
+  phase: 'listing' | 'threads';
+  done: number;
+  total: number;
+}
+
+export interface ListingStats {
+  threadCount: number;
+  totalComments: number;
+  totalThreadScore: number;
+  avgThreadScore: number;
+  avgCommentsPerThread: number;
+  avgUpvoteRatio: number;
+  uniqueAuthors: number;
+  topAuthors: { author: string; comments: number; totalScore: number }[];
+  subreddits: { name: string; threads: number }[];
+}
+
+export interface NormalizedListing {
+  source: ListingSource;
+  threads: NormalizedData[];
+  stats: ListingStats;
+  meta: {
+    fetchedAt: string;
+    threadsRequested: number;
+    pagesFetched: number;
+    depthFilter: DepthLevel;
+    failed: { url: string; error: string }[];
+  };
+}
+
+// ============================================
+// Profile Types (/user/name harvests)
+// ============================================
+
+export type ProfileSection = 'overview' | 'comments' | 'submitted';
+
+// /user/name/about.json
+export interface RedditRawUser {
+  name: string;
+  created_utc?: number; // missing on suspended accounts
+  link_karma?: number;
+  comment_karma?: number;
+  is_suspended?: boolean;
+}
+
+export interface ProfileUser {
+  name: string;
+  createdAt: string | null;
+  accountAgeDays: number | null;
+  linkKarma: number;
+  commentKarma: number;
+  isSuspended: boolean;
+}
+
+// A NormalizedComment plus the thread it was left in
+// Profile listings carry no thread around a comment to measure engagement in
+export interface ProfileComment extends Omit<NormalizedComment, 'metrics'> {
+  subreddit: string;
+  threadTitle: string;
+  threadPermalink: string;
+}
+
+export interface ProfileProgress {
+  section: 'comments' | 'submitted';
+  done: number;
+  total: number;
+}
+
+export interface ProfileStats {
+  totalComments: number;
+  totalPosts: number;
+  commentScore: number;
+  postScore: number;
+  subreddits: { name: string; comments: number; posts: number; score: number }[]; // most active first
+  activity: { month: string; comments: number; posts: number }[]; // 'YYYY-MM', oldest first
+  linkDomains: { domain: string; posts: number }[]; // link posts only, most used first
+  topCommentIds: string[];
+  topPostIds: string[];
+}
+
+export interface NormalizedProfile {
+  user: ProfileUser;
+  comments: ProfileComment[];
+  posts: NormalizedThread[];
+  stats: ProfileStats;
+  meta: {
+    fetchedAt: string;
+    section: ProfileSection;
+    pagesFetched: number;
+    truncated: boolean; // hit the item limit before the end of the history
   };
 }
 
@@ -200,12 +551,161 @@ export interface InsightsData {
   personas: Persona[];
   objections: Objection[];
   meta: {
+    threadId: string;
     analyzedAt: string;
     commentsAnalyzed: number;
     confidenceScore: number;
+    source: 'llm' | 'local-model' | 'patterns'; // strongest engine that contributed
+    model: string | null; // LLM model id when source is 'llm'
   };
 }
 
+// ============================================
+// Analytics Types (charts over one mined thread)
+// ============================================
+
+export type AnalyticsChartId =
+  | 'volume'
+  | 'scores'
+  | 'depth'
+  | 'sentiment'
+  | 'authors-count'
+  | 'authors-score'
+  | 'controversy';
+
+// Every chart is a bar chart; `series` > 1 stacks the values of each bar
+export interface AnalyticsChart {
+  id: AnalyticsChartId;
+  title: string;
+  description: string;
+  orientation: 'vertical' | 'horizontal';
+  series: string[];
+  bars: { label: string; values: number[]; detail?: string }[];
+  valueLabel: string; // what the bar length measures
+}
+
+export interface ThreadAnalytics {
+  threadId: string;
+  charts: AnalyticsChart[];
+}
+
+// ============================================
+// Snapshot Types (re-mines of the same thread)
+// ============================================
+
+// Just what a diff needs - full NormalizedData would fill localStorage fast
+export interface ThreadSnapshot {
+  threadId: string;
+  takenAt: string; // meta.fetchedAt of the run
+  thread: Pick<NormalizedThread, 'id' | 'title' | 'subreddit' | 'permalink' | 'score' | 'upvoteRatio' | 'commentCount'>;
+  comments: SnapshotComment[];
+}
+
+export type SnapshotComment = Pick<
+  NormalizedComment,
+  'id' | 'author' | 'body' | 'score' | 'editedAt' | 'parentId' | 'depth' | 'permalink'
+>;
+
+export interface NumberDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ThreadDiff {
+  threadId: string;
+  title: string;
+  permalink: string;
+  from: string; // takenAt of the older snapshot
+  to: string;
+  thread: {
+    score: NumberDelta;
+    upvoteRatio: NumberDelta;
+    commentCount: NumberDelta;
+  };
+  added: SnapshotComment[];
+  // 'missing' = not returned any more; may also be a depth or limit difference
+  removed: (SnapshotComment & { reason: 'deleted' | 'removed' | 'missing' })[];
+  edited: { before: SnapshotComment; after: SnapshotComment }[];
+  scoreChanges: (NumberDelta & { comment: SnapshotComment })[];
+}
+
+// ============================================
+// Watchlist Types (background re-polling)
+// ============================================
+
+export type WatchHitKind = 'pain' | 'intent' | 'shill';
+
+// A new comment the pattern analyzer flagged since the last poll
+export interface WatchHit {
+  commentId: string;
+  kind: WatchHitKind;
+  signals: string[]; // matched signals, or shill reasons
+  author: string;
+  body: string;
+  score: number;
+  permalink: string;
+  foundAt: string;
+}
+
+export interface WatchedThread {
+  threadId: string;
+  url: string;
+  title: string;
+  subreddit: string;
+  commentCount: number;
+  intervalMinutes: number;
+  addedAt: string;
+  minedAt?: string; // fetchedAt of the pinned mine; missing on pins saved before it existed
+  lastPolledAt: string | null;
+  lastError: string | null;
+  seenIds: string[]; // comments already analyzed; anything else is new
+  hits: WatchHit[]; // unread, newest first
+}
+
+export interface SavedWatchlist {
+  threads: WatchedThread[];
+  notify: boolean; // browser notifications, on top of the in-app badge
+}
+
+// ============================================
+// Saved Search Types (keyword monitoring)
+// ============================================
+
+export interface SavedSearch {
+  id: string;
+  keywords: string[];
+  subreddits: string[]; // empty = all of Reddit, posts only
+  intervalMinutes: number;
+  createdAt: string;
+  lastPolledAt: string | null;
+  lastError: string | null;
+  seenIds: string[]; // fullnames already in the feed
+}
+
+export interface SearchHit {
+  id: string; // fullname, t3_ or t1_
+  searchId: string;
+  kind: 'post' | 'comment';
+  keywords: string[]; // which of the search's keywords appear in the text
+  subreddit: string;
+  author: string;
+  title: string; // post title, or the title of the thread a comment is in
+  body: string;
+  score: number;
+  permalink: string;
+  createdAt: string;
+  foundAt: string;
+  pain: string[];
+  intent: string[];
+}
+
+export interface SavedSearches {
+  searches: SavedSearch[];
+  feed: SearchHit[]; // newest first
+  lastViewedAt: string | null; // hits found after this are unread
+}
+
 // ============================================
 // API Request/Response Types
 // ============================================
@@ -216,16 +716,48 @@ export interface FetchThreadRequest {
   sort?: 'best' | 'top' | 'new' | 'controversial' | 'old' | 'qa';
   maxComments?: number;
   minScore?: number;
+  expandMore?: boolean; // Resolve "load more comments" stubs before normalizing
+  expandOptions?: ExpandMoreOptions;
+  query?: string; // comment filter, e.g. `is:op has:link`
+}
+
+export interface ExpandMoreOptions {
+  maxRequests?: number; // Hard cap on /api/morechildren calls per thread
+  concurrency?: number; // Requests in flight at once
+  batchSize?: number; // Comment IDs per request (Reddit allows up to 100)
+}
+
+export interface ExpandProgress {
+  expanded: number; // Comments merged into the tree so far
+  total: number; // Comments hidden behind "more" stubs
+  requests: number; // morechildren calls made
 }
 
+export type RedditErrorType =
+  | 'rate_limit'
+  | 'not_found'
+  | 'forbidden'
+  | 'server_error'
+  | 'network'
+  | 'parse';
+
 export interface FetchThreadResponse {
   success: boolean;
   data?: NormalizedData;
   raw?: [RedditRawResponse, RedditRawResponse]; // [post, comments]
   error?: string;
+  errorType?: RedditErrorType | 'invalid_request';
   cached?: boolean;
 }
 
+// GET /api/resolve?url= - share links only reveal their target via a redirect
+export interface ResolveUrlResponse {
+  success: boolean;
+  url?: string; // canonical thread/comment URL
+  error?: string;
+  errorType?: RedditErrorType | 'invalid_request';
+}
+
 export interface AnalyzeRequest {
   threadId: string;
   data: NormalizedData;
@@ -237,6 +769,49 @@ export interface AnalyzeResponse {
   error?: string;
 }
 
+// ============================================
+// LLM Provider Types (/api/llm)
+// ============================================
+
+export type LLMProviderId = 'openrouter' | 'openai' | 'ollama' | 'llamacpp';
+
+// User-tunable generation settings; keys and base URLs stay server-side
+export interface LLMSettings {
+  provider: LLMProviderId | null; // null = server default (LLM_PROVIDER)
+  model: string; // empty = provider default
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMProviderStatus {
+  id: LLMProviderId;
+  label: string;
+  configured: boolean;
+  defaultModel: string;
+}
+
+export interface LLMStatusResponse {
+  providers: LLMProviderStatus[];
+  defaultProvider: LLMProviderId | null;
+}
+
+export interface LLMCompletionRequest extends Partial<LLMSettings> {
+  messages: LLMMessage[];
+  json?: boolean; // ask the provider for JSON mode where supported
+}
+
+export interface LLMCompletionResponse {
+  success: boolean;
+  content?: string;
+  model?: string;
+  error?: string;
+}
+
 // ============================================
 // Store Types
 // ============================================
@@ -249,15 +824,27 @@ export interface MinerState {
   sort: 'best' | 'top' | 'new' | 'controversial';
   maxComments: number;
   minScore: number;
+  expandMore: boolean;
+  listingSize: number;
+  commentQuery: string; // filter over mined comments, applied when viewing/exporting
+  threadSearch: ThreadSearch;
+  searchIndex: number; // active match in the preview
+  useLocalModel: boolean;
+  llmSettings: LLMSettings;
   
   // Loading state
   isLoading: boolean;
-  loadingStep: 'idle' | 'fetching' | 'normalizing' | 'analyzing';
+  loadingStep: LoadingStep;
   progress: number;
+  expandProgress: ExpandProgress | null;
+  listingProgress: ListingProgress | null;
+  profileProgress: ProfileProgress | null;
   
   // Results
   rawData: [RedditRawResponse, RedditRawResponse] | null;
   normalizedData: NormalizedData | null;
+  listingData: NormalizedListing | null;
+  profileData: NormalizedProfile | null;
   insightsData: InsightsData | null;
   
   // Error
@@ -270,6 +857,13 @@ export interface MinerState {
   setSort: (sort: 'best' | 'top' | 'new' | 'controversial') => void;
   setMaxComments: (max: number) => void;
   setMinScore: (min: number) => void;
+  setExpandMore: (expand: boolean) => void;
+  setListingSize: (size: number) => void;
+  setCommentQuery: (query: string) => void;
+  setThreadSearch: (search: Partial<ThreadSearch>) => void;
+  setSearchIndex: (index: number) => void;
+  setUseLocalModel: (use: boolean) => void;
+  setLLMSettings: (settings: Partial<LLMSettings>) => void;
   reset: () => void;
   mine: () => Promise<void>;
 }
@@ -0,0 +1,96 @@
+// ============================================
+// THREADMINER - Find in Thread
+// https://github.com/Sigmabrogz/REDDITMINER
+// Text or regex search over comment bodies and
+// authors, in the order the preview renders them
+// ============================================
+
+import { NormalizedData, SearchMatch, ThreadSearch } from './schemas';
+import { buildCommentTree, flattenCommentTree } from './reddit';
+
+// A loose regex like `.` shouldn't lock up the tab on a huge thread
+const MAX_MATCHES = 5000;
+
+export interface ThreadSearchResult {
+  matches: SearchMatch[];
+  commentIds: Set<string>; // comments with at least one match
+  error: string | null; // invalid regex
+  truncated: boolean; // stopped at MAX_MATCHES
+}
+
+const EMPTY_RESULT: ThreadSearchResult = { matches: [], commentIds: new Set(), error: null, truncated: false };
+
+export function isSearchActive(search: ThreadSearch): boolean {
+  return search.text.length > 0;
+}
+
+export function buildSearchRegex(search: ThreadSearch): RegExp {
+  const source = search.regex ? search.text : search.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(source, search.caseSensitive ? 'g' : 'gi');
+}
+
+export function describeThreadSearch(search: ThreadSearch): string {
+  const pattern = search.regex ? `/${search.text}/` : `"${search.text}"`;
+  return search.caseSensitive ? `${pattern} (case-sensitive)` : pattern;
+}
+
+/**
+ * Every match in reading order: comments depth-first as the tree renders
+ * them, the author before the body within a comment. Empty matches
+ * (`a*`, `^`) are skipped - there's nothing to highlight.
+ */
+export function searchThread(data: NormalizedData, search: ThreadSearch): ThreadSearchResult {
+  if (!isSearchActive(search)) return EMPTY_RESULT;
+
+  let regex: RegExp;
+  try {
+    regex = buildSearchRegex(search);
+  } catch (error) {
+    return { ...EMPTY_RESULT, error: error instanceof Error ? error.message : 'Invalid regular expression' };
+  }
+
+  const matches: SearchMatch[] = [];
+  const commentIds = new Set<string>();
+
+  for (const comment of flattenCommentTree(buildCommentTree(data).comments)) {
+    for (const field of ['author', 'body'] as const) {
+      for (const match of comment[field].matchAll(regex)) {
+        if (match[0].length === 0) continue;
+        if (matches.length === MAX_MATCHES) {
+          return { matches, commentIds, error: null, truncated: true };
+        }
+        matches.push({
+          index: matches.length,
+          commentId: comment.id,
+          field,
+          start: match.index,
+          end: match.index + match[0].length,
+        });
+        commentIds.add(comment.id);
+      }
+    }
+  }
+
+  return { matches, commentIds, error: null, truncated: false };
+}
+
+// Narrow a thread to the comments a search hit, for exports
+export function applyThreadSearch(
+  data: NormalizedData,
+  search: ThreadSearch,
+  result: ThreadSearchResult
+): NormalizedData {
+  if (!isSearchActive(search) || result.error) return data;
+
+  const comments = data.comments.filter(c => result.commentIds.has(c.id));
+  return {
+    ...data,
+    comments,
+    meta: {
+      ...data.meta,
+      totalComments: comments.length,
+      maxDepth: comments.reduce((max, c) => Math.max(max, c.depth), 0),
+      search: describeThreadSearch(search),
+    },
+  };
+}
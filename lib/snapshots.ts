@@ -0,0 +1,159 @@
+// ============================================
+// THREADMINER - Snapshot Diffing
+// https://github.com/Sigmabrogz/REDDITMINER
+// Compares two mining runs of the same thread
+// ============================================
+
+import { ThreadSnapshot, ThreadDiff, SnapshotComment, NumberDelta } from './schemas';
+import { truncate } from './utils';
+
+const MAX_MARKDOWN_SCORE_CHANGES = 25;
+
+function delta(before: number, after: number): NumberDelta {
+  return { before, after, delta: after - before };
+}
+
+// Reddit keeps the comment but blanks it: [deleted] by the author, [removed] by mods
+function blankedReason(comment: SnapshotComment): 'deleted' | 'removed' | null {
+  if (comment.body === '[removed]') return 'removed';
+  if (comment.body === '[deleted]' || comment.author === '[deleted]') return 'deleted';
+  return null;
+}
+
+/**
+ * `before` should be the older run. Comments the newer run didn't return at
+ * all are reported as 'missing' - that includes depth/limit differences
+ * between the two runs, not just deletions.
+ */
+export function diffSnapshots(before: ThreadSnapshot, after: ThreadSnapshot): ThreadDiff {
+  const beforeById = new Map(before.comments.map(c => [c.id, c]));
+  const afterById = new Map(after.comments.map(c => [c.id, c]));
+
+  const added = after.comments.filter(c => !beforeById.has(c.id));
+  const removed: ThreadDiff['removed'] = [];
+  const edited: ThreadDiff['edited'] = [];
+  const scoreChanges: ThreadDiff['scoreChanges'] = [];
+
+  for (const old of before.comments) {
+    const current = afterById.get(old.id);
+
+    if (!current) {
+      removed.push({ ...old, reason: blankedReason(old) ?? 'missing' });
+      continue;
+    }
+
+    // Already blank in the older run means nothing new happened to it
+    const reason = blankedReason(current);
+    if (reason && !blankedReason(old)) {
+      removed.push({ ...old, reason });
+      continue;
+    }
+
+    if (current.editedAt && current.editedAt !== old.editedAt) {
+      edited.push({ before: old, after: current });
+    }
+
+    if (current.score !== old.score) {
+      scoreChanges.push({ ...delta(old.score, current.score), comment: current });
+    }
+  }
+
+  scoreChanges.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  return {
+    threadId: after.threadId,
+    title: after.thread.title,
+    permalink: after.thread.permalink,
+    from: before.takenAt,
+    to: after.takenAt,
+    thread: {
+      score: delta(before.thread.score, after.thread.score),
+      upvoteRatio: delta(before.thread.upvoteRatio, after.thread.upvoteRatio),
+      commentCount: delta(before.thread.commentCount, after.thread.commentCount),
+    },
+    added,
+    removed,
+    edited,
+    scoreChanges,
+  };
+}
+
+export function diffIsEmpty(diff: ThreadDiff): boolean {
+  return diff.added.length === 0
+    && diff.removed.length === 0
+    && diff.edited.length === 0
+    && diff.scoreChanges.length === 0
+    && diff.thread.score.delta === 0
+    && diff.thread.upvoteRatio.delta === 0
+    && diff.thread.commentCount.delta === 0;
+}
+
+// ============================================
+// Markdown Report
+// ============================================
+
+export function formatDelta(value: number, digits: number = 0): string {
+  const fixed = value.toFixed(digits);
+  return value > 0 ? `+${fixed}` : fixed;
+}
+
+function commentLine(comment: SnapshotComment): string {
+  const body = truncate(comment.body.replace(/\s+/g, ' '), 200);
+  return `- [u/${comment.author}](${comment.permalink}) • ${comment.score} points — ${body}\n`;
+}
+
+export function diffToMarkdown(diff: ThreadDiff): string {
+  const { thread } = diff;
+  let md = '';
+
+  md += `# Changes: ${diff.title}\n\n`;
+  md += `[View thread](${diff.permalink}) • ${new Date(diff.from).toLocaleString()} → ${new Date(diff.to).toLocaleString()}\n\n`;
+
+  md += `| | Before | After | Change |\n|---|---|---|---|\n`;
+  md += `| Score | ${thread.score.before} | ${thread.score.after} | ${formatDelta(thread.score.delta)} |\n`;
+  md += `| Upvote ratio | ${Math.round(thread.upvoteRatio.before * 100)}% | ${Math.round(thread.upvoteRatio.after * 100)}% | `;
+  md += `${formatDelta(thread.upvoteRatio.delta * 100)} pts |\n`;
+  md += `| Comments | ${thread.commentCount.before} | ${thread.commentCount.after} | ${formatDelta(thread.commentCount.delta)} |\n\n`;
+
+  if (diff.added.length > 0) {
+    md += `## New Comments (${diff.added.length})\n\n`;
+    for (const comment of diff.added) md += commentLine(comment);
+    md += '\n';
+  }
+
+  if (diff.removed.length > 0) {
+    md += `## Deleted / Removed (${diff.removed.length})\n\n`;
+    for (const comment of diff.removed) md += `- **${comment.reason}** ${commentLine(comment).slice(2)}`;
+    md += '\n';
+  }
+
+  if (diff.edited.length > 0) {
+    md += `## Edited (${diff.edited.length})\n\n`;
+    for (const { before, after } of diff.edited) {
+      md += `### [u/${after.author}](${after.permalink})\n\n`;
+      md += `**Before:**\n\n> ${before.body.replace(/\n/g, '\n> ')}\n\n`;
+      md += `**After:**\n\n> ${after.body.replace(/\n/g, '\n> ')}\n\n`;
+    }
+  }
+
+  if (diff.scoreChanges.length > 0) {
+    md += `## Score Changes (${diff.scoreChanges.length})\n\n`;
+    md += `| Comment | Before | After | Change |\n|---|---|---|---|\n`;
+    for (const change of diff.scoreChanges.slice(0, MAX_MARKDOWN_SCORE_CHANGES)) {
+      const label = truncate(change.comment.body.replace(/\s+/g, ' ').replace(/\|/g, '\\|'), 60);
+      md += `| [u/${change.comment.author}](${change.comment.permalink}): ${label} | ${change.before} | ${change.after} | ${formatDelta(change.delta)} |\n`;
+    }
+    if (diff.scoreChanges.length > MAX_MARKDOWN_SCORE_CHANGES) {
+      md += `\n*...and ${diff.scoreChanges.length - MAX_MARKDOWN_SCORE_CHANGES} more in the JSON export*\n`;
+    }
+    md += '\n';
+  }
+
+  if (diffIsEmpty(diff)) {
+    md += '*No changes between these runs.*\n\n';
+  }
+
+  md += `---\n\n*Compared by ThreadMiner • ${new Date().toISOString()}*\n`;
+
+  return md;
+}
@@ -7,10 +7,20 @@ import { create } from 'zustand';
 import {
   OutputFormat,
   DepthLevel,
+  LoadingStep,
+  ExpandProgress,
+  ListingProgress,
+  ProfileProgress,
   NormalizedData,
+  NormalizedListing,
+  NormalizedProfile,
   InsightsData,
   RedditRawResponse,
+  LLMSettings,
+  ThreadSearch,
 } from './schemas';
+import { DEFAULT_LLM_SETTINGS } from './openrouter';
+import { getSavedLLMSettings, saveLLMSettings } from './utils';
 
 interface MinerStore {
   // Input state
@@ -20,15 +30,27 @@ interface MinerStore {
   sort: 'best' | 'top' | 'new' | 'controversial';
   maxComments: number;
   minScore: number;
+  expandMore: boolean;
+  listingSize: number;
+  commentQuery: string; // filter over mined comments, applied when viewing/exporting
+  threadSearch: ThreadSearch;
+  searchIndex: number; // active match in the preview
+  useLocalModel: boolean;
+  llmSettings: LLMSettings;
   
   // Loading state
   isLoading: boolean;
-  loadingStep: 'idle' | 'fetching' | 'normalizing' | 'analyzing';
+  loadingStep: LoadingStep;
   progress: number;
+  expandProgress: ExpandProgress | null;
+  listingProgress: ListingProgress | null;
+  profileProgress: ProfileProgress | null;
   
   // Results
   rawData: [RedditRawResponse, RedditRawResponse] | null;
   normalizedData: NormalizedData | null;
+  listingData: NormalizedListing | null;
+  profileData: NormalizedProfile | null;
   insightsData: InsightsData | null;
   
   // Error
@@ -41,9 +63,21 @@ interface MinerStore {
   setSort: (sort: 'best' | 'top' | 'new' | 'controversial') => void;
   setMaxComments: (max: number) => void;
   setMinScore: (min: number) => void;
-  setLoading: (isLoading: boolean, step?: 'idle' | 'fetching' | 'normalizing' | 'analyzing') => void;
+  setExpandMore: (expand: boolean) => void;
+  setListingSize: (size: number) => void;
+  setCommentQuery: (query: string) => void;
+  setThreadSearch: (search: Partial<ThreadSearch>) => void;
+  setSearchIndex: (index: number) => void;
+  setUseLocalModel: (use: boolean) => void;
+  setLLMSettings: (settings: Partial<LLMSettings>) => void;
+  setLoading: (isLoading: boolean, step?: LoadingStep) => void;
   setProgress: (progress: number) => void;
+  setExpandProgress: (progress: ExpandProgress | null) => void;
+  setListingProgress: (progress: ListingProgress | null) => void;
   setResults: (raw: [RedditRawResponse, RedditRawResponse] | null, normalized: NormalizedData | null) => void;
+  setListing: (listing: NormalizedListing | null) => void;
+  setProfileProgress: (progress: ProfileProgress | null) => void;
+  setProfile: (profile: NormalizedProfile | null) => void;
   setInsights: (insights: InsightsData | null) => void;
   setError: (error: string | null) => void;
   reset: () => void;
@@ -56,11 +90,23 @@ const initialState = {
   sort: 'best' as const,
   maxComments: 500,
   minScore: 0,
+  expandMore: false,
+  listingSize: 10,
+  commentQuery: '',
+  threadSearch: { text: '', regex: false, caseSensitive: false },
+  searchIndex: 0,
+  useLocalModel: false,
+  llmSettings: { ...DEFAULT_LLM_SETTINGS, ...getSavedLLMSettings() },
   isLoading: false,
-  loadingStep: 'idle' as const,
+  loadingStep: 'idle' as LoadingStep,
   progress: 0,
+  expandProgress: null,
+  listingProgress: null,
+  profileProgress: null,
   rawData: null,
   normalizedData: null,
+  listingData: null,
+  profileData: null,
   insightsData: null,
   error: null,
 };
@@ -80,6 +126,28 @@ export const useMinerStore = create<MinerStore>((set) => ({
   
   setMinScore: (minScore) => set({ minScore }),
   
+  setExpandMore: (expandMore) => set({ expandMore }),
+  
+  setListingSize: (listingSize) => set({ listingSize }),
+  
+  setCommentQuery: (commentQuery) => set({ commentQuery }),
+  
+  // Any change to the search starts over at the first match
+  setThreadSearch: (search) => set((state) => ({
+    threadSearch: { ...state.threadSearch, ...search },
+    searchIndex: 0,
+  })),
+  
+  setSearchIndex: (searchIndex) => set({ searchIndex }),
+  
+  setUseLocalModel: (useLocalModel) => set({ useLocalModel }),
+  
+  setLLMSettings: (settings) => set((state) => {
+    const llmSettings = { ...state.llmSettings, ...settings };
+    saveLLMSettings(llmSettings);
+    return { llmSettings };
+  }),
+  
   setLoading: (isLoading, step = 'idle') => set({ 
     isLoading, 
     loadingStep: step,
@@ -88,12 +156,43 @@ export const useMinerStore = create<MinerStore>((set) => ({
   
   setProgress: (progress) => set({ progress }),
   
+  setExpandProgress: (expandProgress) => set({ expandProgress }),
+  
+  setListingProgress: (listingProgress) => set({ listingProgress }),
+  
+  // A search typed for the last thread shouldn't silently narrow this one
   setResults: (rawData, normalizedData) => set({ 
     rawData, 
     normalizedData,
+    threadSearch: initialState.threadSearch,
+    searchIndex: 0,
+    isLoading: false,
+    loadingStep: 'idle',
+    progress: 100,
+    expandProgress: null,
+  }),
+  
+  setListing: (listingData) => set({
+    listingData,
+    rawData: null,
+    normalizedData: null,
+    isLoading: false,
+    loadingStep: 'idle',
+    progress: 100,
+    listingProgress: null,
+  }),
+  
+  setProfileProgress: (profileProgress) => set({ profileProgress }),
+  
+  setProfile: (profileData) => set({
+    profileData,
+    rawData: null,
+    normalizedData: null,
+    listingData: null,
     isLoading: false,
     loadingStep: 'idle',
     progress: 100,
+    profileProgress: null,
   }),
   
   setInsights: (insightsData) => set({ insightsData }),
@@ -103,8 +202,12 @@ export const useMinerStore = create<MinerStore>((set) => ({
     isLoading: false, 
     loadingStep: 'idle',
     progress: 0,
+    expandProgress: null,
+    listingProgress: null,
+    profileProgress: null,
   }),
   
-  reset: () => set(initialState),
+  // Saved LLM settings are a preference, not part of a mining run
+  reset: () => set((state) => ({ ...initialState, llmSettings: state.llmSettings })),
 }));
 
@@ -4,7 +4,7 @@
 
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { NormalizedData } from './schemas';
+import { NormalizedData, LLMSettings, ThreadSnapshot, SavedWatchlist, SavedSearches } from './schemas';
 
 // Tailwind class merger
 export function cn(...inputs: ClassValue[]) {
@@ -33,6 +33,19 @@ export function formatNumber(num: number): string {
   return num.toString();
 }
 
+// Format seconds as m:ss
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.round(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+// Seconds as a number and unit for stat tiles: 45m, 3.5h, 12d
+export function durationParts(seconds: number): { value: number; unit: string } {
+  if (seconds < 2 * 60 * 60) return { value: Math.round(seconds / 60), unit: 'm' };
+  if (seconds < 2 * 24 * 60 * 60) return { value: Math.round(seconds / 360) / 10, unit: 'h' };
+  return { value: Math.round(seconds / 8640) / 10, unit: 'd' };
+}
+
 // Generate a short ID
 export function shortId(): string {
   return Math.random().toString(36).substring(2, 9);
@@ -100,15 +113,7 @@ export function downloadFile(
 
   // Standard download
   try {
-    const blob = new Blob([content], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([content], { type: mimeType }), filename);
     return { success: true, fallbackUsed: false };
   } catch {
     // If download fails, copy to clipboard
@@ -117,6 +122,18 @@ export function downloadFile(
   }
 }
 
+// Binary downloads (rendered PNGs) have no text to share or copy instead
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 // Extract domain from URL
 export function extractDomain(url: string): string {
   try {
@@ -137,6 +154,27 @@ export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+// Run async tasks with at most `limit` in flight, preserving result order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
 // Hash string (simple)
 export function hashString(str: string): string {
   let hash = 0;
@@ -152,16 +190,17 @@ export function hashString(str: string): string {
 export function createCacheKey(
   url: string,
   depth: string,
-  sort: string
+  sort: string,
+  expandMore: boolean = false
 ): string {
-  return `threadminer:${hashString(`${url}:${depth}:${sort}`)}`;
+  return `threadminer:${hashString(`${url}:${depth}:${sort}${expandMore ? ':expanded' : ''}`)}`;
 }
 
 // ============================================
 // LocalStorage Cache for Threads
 // ============================================
 
-const CACHE_VERSION = '1';
+const CACHE_VERSION = '2';
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
 interface CachedThread {
@@ -222,6 +261,7 @@ const MAX_HISTORY = 20;
 
 export interface HistoryItem {
   url: string;
+  threadId?: string; // single threads only - keys their snapshots
   title: string;
   subreddit: string;
   commentCount: number;
@@ -267,3 +307,165 @@ export function clearHistory(): void {
   if (typeof window === 'undefined') return;
   localStorage.removeItem(HISTORY_KEY);
 }
+
+// ============================================
+// Thread Snapshots
+// ============================================
+
+const SNAPSHOTS_KEY_PREFIX = 'threadminer:snapshots:';
+const MAX_SNAPSHOTS = 10; // per thread
+
+function snapshotsKey(threadId: string): string {
+  return `${SNAPSHOTS_KEY_PREFIX}${threadId}`;
+}
+
+// Oldest first
+export function getSnapshots(threadId: string): ThreadSnapshot[] {
+  if (typeof window === 'undefined') return [];
+  
+  try {
+    const saved = localStorage.getItem(snapshotsKey(threadId));
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toSnapshot(data: NormalizedData): ThreadSnapshot {
+  const { thread } = data;
+  return {
+    threadId: thread.id,
+    takenAt: data.meta.fetchedAt,
+    thread: {
+      id: thread.id,
+      title: thread.title,
+      subreddit: thread.subreddit,
+      permalink: thread.permalink,
+      score: thread.score,
+      upvoteRatio: thread.upvoteRatio,
+      commentCount: thread.commentCount,
+    },
+    comments: data.comments.map(c => ({
+      id: c.id,
+      author: c.author,
+      body: c.body,
+      score: c.score,
+      editedAt: c.editedAt,
+      parentId: c.parentId,
+      depth: c.depth,
+      permalink: c.permalink,
+    })),
+  };
+}
+
+export function saveSnapshot(data: NormalizedData): void {
+  if (typeof window === 'undefined') return;
+  
+  const snapshots = [...getSnapshots(data.thread.id), toSnapshot(data)].slice(-MAX_SNAPSHOTS);
+  
+  // Big threads can hit the quota - give up the oldest runs before the new one
+  while (snapshots.length > 0) {
+    try {
+      localStorage.setItem(snapshotsKey(data.thread.id), JSON.stringify(snapshots));
+      return;
+    } catch {
+      snapshots.shift();
+    }
+  }
+}
+
+export function deleteSnapshot(threadId: string, takenAt: string): void {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    const remaining = getSnapshots(threadId).filter(s => s.takenAt !== takenAt);
+    if (remaining.length > 0) {
+      localStorage.setItem(snapshotsKey(threadId), JSON.stringify(remaining));
+    } else {
+      localStorage.removeItem(snapshotsKey(threadId));
+    }
+  } catch {
+    // localStorage unavailable, ignore
+  }
+}
+
+// ============================================
+// LLM Settings
+// ============================================
+
+const LLM_SETTINGS_KEY = 'threadminer:llm-settings';
+
+export function getSavedLLMSettings(): Partial<LLMSettings> {
+  if (typeof window === 'undefined') return {};
+  
+  try {
+    const saved = localStorage.getItem(LLM_SETTINGS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveLLMSettings(settings: LLMSettings): void {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    localStorage.setItem(LLM_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // localStorage full or unavailable, ignore
+  }
+}
+
+// ============================================
+// Watchlist
+// ============================================
+
+const WATCHLIST_KEY = 'threadminer:watchlist';
+
+export function getSavedWatchlist(): SavedWatchlist {
+  if (typeof window === 'undefined') return { threads: [], notify: false };
+  
+  try {
+    const saved = localStorage.getItem(WATCHLIST_KEY);
+    return saved ? JSON.parse(saved) : { threads: [], notify: false };
+  } catch {
+    return { threads: [], notify: false };
+  }
+}
+
+export function saveWatchlist(watchlist: SavedWatchlist): void {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    localStorage.setItem(WATCHLIST_KEY, JSON.stringify(watchlist));
+  } catch {
+    // localStorage full or unavailable, ignore
+  }
+}
+
+// ============================================
+// Saved Searches
+// ============================================
+
+const SEARCHES_KEY = 'threadminer:searches';
+
+export function getSavedSearches(): SavedSearches {
+  if (typeof window === 'undefined') return { searches: [], feed: [], lastViewedAt: null };
+  
+  try {
+    const saved = localStorage.getItem(SEARCHES_KEY);
+    return saved ? JSON.parse(saved) : { searches: [], feed: [], lastViewedAt: null };
+  } catch {
+    return { searches: [], feed: [], lastViewedAt: null };
+  }
+}
+
+export function saveSearches(searches: SavedSearches): void {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    localStorage.setItem(SEARCHES_KEY, JSON.stringify(searches));
+  } catch {
+    // localStorage full or unavailable, ignore
+  }
+}
@@ -0,0 +1,283 @@
+// ============================================
+// THREADMINER - Watchlist
+// https://github.com/Sigmabrogz/REDDITMINER
+// Re-polls pinned threads in the background and
+// flags new pain, intent and shill comments
+// ============================================
+
+import { NormalizedData, NormalizedComment, WatchedThread, WatchHit, SavedWatchlist } from './schemas';
+import {
+  fetchThreadClientSide,
+  fetchThreadViaServer,
+  isBlockedRequestError,
+  normalizeThread,
+} from './reddit';
+import { analyzeComments, AIAnalysisResult, PAIN_SIGNALS, INTENT_SIGNALS } from './ai-analysis';
+import { getSavedWatchlist, saveWatchlist } from './utils';
+
+export const POLL_INTERVALS = [5, 15, 30, 60]; // minutes
+const DEFAULT_INTERVAL = 15;
+const TICK_MS = 30 * 1000;
+const POLL_LIMIT = 500;
+const MAX_SEEN_IDS = 5000;
+const MAX_HITS = 50; // unread per thread
+
+export interface WatchlistAlert {
+  threadId: string;
+  title: string;
+  hits: WatchHit[];
+}
+
+export interface WatchlistState extends SavedWatchlist {
+  pollingId: string | null;
+  alert: WatchlistAlert | null; // newest hits, until dismissed
+}
+
+export interface Watchlist {
+  getState: () => WatchlistState;
+  getServerState: () => WatchlistState;
+  subscribe: (listener: () => void) => () => void;
+  add: (data: NormalizedData) => void;
+  remove: (threadId: string) => void;
+  setPollInterval: (threadId: string, minutes: number) => void;
+  markRead: (threadId: string) => void;
+  setNotify: (notify: boolean) => Promise<void>;
+  dismissAlert: () => void;
+  pollNow: (threadId: string) => Promise<void>;
+  start: () => () => void;
+}
+
+const SERVER_STATE: WatchlistState = { threads: [], notify: false, pollingId: null, alert: null };
+
+// ============================================
+// Hit Detection
+// ============================================
+
+// Bare negative sentiment is too noisy to notify on - pains need a pattern hit
+function findHits(analysis: AIAnalysisResult): WatchHit[] {
+  const foundAt = new Date().toISOString();
+  const hit = (comment: NormalizedComment, kind: WatchHit['kind'], signals: string[]): WatchHit => ({
+    commentId: comment.id,
+    kind,
+    signals,
+    author: comment.author,
+    body: comment.body,
+    score: comment.score,
+    permalink: comment.permalink,
+    foundAt,
+  });
+
+  const hits: WatchHit[] = [];
+
+  for (const a of analysis.pains) {
+    const signals = a.signals.filter(s => PAIN_SIGNALS.includes(s));
+    if (signals.length > 0) hits.push(hit(a.comment, 'pain', signals));
+  }
+  for (const a of analysis.intents) {
+    const signals = a.signals.filter(s => INTENT_SIGNALS.includes(s));
+    if (signals.length > 0) hits.push(hit(a.comment, 'intent', signals));
+  }
+  for (const a of analysis.shillWarnings) {
+    hits.push(hit(a.comment, 'shill', a.shillReasons));
+  }
+
+  return hits;
+}
+
+// Newest comments first, so the 500-comment cap keeps what a re-poll is for
+async function fetchLatest(url: string): Promise<NormalizedData> {
+  try {
+    const raw = await fetchThreadClientSide(url, { sort: 'new', limit: POLL_LIMIT });
+    return normalizeThread(raw, { depth: 'full', maxComments: POLL_LIMIT });
+  } catch (error) {
+    if (!isBlockedRequestError(error)) throw error;
+    const result = await fetchThreadViaServer({
+      url,
+      depth: 'full',
+      sort: 'new',
+      maxComments: POLL_LIMIT,
+    });
+    return result.data;
+  }
+}
+
+function isDue(thread: WatchedThread, now: number): boolean {
+  if (!thread.lastPolledAt) return true;
+  return now - new Date(thread.lastPolledAt).getTime() >= thread.intervalMinutes * 60 * 1000;
+}
+
+function sendBrowserNotification(alert: WatchlistAlert) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+  const kinds = [...new Set(alert.hits.map(h => h.kind))].join(', ');
+  new Notification(`${alert.hits.length} new signal${alert.hits.length === 1 ? '' : 's'} (${kinds})`, {
+    body: alert.title,
+    tag: `threadminer:${alert.threadId}`,
+  });
+}
+
+// ============================================
+// Watchlist Store
+// ============================================
+
+/**
+ * Polls run one at a time through the shared Reddit scheduler, checked every
+ * TICK_MS while the app is open. Each poll runs the pattern analyzer over
+ * comments whose ids haven't been seen yet and that were posted after the
+ * pinned mine was fetched. Pinning seeds the seen set, but the pinned mine
+ * may be filtered or capped, so the seen set alone would flag old comments.
+ * A cached or history result can be hours old, hence fetchedAt, not the pin.
+ */
+export function createWatchlist(): Watchlist {
+  const listeners = new Set<() => void>();
+  let state: WatchlistState = { ...getSavedWatchlist(), pollingId: null, alert: null };
+  let ticking = false;
+  // Polls queue behind each other so pollingId names the only one in flight
+  let polls: Promise<void> = Promise.resolve();
+  const queued = new Set<string>(); // waiting or polling
+
+  function update(patch: Partial<WatchlistState>) {
+    state = { ...state, ...patch };
+    if (patch.threads || patch.notify !== undefined) {
+      saveWatchlist({ threads: state.threads, notify: state.notify });
+    }
+    listeners.forEach(listener => listener());
+  }
+
+  function patchThread(threadId: string, patch: (thread: WatchedThread) => Partial<WatchedThread>) {
+    update({
+      threads: state.threads.map(t => (t.threadId === threadId ? { ...t, ...patch(t) } : t)),
+    });
+  }
+
+  async function poll(threadId: string) {
+    const thread = state.threads.find(t => t.threadId === threadId);
+    if (!thread) return;
+
+    update({ pollingId: threadId });
+    try {
+      const data = await fetchLatest(thread.url);
+      const seen = new Set(thread.seenIds);
+      const minedAt = new Date(thread.minedAt || thread.addedAt).getTime() / 1000;
+      const unseen = data.comments.filter(c => !seen.has(c.id));
+      const fresh = unseen.filter(c => c.createdUtc > minedAt);
+      const hits = fresh.length > 0 ? findHits(await analyzeComments(fresh)) : [];
+
+      patchThread(threadId, t => ({
+        title: data.thread.title,
+        commentCount: data.thread.commentCount,
+        lastPolledAt: new Date().toISOString(),
+        lastError: null,
+        seenIds: [...t.seenIds, ...unseen.map(c => c.id)].slice(-MAX_SEEN_IDS),
+        hits: [...hits, ...t.hits].slice(0, MAX_HITS),
+      }));
+
+      if (hits.length > 0) {
+        const alert = { threadId, title: data.thread.title, hits };
+        update({ alert });
+        if (state.notify) sendBrowserNotification(alert);
+      }
+    } catch (error) {
+      patchThread(threadId, () => ({
+        lastPolledAt: new Date().toISOString(),
+        lastError: error instanceof Error ? error.message : 'Poll failed',
+      }));
+    } finally {
+      update({ pollingId: null });
+    }
+  }
+
+  // A manual poll during a tick waits its turn; one already queued is a no-op
+  function enqueuePoll(threadId: string): Promise<void> {
+    if (queued.has(threadId)) return polls;
+    queued.add(threadId);
+    polls = polls.then(() => poll(threadId)).finally(() => queued.delete(threadId));
+    return polls;
+  }
+
+  async function tick() {
+    if (ticking) return;
+    ticking = true;
+    try {
+      const now = Date.now();
+      for (const thread of state.threads.filter(t => isDue(t, now))) {
+        await enqueuePoll(thread.threadId);
+      }
+    } finally {
+      ticking = false;
+    }
+  }
+
+  return {
+    getState: () => state,
+    getServerState: () => SERVER_STATE,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    // Pinning from a result counts its comments as seen
+    add(data) {
+      if (state.threads.some(t => t.threadId === data.thread.id)) return;
+      update({
+        threads: [
+          ...state.threads,
+          {
+            threadId: data.thread.id,
+            url: data.thread.permalink,
+            title: data.thread.title,
+            subreddit: data.thread.subreddit,
+            commentCount: data.thread.commentCount,
+            intervalMinutes: DEFAULT_INTERVAL,
+            addedAt: new Date().toISOString(),
+            minedAt: data.meta.fetchedAt,
+            lastPolledAt: data.meta.fetchedAt,
+            lastError: null,
+            seenIds: data.comments.map(c => c.id),
+            hits: [],
+          },
+        ],
+      });
+    },
+
+    remove(threadId) {
+      update({
+        threads: state.threads.filter(t => t.threadId !== threadId),
+        alert: state.alert?.threadId === threadId ? null : state.alert,
+      });
+    },
+
+    setPollInterval(threadId, minutes) {
+      patchThread(threadId, () => ({ intervalMinutes: minutes }));
+    },
+
+    markRead(threadId) {
+      patchThread(threadId, () => ({ hits: [] }));
+    },
+
+    async setNotify(notify) {
+      if (notify && typeof Notification !== 'undefined' && Notification.permission !== 'granted') {
+        notify = (await Notification.requestPermission()) === 'granted';
+      }
+      update({ notify: notify && typeof Notification !== 'undefined' });
+    },
+
+    dismissAlert() {
+      update({ alert: null });
+    },
+
+    pollNow: enqueuePoll,
+
+    // Returns a stop function for useEffect cleanup
+    start() {
+      tick();
+      const timer = setInterval(tick, TICK_MS);
+      return () => clearInterval(timer);
+    },
+  };
+}
+
+export const watchlist = createWatchlist();